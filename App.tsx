@@ -1,28 +1,65 @@
 
-import React, { useState, useEffect, lazy, Suspense } from 'react';
+import React, { useState, useEffect, useRef, lazy, Suspense } from 'react';
 import { ZomatoOrder, User } from './types';
 import Dashboard from './components/Dashboard';
 import DataGrid from './components/DataGrid';
 import Login from './components/Login';
 import Settings from './components/Settings';
-import { parseCSV } from './services/csvService';
+import ImportWizard from './components/ImportWizard';
+import ImportReport from './components/ImportReport';
+import ImportHistory from './components/ImportHistory';
+import MenuCatalog from './components/MenuCatalog';
+import Reconciliation from './components/Reconciliation';
+import PromotionsAnalysis from './components/PromotionsAnalysis';
+import CustomerAnalytics from './components/CustomerAnalytics';
+import ReviewAnalytics from './components/ReviewAnalytics';
+import BasketAnalysis from './components/BasketAnalysis';
+import MenuEngineering from './components/MenuEngineering';
+import { parseCSV, readCsvFiles, combineCsvTables, CsvReadProgress, NamedCsvTable, ParseResult } from './services/csvService';
 import { supabaseService } from './services/supabaseService';
 import { authService } from './services/authService';
+import { pickOrderDetails } from './services/orderFields';
+import { parseOrderItems } from './services/orderItems';
+import { importHistoryService, ImportBatch, RecordImportResult } from './services/importHistoryService';
+import { kitchenTimeService, KitchenTimeSettings } from './services/kitchenTimeService';
+import { menuCatalogService } from './services/menuCatalogService';
+import { payoutService, RateCard } from './services/payoutService';
+import { orderStatusService, StatusMapping, applyOrderStatuses, classifyOrderStatus } from './services/orderStatusService';
 
 const GeminiInsight = lazy(() => import('./components/GeminiInsight'));
 const AIDeepdive = lazy(() => import('./components/AIDeepdive'));
 
-type Tab = 'dashboard' | 'data' | 'ai' | 'deepdive';
+type Tab = 'dashboard' | 'data' | 'customers' | 'reviews' | 'menu' | 'promotions' | 'settlements' | 'imports' | 'ai' | 'deepdive';
 
 const getOrdersCacheKey = (userEmail: string) => `clos_orders_cache_${userEmail.toLowerCase()}`;
 
+// Appended to the import message when the batch can't be rolled back later
+const describeHistoryResult = (recorded: RecordImportResult): string => {
+  if ('message' in recorded) return ` ${recorded.message}`;
+  return recorded.batch.snapshotDropped
+    ? ' Too many overwritten orders to keep a copy; this import cannot be rolled back.'
+    : '';
+};
+
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [orders, setOrders] = useState<ZomatoOrder[]>([]);
   const [activeTab, setActiveTab] = useState<Tab>('dashboard');
+  const [focusOrderId, setFocusOrderId] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isConverting, setIsConverting] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [pendingImports, setPendingImports] = useState<NamedCsvTable[]>([]); // One wizard step per header layout
+  const [readProgress, setReadProgress] = useState<CsvReadProgress | null>(null);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [timeSettings, setTimeSettings] = useState<KitchenTimeSettings>(() => kitchenTimeService.getActive());
+  const [menuRevision, setMenuRevision] = useState(() => menuCatalogService.getRevision());
+  const [statusMapping, setStatusMapping] = useState<StatusMapping>(() => orderStatusService.getActive());
+  const [rateCards, setRateCards] = useState<RateCard[]>(() => payoutService.getActive());
+  const [importReport, setImportReport] = useState<{ fileName: string; result: ParseResult; summary: string; failed: boolean } | null>(null);
+  // Latest orders for async handlers, whose closures can predate an import that just finished
+  const ordersRef = useRef<ZomatoOrder[]>(orders);
+  ordersRef.current = orders;
 
   const getErrorMessage = (error: unknown): string => {
     if (error instanceof Error) return error.message;
@@ -67,15 +104,21 @@ const App: React.FC = () => {
         throw new Error(`Order at index ${index} is missing required fields like orderId or restaurantName.`);
       }
 
+      const items = order.items ? String(order.items) : '';
+      const orderStatus = String(order.orderStatus || 'Unknown');
+      const details = pickOrderDetails(item);
       return {
         orderId: normalizeOrderId(order.orderId),
         restaurantName: String(order.restaurantName),
         orderPlacedAt: normalizeOrderDate(order.orderPlacedAt),
-        orderStatus: String(order.orderStatus || 'Unknown'),
+        orderStatus,
+        status: classifyOrderStatus(orderStatus, undefined, details.cancellationReason),
         totalAmount: Number(order.totalAmount || 0),
         rating: typeof order.rating === 'number' ? order.rating : undefined,
-        items: order.items ? String(order.items) : '',
+        items,
         city: order.city ? String(order.city) : '',
+        ...details,
+        lineItems: details.lineItems ?? parseOrderItems(items),
       };
     });
   };
@@ -143,11 +186,19 @@ const App: React.FC = () => {
   // Load orders whenever the active user changes (initial session restore or manual login)
   useEffect(() => {
     (async () => {
+      setTimeSettings(kitchenTimeService.activate(user?.id ?? null));
+      setStatusMapping(orderStatusService.activate(user?.id ?? null));
+      setRateCards(payoutService.activate(user?.id ?? null));
+      menuCatalogService.activate(user?.id ?? null);
+      setMenuRevision(menuCatalogService.getRevision());
       if (!user?.id || !user?.email) {
         setOrders([]);
+        setImportBatches([]);
         return;
       }
 
+      setImportBatches(importHistoryService.list(user.id));
+
       const cachedOrders = readCachedOrders(user.email);
       if (cachedOrders.length > 0) {
         setOrders(cachedOrders);
@@ -172,51 +223,104 @@ const App: React.FC = () => {
     }
   }, [orders, user?.email]);
 
+  // Keep the menu catalog in step with imported items (new names, estimated prices).
+  // Keyed on orders only: a user switch activates the new catalog first, then reloads orders.
+  useEffect(() => {
+    if (!user?.id) return;
+    if (menuCatalogService.syncFromOrders(orders)) {
+      setMenuRevision(menuCatalogService.getRevision());
+    }
+  }, [orders]);
+
+  // Step 1: read the CSVs off the main thread and open the import wizard for column mapping + preview.
+  // Files sharing a header row are combined, so a folder of monthly exports is mapped once.
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file && user?.id) {
+    const input = e.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    if (files.length > 0 && user?.id) {
       setIsUploading(true);
       try {
-        const parsedOrders = (await parseCSV(file)).map((order) => ({
-          ...order,
-          orderId: normalizeOrderId(order.orderId),
-        }));
-        if (parsedOrders.length === 0) {
-          throw new Error('No valid rows were found in the CSV file. Check the header names and row format.');
+        const tables = combineCsvTables(await readCsvFiles(files, setReadProgress));
+        if (tables.length === 0) {
+          throw new Error(files.length > 1 ? 'No data rows were found in the selected CSV files.' : 'No data rows were found in the CSV file.');
         }
+        setPendingImports(tables);
+      } catch (err) {
+        console.error('CSV read failed', err);
+        alert(`Upload failed: ${getErrorMessage(err)}`);
+      } finally {
+        setIsUploading(false);
+        setReadProgress(null);
+        input.value = '';
+      }
+    }
+  };
 
-        const existingIds = new Set(orders.map((o) => normalizeOrderId(o.orderId)));
-        const uploadedUniqueIds = new Set(parsedOrders.map((o) => normalizeOrderId(o.orderId)));
-        const expectedNew = Array.from(uploadedUniqueIds).filter((id) => !existingIds.has(id)).length;
-        const expectedExisting = uploadedUniqueIds.size - expectedNew;
+  // Step 2: save the orders confirmed in the wizard, then show the validation report
+  // The queue advances once the save finishes, so each batch is recorded against the orders the previous one left
+  const handleConfirmImport = async ({ fileName, table }: NamedCsvTable, result: ParseResult) => {
+    if (!user?.id) {
+      setPendingImports((prev) => prev.slice(1));
+      return;
+    }
+    setIsUploading(true);
+    const existingOrders = ordersRef.current;
+    try {
+      const parsedOrders = result.orders.map((order) => ({
+        ...order,
+        orderId: normalizeOrderId(order.orderId),
+      }));
+      if (parsedOrders.length === 0) {
+        throw new Error('No valid rows were found in the CSV file. See the row errors below.');
+      }
 
-        await supabaseService.saveOrders(user.id, parsedOrders);
-        const verifiedCount = await supabaseService.countExistingOrderIds(
-          user.id,
-          Array.from(uploadedUniqueIds)
-        );
-        const loadedOrders = await supabaseService.loadOrders(user.id);
-        if (loadedOrders.length === 0) {
-          throw new Error('Orders were saved, but no rows were returned from Supabase. Check your table name, row-level security, and user_id column.');
-        }
+      const existingIds = new Set(existingOrders.map((o) => normalizeOrderId(o.orderId)));
+      const uploadedUniqueIds = new Set(parsedOrders.map((o) => normalizeOrderId(o.orderId)));
+      const expectedNew = Array.from(uploadedUniqueIds).filter((id) => !existingIds.has(id)).length;
+      const expectedExisting = uploadedUniqueIds.size - expectedNew;
 
-        const missingAfterSync = uploadedUniqueIds.size - verifiedCount;
-        if (missingAfterSync > 0) {
-          throw new Error(
-            `Cloud sync incomplete. ${missingAfterSync} uploaded order IDs were not found in Supabase after save (verified ${verifiedCount}/${uploadedUniqueIds.size}).`
-          );
-        }
+      await supabaseService.saveOrders(user.id, parsedOrders);
+      const verifiedCount = await supabaseService.countExistingOrderIds(
+        user.id,
+        Array.from(uploadedUniqueIds)
+      );
+      const loadedOrders = await supabaseService.loadOrders(user.id);
+      if (loadedOrders.length === 0) {
+        throw new Error('Orders were saved, but no rows were returned from Supabase. Check your table name, row-level security, and user_id column.');
+      }
 
-        setOrders(mergeOrdersById(orders, loadedOrders));
-        alert(
-          `Upload successful. Processed ${parsedOrders.length} rows (${uploadedUniqueIds.size} unique IDs): ${expectedNew} new, ${expectedExisting} existing updated.`
+      const missingAfterSync = uploadedUniqueIds.size - verifiedCount;
+      if (missingAfterSync > 0) {
+        throw new Error(
+          `Cloud sync incomplete. ${missingAfterSync} uploaded order IDs were not found in Supabase after save (verified ${verifiedCount}/${uploadedUniqueIds.size}).`
         );
-      } catch (err) {
-        console.error('CSV upload failed', err);
-        alert(`Upload failed: ${getErrorMessage(err)}`);
-      } finally {
-        setIsUploading(false);
       }
+
+      const recorded = importHistoryService.record(
+        user.id,
+        {
+          kind: 'csv',
+          fileNames: table.files ? table.files.map((f) => f.name) : [fileName],
+          rowsRead: result.totalRows,
+          rowsRejected: result.rejectedRows,
+        },
+        parsedOrders,
+        existingOrders
+      );
+      setImportBatches(importHistoryService.list(user.id));
+      setOrders((currentOrders) => mergeOrdersById(currentOrders, loadedOrders));
+      setImportReport({
+        fileName,
+        result,
+        summary: `Upload successful. Saved ${parsedOrders.length} rows (${uploadedUniqueIds.size} unique IDs): ${expectedNew} new, ${expectedExisting} existing updated.${describeHistoryResult(recorded)}`,
+        failed: false,
+      });
+    } catch (err) {
+      console.error('CSV upload failed', err);
+      setImportReport({ fileName, result, summary: `Upload failed: ${getErrorMessage(err)}`, failed: true });
+    } finally {
+      setIsUploading(false);
+      setPendingImports((prev) => prev.slice(1));
     }
   };
 
@@ -227,8 +331,10 @@ const App: React.FC = () => {
       orderPlacedAt: order.orderPlacedAt,
       orderStatus: order.orderStatus,
       totalAmount: order.totalAmount,
+      rating: order.rating,
       items: order.items || '',
       city: order.city || '',
+      ...pickOrderDetails(order),
     }));
 
     const blob = new Blob([JSON.stringify(jsonOrders, null, 2)], { type: 'application/json' });
@@ -248,13 +354,17 @@ const App: React.FC = () => {
 
     setIsConverting(true);
     try {
-      const parsedOrders = await parseCSV(file);
+      const { orders: parsedOrders, issues, rejectedRows } = await parseCSV(file);
       if (parsedOrders.length === 0) {
         throw new Error('No valid rows were found in the CSV file. Check the header names and row format.');
       }
 
       exportOrdersAsJson(parsedOrders, file.name);
-      alert(`Converted ${parsedOrders.length} orders to JSON.`);
+      const warnings = issues.length - issues.filter((issue) => issue.severity === 'error').length;
+      alert(
+        `Converted ${parsedOrders.length} orders to JSON.` +
+          (rejectedRows > 0 || warnings > 0 ? ` ${rejectedRows} rows rejected, ${warnings} warnings. Use Import CSV for the full report.` : '')
+      );
     } catch (err) {
       console.error('CSV to JSON conversion failed', err);
       alert(`Conversion failed: ${getErrorMessage(err)}`);
@@ -269,6 +379,8 @@ const App: React.FC = () => {
       try {
         if (!user?.id) throw new Error('No signed-in user id');
         await supabaseService.clearOrders(user.id);
+        importHistoryService.clear(user.id);
+        setImportBatches([]);
         setOrders([]);
       } catch (err) {
         console.error('Failed to purge cloud orders', err);
@@ -277,6 +389,45 @@ const App: React.FC = () => {
     }
   };
 
+  // Undo one import batch: delete the orders it inserted and restore the versions it overwrote
+  const handleRollbackBatch = async (batch: ImportBatch) => {
+    if (!user?.id) return;
+
+    if (batch.snapshotDropped) {
+      alert('The overwritten orders of this import were not kept (storage limit), so it cannot be rolled back.');
+      return;
+    }
+
+    const blocking = importHistoryService.getBlockingBatches(user.id, batch.id);
+    if (blocking.length > 0) {
+      alert(
+        `Newer imports changed some of the same orders (${blocking.map((b) => b.fileNames.join(', ')).join('; ')}). Roll those back first.`
+      );
+      return;
+    }
+
+    if (!window.confirm(
+      `Roll back this import? ${batch.insertedIds.length} inserted orders will be deleted and ${batch.previousOrders.length} overwritten orders restored.`
+    )) return;
+
+    try {
+      await supabaseService.deleteOrders(user.id, batch.insertedIds);
+      if (batch.previousOrders.length > 0) {
+        await supabaseService.saveOrders(user.id, batch.previousOrders);
+      }
+      importHistoryService.markRolledBack(user.id, batch.id);
+      setImportBatches(importHistoryService.list(user.id));
+
+      const inserted = new Set(batch.insertedIds);
+      setOrders((currentOrders) =>
+        mergeOrdersById(currentOrders.filter((o) => !inserted.has(normalizeOrderId(o.orderId))), batch.previousOrders)
+      );
+    } catch (err) {
+      console.error('Import rollback failed', err);
+      alert(`Rollback failed: ${getErrorMessage(err)}`);
+    }
+  };
+
   const handleExportData = async () => {
     try {
       if (!user?.id) throw new Error('No signed-in user id');
@@ -305,7 +456,8 @@ const App: React.FC = () => {
         ...order,
         orderId: normalizeOrderId(order.orderId),
       }));
-      const existingIds = new Set(orders.map((o) => normalizeOrderId(o.orderId)));
+      const existingOrders = ordersRef.current;
+      const existingIds = new Set(existingOrders.map((o) => normalizeOrderId(o.orderId)));
       const uploadedUniqueIds = new Set(parsedOrders.map((o) => normalizeOrderId(o.orderId)));
       const expectedNew = Array.from(uploadedUniqueIds).filter((id) => !existingIds.has(id)).length;
       const expectedExisting = uploadedUniqueIds.size - expectedNew;
@@ -325,9 +477,17 @@ const App: React.FC = () => {
           );
         }
 
+        const recorded = importHistoryService.record(
+          user.id,
+          { kind: 'json', fileNames: [file.name], rowsRead: parsedOrders.length, rowsRejected: 0 },
+          parsedOrders,
+          existingOrders
+        );
+        setImportBatches(importHistoryService.list(user.id));
         setOrders((currentOrders) => mergeOrdersById(currentOrders, loadedOrders));
         alert(
-          `Import successful. Processed ${parsedOrders.length} rows (${uploadedUniqueIds.size} unique IDs): ${expectedNew} new, ${expectedExisting} existing updated.`
+          `Import successful. Processed ${parsedOrders.length} rows (${uploadedUniqueIds.size} unique IDs): ${expectedNew} new, ${expectedExisting} existing updated.` +
+            describeHistoryResult(recorded)
         );
       } catch (saveErr) {
         console.warn('JSON import failed to save to Supabase:', saveErr);
@@ -393,13 +553,15 @@ const App: React.FC = () => {
                   ? 'bg-gray-800 text-gray-400 border-gray-700' 
                   : 'bg-white/5 border-white/10 text-orange-500 hover:bg-orange-500 hover:text-white hover:border-orange-500'
                 }`}>
-                {isUploading ? <span>Ingesting...</span> : (
+                {isUploading ? (
+                  <span>{readProgress ? `Reading ${readProgress.fileCount > 1 ? `${readProgress.fileIndex + 1}/${readProgress.fileCount} · ` : ''}${readProgress.percent}%` : 'Ingesting...'}</span>
+                ) : (
                   <>
                     <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
                     <span>Import CSV</span>
                   </>
                 )}
-                <input type="file" accept=".csv" className="hidden" onChange={handleFileUpload} />
+                <input type="file" accept=".csv" multiple className="hidden" onChange={handleFileUpload} />
              </label>
 
              <label className={`cursor-pointer px-4 py-2 rounded-lg font-bold text-[10px] uppercase tracking-widest transition-all border flex items-center gap-2 ${
@@ -448,7 +610,7 @@ const App: React.FC = () => {
                 <h2 className="text-2xl font-light text-[#fef3c7] mb-2">Awaiting Dataset</h2>
                 <p className="text-sm leading-relaxed text-gray-500">
                   Welcome, Chef {user.name}.<br/> 
-                  Upload your Zomato CSV reports to initialize the analytics engine.
+                  Upload your Zomato, Swiggy or website/POS CSV reports to initialize the analytics engine.
                 </p>
               </div>
            </div>
@@ -480,6 +642,72 @@ const App: React.FC = () => {
                     Raw Data
                   </button>
 
+                  <button
+                    onClick={() => setActiveTab('customers')}
+                    className={`flex items-center gap-2 px-6 py-4 text-xs font-bold uppercase tracking-widest transition-all border-b-2 ${
+                      activeTab === 'customers' 
+                        ? 'border-orange-500 text-orange-500 bg-white/5' 
+                        : 'border-transparent text-gray-500 hover:text-[#fef3c7]'
+                    }`}
+                  >
+                    Customers
+                  </button>
+
+                  <button
+                    onClick={() => setActiveTab('reviews')}
+                    className={`flex items-center gap-2 px-6 py-4 text-xs font-bold uppercase tracking-widest transition-all border-b-2 ${
+                      activeTab === 'reviews' 
+                        ? 'border-orange-500 text-orange-500 bg-white/5' 
+                        : 'border-transparent text-gray-500 hover:text-[#fef3c7]'
+                    }`}
+                  >
+                    Reviews
+                  </button>
+
+                  <button
+                    onClick={() => setActiveTab('menu')}
+                    className={`flex items-center gap-2 px-6 py-4 text-xs font-bold uppercase tracking-widest transition-all border-b-2 ${
+                      activeTab === 'menu' 
+                        ? 'border-orange-500 text-orange-500 bg-white/5' 
+                        : 'border-transparent text-gray-500 hover:text-[#fef3c7]'
+                    }`}
+                  >
+                    Menu
+                  </button>
+
+                  <button
+                    onClick={() => setActiveTab('promotions')}
+                    className={`flex items-center gap-2 px-6 py-4 text-xs font-bold uppercase tracking-widest transition-all border-b-2 ${
+                      activeTab === 'promotions' 
+                        ? 'border-orange-500 text-orange-500 bg-white/5' 
+                        : 'border-transparent text-gray-500 hover:text-[#fef3c7]'
+                    }`}
+                  >
+                    Promotions
+                  </button>
+
+                  <button
+                    onClick={() => setActiveTab('settlements')}
+                    className={`flex items-center gap-2 px-6 py-4 text-xs font-bold uppercase tracking-widest transition-all border-b-2 ${
+                      activeTab === 'settlements' 
+                        ? 'border-orange-500 text-orange-500 bg-white/5' 
+                        : 'border-transparent text-gray-500 hover:text-[#fef3c7]'
+                    }`}
+                  >
+                    Settlements
+                  </button>
+
+                  <button
+                    onClick={() => setActiveTab('imports')}
+                    className={`flex items-center gap-2 px-6 py-4 text-xs font-bold uppercase tracking-widest transition-all border-b-2 ${
+                      activeTab === 'imports' 
+                        ? 'border-orange-500 text-orange-500 bg-white/5' 
+                        : 'border-transparent text-gray-500 hover:text-[#fef3c7]'
+                    }`}
+                  >
+                    Imports
+                  </button>
+
                   <button
                     onClick={() => setActiveTab('ai')}
                     className={`flex items-center gap-2 px-6 py-4 text-xs font-bold uppercase tracking-widest transition-all border-b-2 ${
@@ -507,11 +735,33 @@ const App: React.FC = () => {
 
               {/* Content Area */}
               <div className="min-h-[500px]">
-                 {activeTab === 'dashboard' && <Dashboard orders={orders} user={user} />}
-                 {activeTab === 'data' && <DataGrid orders={orders} />}
+                 {activeTab === 'dashboard' && <Dashboard orders={orders} user={user} timeSettings={timeSettings} menuRevision={menuRevision} rateCards={rateCards} />}
+                 {activeTab === 'data' && <DataGrid orders={orders} focusOrderId={focusOrderId} />}
+                 {activeTab === 'customers' && <CustomerAnalytics orders={orders} rateCards={rateCards} timeSettings={timeSettings} />}
+                 {activeTab === 'reviews' && (
+                   <ReviewAnalytics
+                     orders={orders}
+                     revision={menuRevision}
+                     timeSettings={timeSettings}
+                     onOpenOrder={orderId => {
+                       setFocusOrderId(orderId);
+                       setActiveTab('data');
+                     }}
+                   />
+                 )}
+                 {activeTab === 'menu' && (
+                   <div className="space-y-6">
+                     <MenuCatalog orders={orders} revision={menuRevision} onChange={() => setMenuRevision(menuCatalogService.getRevision())} />
+                     <MenuEngineering orders={orders} revision={menuRevision} timeSettings={timeSettings} />
+                     <BasketAnalysis orders={orders} revision={menuRevision} />
+                   </div>
+                 )}
+                 {activeTab === 'promotions' && <PromotionsAnalysis orders={orders} rateCards={rateCards} timeSettings={timeSettings} />}
+                 {activeTab === 'settlements' && <Reconciliation orders={orders} rateCards={rateCards} userId={user.id} />}
+                 {activeTab === 'imports' && <ImportHistory batches={importBatches} onRollback={handleRollbackBatch} />}
                   {(activeTab === 'ai' || activeTab === 'deepdive') && (
                    <Suspense fallback={<div className="text-sm text-gray-400 py-8">Loading AI module...</div>}>
-                    {activeTab === 'ai' && <GeminiInsight orders={orders} userName={user.name} userId={user.id} />}
+                    {activeTab === 'ai' && <GeminiInsight orders={orders} userName={user.name} userId={user.id} accountId={user.id ?? user.email} />}
                     {activeTab === 'deepdive' && <AIDeepdive orders={orders} />}
                    </Suspense>
                   )}
@@ -519,7 +769,48 @@ const App: React.FC = () => {
            </div>
         )}
       </main>
-        {showSettings && <Settings onClose={() => setShowSettings(false)} />}
+        {showSettings && (
+          <Settings
+            onClose={() => setShowSettings(false)}
+            timeSettings={timeSettings}
+            onSaveTimeSettings={(settings) => {
+              if (user?.id) kitchenTimeService.save(user.id, settings);
+              setTimeSettings(settings);
+            }}
+            orders={orders}
+            statusMapping={statusMapping}
+            onSaveStatusMapping={(mapping) => {
+              if (user?.id) orderStatusService.save(user.id, mapping);
+              setStatusMapping(mapping);
+              setOrders((prev) => applyOrderStatuses(prev, mapping));
+            }}
+            rateCards={rateCards}
+            onSaveRateCards={(cards) => {
+              if (user?.id) payoutService.save(user.id, cards);
+              setRateCards(cards);
+            }}
+          />
+        )}
+        {pendingImports.length > 0 && (
+          <ImportWizard
+            key={pendingImports[0].fileName}
+            fileName={pendingImports[0].fileName}
+            table={pendingImports[0].table}
+            remaining={pendingImports.length - 1}
+            busy={isUploading}
+            onConfirm={(result) => handleConfirmImport(pendingImports[0], result)}
+            onCancel={() => setPendingImports((prev) => prev.slice(1))}
+          />
+        )}
+        {importReport && (
+          <ImportReport
+            fileName={importReport.fileName}
+            result={importReport.result}
+            summary={importReport.summary}
+            failed={importReport.failed}
+            onClose={() => setImportReport(null)}
+          />
+        )}
     </div>
   );
 };
@@ -1,4 +1,9 @@
 import { useState, useEffect, useRef, useCallback } from "react";
+import { OrderItem, OrderSource, OrderStatus } from "../types";
+import { formatChannelMix } from "../services/channelService";
+import { getOrderItems } from "../services/orderItems";
+import { canonicalItemName, menuCatalogService } from "../services/menuCatalogService";
+import { isDelivered, isFailedOrder, orderStatusService } from "../services/orderStatusService";
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -7,9 +12,12 @@ interface Order {
   restaurantName?: string;
   orderPlacedAt: number;
   orderStatus: string;
+  status?: OrderStatus;
   totalAmount: number;
   items?: string;
+  lineItems?: OrderItem[];
   city?: string;
+  source?: OrderSource;
 }
 
 interface OrderChunk {
@@ -46,7 +54,7 @@ interface IndexStatus {
 
 const PROXY_URL_STORAGE_KEY = "localProxy.url";
 const PROXY_URL_ENV = (import.meta.env.VITE_LLM_PROXY_URL as string | undefined)?.trim();
-const RAG_CACHE_VERSION = "v2-status-normalized";
+const RAG_CACHE_VERSION = "v4-canonical-status";
 const RAG_CACHE_META_KEY = "klos_rag_meta";
 
 interface RAGCacheMeta {
@@ -92,44 +100,12 @@ async function fetchProxy(path: string, init: RequestInit = {}, timeoutMs = 1000
   );
 }
 
-function normalizeStatus(status?: string): string {
-  return (status ?? "").trim().toLowerCase();
-}
-
-function isDeliveredStatus(status?: string): boolean {
-  const s = normalizeStatus(status);
-  return s === "delivered" || s === "completed";
-}
-
-function isCancelledLikeStatus(status?: string): boolean {
-  const s = normalizeStatus(status);
-  return s.includes("cancel") || s.includes("reject") || s.includes("fail");
-}
-
-function parseItems(rawItems?: string): Array<{ name: string; qty: number }> {
-  if (!rawItems || !rawItems.trim()) return [];
-  return rawItems
-    .split(",")
-    .map((part) => part.trim())
-    .filter(Boolean)
-    .map((part) => {
-      const match = part.match(/^(\d+)\s*[xX]\s*(.+)$/);
-      if (match) {
-        return {
-          qty: parseInt(match[1], 10) || 1,
-          name: match[2].trim() || "Unknown item",
-        };
-      }
-      return { qty: 1, name: part };
-    });
-}
-
 function computeTopRevenueWeek(orders: Order[]) {
   const weeks = groupByWeek(orders);
   const ranked = Object.entries(weeks)
     .map(([weekStart, weekOrders]) => {
-      const delivered = weekOrders.filter((o) => isDeliveredStatus(o.orderStatus));
-      const cancelled = weekOrders.filter((o) => isCancelledLikeStatus(o.orderStatus));
+      const delivered = weekOrders.filter(isDelivered);
+      const cancelled = weekOrders.filter(isFailedOrder);
       const revenue = delivered.reduce((s, o) => s + o.totalAmount, 0);
       const weekEnd = new Date(weekStart);
       weekEnd.setDate(weekEnd.getDate() + 6);
@@ -153,7 +129,7 @@ function computeTopCancellationCity(orders: Order[]) {
     const city = (o.city ?? "Unknown city").trim() || "Unknown city";
     if (!byCity[city]) byCity[city] = { total: 0, cancelled: 0 };
     byCity[city].total += 1;
-    if (isCancelledLikeStatus(o.orderStatus)) byCity[city].cancelled += 1;
+    if (isFailedOrder(o)) byCity[city].cancelled += 1;
   }
 
   const ranked = Object.entries(byCity)
@@ -174,9 +150,9 @@ function buildComputedFactsContext(orders: Order[]): string {
 
   const topItemsMap: Record<string, number> = {};
   for (const o of orders) {
-    for (const item of parseItems(o.items)) {
-      const key = item.name || "Unknown item";
-      topItemsMap[key] = (topItemsMap[key] || 0) + item.qty;
+    for (const item of getOrderItems(o)) {
+      const key = canonicalItemName(item) || "Unknown item";
+      topItemsMap[key] = (topItemsMap[key] || 0) + item.quantity;
     }
   }
   const topItems = Object.entries(topItemsMap)
@@ -194,6 +170,7 @@ function buildComputedFactsContext(orders: Order[]): string {
       ? `Most cancellations city: ${topCity.city}, Cancelled/Rejected ${topCity.cancelled}, Total orders ${topCity.total}, Cancellation rate ${topCity.cancelRate.toFixed(1)}%.`
       : "Most cancellations city: data not available for this.",
     `Top items by quantity sold: ${topItems || "data not available for this"}.`,
+    `Sales channels: ${formatChannelMix(orders)}.`,
   ].join("\n");
 }
 
@@ -224,7 +201,8 @@ function buildOrdersCacheMeta(orders: Order[]): RAGCacheMeta {
     0
   );
   return {
-    version: RAG_CACHE_VERSION,
+    // Chunk text uses canonical menu names and statuses, so catalog or status-mapping edits invalidate the cache
+    version: `${RAG_CACHE_VERSION}:${menuCatalogService.getRevision()}:${Object.entries(orderStatusService.getActive()).sort().join(";")}`,
     orderCount: orders.length,
     maxOrderPlacedAt,
   };
@@ -246,16 +224,17 @@ function groupByWeek(orders: Order[]): Record<string, Order[]> {
 }
 
 function buildGlobalSummaryChunk(orders: Order[]): OrderChunk {
-  const delivered = orders.filter((o) => isDeliveredStatus(o.orderStatus));
-  const cancelled = orders.filter((o) => isCancelledLikeStatus(o.orderStatus));
+  const delivered = orders.filter(isDelivered);
+  const cancelled = orders.filter(isFailedOrder);
   const totalRevenue = delivered.reduce((s, o) => s + o.totalAmount, 0);
   const avgOrder = delivered.length ? totalRevenue / delivered.length : 0;
   const cancelRate = orders.length ? (cancelled.length / orders.length) * 100 : 0;
 
   const itemCounts: Record<string, number> = {};
   for (const o of orders) {
-    for (const item of parseItems(o.items)) {
-      itemCounts[item.name] = (itemCounts[item.name] || 0) + item.qty;
+    for (const item of getOrderItems(o)) {
+      const name = canonicalItemName(item);
+      itemCounts[name] = (itemCounts[name] || 0) + item.quantity;
     }
   }
   const topItems = Object.entries(itemCounts)
@@ -333,14 +312,16 @@ function buildChunks(orders: Order[]): OrderChunk[] {
   }
 
   for (const [day, dayOrders] of Object.entries(dailyGroups)) {
-    const delivered = dayOrders.filter((o) => isDeliveredStatus(o.orderStatus));
-    const cancelled = dayOrders.filter((o) => isCancelledLikeStatus(o.orderStatus));
+    const delivered = dayOrders.filter(isDelivered);
+    const cancelled = dayOrders.filter(isFailedOrder);
     const revenue = delivered.reduce((s, o) => s + o.totalAmount, 0);
 
     const itemCounts: Record<string, number> = {};
     for (const o of dayOrders) {
-      const item = (o.items ?? "Unknown item").replace(/^\d+ x /, "").trim();
-      itemCounts[item] = (itemCounts[item] || 0) + 1;
+      for (const item of getOrderItems(o)) {
+        const name = canonicalItemName(item);
+        itemCounts[name] = (itemCounts[name] || 0) + item.quantity;
+      }
     }
     const topItems = Object.entries(itemCounts)
       .sort((a, b) => b[1] - a[1])
@@ -385,14 +366,16 @@ function buildChunks(orders: Order[]): OrderChunk[] {
   // ── Weekly chunks ──
   const weeks = groupByWeek(orders);
   for (const [weekStart, weekOrders] of Object.entries(weeks)) {
-    const delivered = weekOrders.filter((o) => isDeliveredStatus(o.orderStatus));
-    const cancelled = weekOrders.filter((o) => isCancelledLikeStatus(o.orderStatus));
+    const delivered = weekOrders.filter(isDelivered);
+    const cancelled = weekOrders.filter(isFailedOrder);
     const revenue = delivered.reduce((s, o) => s + o.totalAmount, 0);
 
     const itemCounts: Record<string, number> = {};
     for (const o of weekOrders) {
-      const item = (o.items ?? "Unknown item").replace(/^\d+ x /, "").trim();
-      itemCounts[item] = (itemCounts[item] || 0) + 1;
+      for (const item of getOrderItems(o)) {
+        const name = canonicalItemName(item);
+        itemCounts[name] = (itemCounts[name] || 0) + item.quantity;
+      }
     }
     const topItems = Object.entries(itemCounts)
       .sort((a, b) => b[1] - a[1])
@@ -446,13 +429,15 @@ function buildChunks(orders: Order[]): OrderChunk[] {
 
   for (const [key, rOrders] of Object.entries(restaurantMonthMap)) {
     const [restaurant, month] = key.split("::");
-    const delivered = rOrders.filter((o) => isDeliveredStatus(o.orderStatus));
+    const delivered = rOrders.filter(isDelivered);
     const revenue = delivered.reduce((s, o) => s + o.totalAmount, 0);
 
     const itemCounts: Record<string, number> = {};
     for (const o of rOrders) {
-      const item = (o.items ?? "Unknown item").replace(/^\d+ x /, "").trim();
-      itemCounts[item] = (itemCounts[item] || 0) + 1;
+      for (const item of getOrderItems(o)) {
+        const name = canonicalItemName(item);
+        itemCounts[name] = (itemCounts[name] || 0) + item.quantity;
+      }
     }
     const topItems = Object.entries(itemCounts)
       .sort((a, b) => b[1] - a[1])
@@ -485,9 +470,9 @@ function buildChunks(orders: Order[]): OrderChunk[] {
 
   for (const [key, cOrders] of Object.entries(cityMonthMap)) {
     const [city, month] = key.split("::");
-    const delivered = cOrders.filter((o) => isDeliveredStatus(o.orderStatus));
+    const delivered = cOrders.filter(isDelivered);
     const revenue = delivered.reduce((s, o) => s + o.totalAmount, 0);
-    const cancelled = cOrders.filter((o) => isCancelledLikeStatus(o.orderStatus));
+    const cancelled = cOrders.filter(isFailedOrder);
     const cancelRate = cOrders.length
       ? ((cancelled.length / cOrders.length) * 100).toFixed(1)
       : "0";
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { ZomatoOrder, DSSAnalysis } from '../types';
 import { ragDssService } from '../services/ragDssService';
 import { businessMetricsService, BusinessMetrics, RejectionAnalysis, InventoryInsight } from '../services/businessMetricsService';
+import { isDelivered } from '../services/orderStatusService';
 
 interface AIManagerDashboardProps {
   orders: ZomatoOrder[];
@@ -43,7 +44,7 @@ export const AIManagerDashboard: React.FC<AIManagerDashboardProps> = ({ orders,
       label: '🚫 Analyze Rejection Patterns',
       emoji: '🚫',
       description: 'Identify why orders are being rejected',
-      query: `Based on ${rejectionAnalysis?.totalRejected || 0} rejections (${rejectionAnalysis?.rejectionRate.toFixed(1) || 0}% rate) causing ₹${rejectionAnalysis?.estimatedLoss || 0} loss, what are the root causes and how can we reduce rejections by 50%?`
+      query: `Based on ${rejectionAnalysis?.totalRejected || 0} rejections (${rejectionAnalysis?.rejectionRate.toFixed(1) || 0}% rate) and ${rejectionAnalysis?.failedOrders || 0} lost orders causing ₹${rejectionAnalysis?.estimatedLoss.toFixed(0) || 0} loss (top reasons: ${rejectionAnalysis?.byReason.slice(0, 3).map(r => `${r.reason} ×${r.orders}${r.controllable ? ', kitchen-controllable' : ''}`).join('; ') || 'none'}), what are the root causes and how can we reduce rejections by 50%?`
     },
     {
       id: 'revenue',
@@ -197,7 +198,11 @@ export const AIManagerDashboard: React.FC<AIManagerDashboardProps> = ({ orders,
             <div className="space-y-1 text-sm text-red-100">
               <div>Total Rejected: {rejectionAnalysis.totalRejected}</div>
               <div>Rate: {rejectionAnalysis.rejectionRate.toFixed(1)}%</div>
-              <div>Est. Loss: ₹{rejectionAnalysis.estimatedLoss}</div>
+              <div>Est. Loss: ₹{rejectionAnalysis.estimatedLoss.toFixed(0)} (₹{rejectionAnalysis.controllableLoss.toFixed(0)} kitchen-controllable)</div>
+              <div>Penalties vs Compensation: ₹{rejectionAnalysis.penaltiesPaid.toFixed(0)} / ₹{rejectionAnalysis.compensationReceived.toFixed(0)}</div>
+              <div className="text-xs text-red-300 mt-2">
+                Top Reason: {rejectionAnalysis.byReason[0] ? `${rejectionAnalysis.byReason[0].reason} (${rejectionAnalysis.byReason[0].orders})` : 'N/A'}
+              </div>
               <div className="text-xs text-red-300 mt-2">
                 Worst City: {Object.entries(rejectionAnalysis.byCity).sort((a, b) => b[1] - a[1])[0]?.[0] || 'N/A'}
               </div>
@@ -318,7 +323,7 @@ export const AIManagerDashboard: React.FC<AIManagerDashboardProps> = ({ orders,
                     </div>
                     <div className="text-right space-y-1">
                       <div className="text-amber-300 font-semibold">₹{order.totalAmount}</div>
-                      <div className={`text-xs font-semibold ${order.orderStatus === 'Completed' ? 'text-green-400' : 'text-red-400'}`}>
+                      <div className={`text-xs font-semibold ${isDelivered(order) ? 'text-green-400' : 'text-red-400'}`}>
                         {order.orderStatus}
                       </div>
                       {order.rating && <div className="text-yellow-400">⭐ {order.rating}</div>}
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { formatBusinessDate } from '../services/kitchenTimeService';
+import {
+  ALERT_SEVERITY_COLORS, ANOMALY_METRICS, AlertState, AnomalyAlert, BREAKDOWN_DIMENSION_LABELS, isAlertActive
+} from '../services/anomalyService';
+
+interface AlertFeedProps {
+  alerts: AnomalyAlert[];
+  state: AlertState;
+  onAcknowledge: (alertId: string) => void;
+  onSnooze: (alertId: string, days: number) => void;
+  onRestore: (alertId: string) => void;
+}
+
+const AlertFeed: React.FC<AlertFeedProps> = ({ alerts, state, onAcknowledge, onSnooze, onRestore }) => {
+  const [showHandled, setShowHandled] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const active = alerts.filter(a => isAlertActive(a, state));
+  const handled = alerts.length - active.length;
+  const visible = showHandled ? alerts : active;
+
+  return (
+    <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 shadow-lg space-y-4">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-xs font-bold text-orange-500 uppercase tracking-widest">Alerts</h3>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] text-gray-500">Unusual days vs the same weekday over the last 8 weeks</span>
+          {handled > 0 && (
+            <button onClick={() => setShowHandled(!showHandled)} className="text-[10px] text-gray-400 hover:text-[#fef3c7] underline">
+              {showHandled ? 'Hide' : 'Show'} {handled} handled
+            </button>
+          )}
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-xs text-gray-500">No unusual days in the last four weeks of data.</p>
+      ) : (
+        <ul className="space-y-2 max-h-[420px] overflow-auto">
+          {visible.map(alert => {
+            const entry = state[alert.id];
+            const isActive = isAlertActive(alert, state);
+            const format = ANOMALY_METRICS[alert.metric].format;
+            return (
+              <li key={alert.id} className={`bg-[#121212] rounded-lg border border-white/5 p-3 ${isActive ? '' : 'opacity-50'}`}>
+                <div className="flex gap-3 items-start">
+                  <span
+                    className="mt-0.5 text-[9px] font-bold uppercase tracking-wider rounded px-1.5 py-0.5 border"
+                    style={{ color: ALERT_SEVERITY_COLORS[alert.severity], borderColor: `${ALERT_SEVERITY_COLORS[alert.severity]}55` }}
+                  >
+                    {alert.severity}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-[#fef3c7]">{alert.message}</p>
+                    <p className="text-[10px] text-gray-500 mt-0.5">
+                      {formatBusinessDate(alert.date, { weekday: 'short', month: 'short', day: 'numeric' })} · {Math.abs(alert.zScore).toFixed(1)}σ {alert.direction === 'up' ? 'above' : 'below'} usual
+                      {entry?.acknowledgedAt && ' · acknowledged'}
+                      {entry?.snoozedUntil && entry.snoozedUntil > Date.now() && ` · snoozed until ${new Date(entry.snoozedUntil).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    {alert.breakdown.length > 0 && (
+                      <button
+                        onClick={() => setExpanded(expanded === alert.id ? null : alert.id)}
+                        className="px-2 py-0.5 rounded text-[10px] text-gray-400 bg-white/5 hover:text-[#fef3c7]"
+                      >
+                        {expanded === alert.id ? 'Hide' : 'Why'}
+                      </button>
+                    )}
+                    {isActive ? (
+                      <>
+                        <button onClick={() => onAcknowledge(alert.id)} className="px-2 py-0.5 rounded text-[10px] text-gray-400 bg-white/5 hover:text-[#fef3c7]">Acknowledge</button>
+                        <button onClick={() => onSnooze(alert.id, 1)} className="px-2 py-0.5 rounded text-[10px] text-gray-400 bg-white/5 hover:text-[#fef3c7]">Snooze 1d</button>
+                        <button onClick={() => onSnooze(alert.id, 7)} className="px-2 py-0.5 rounded text-[10px] text-gray-400 bg-white/5 hover:text-[#fef3c7]">7d</button>
+                      </>
+                    ) : (
+                      <button onClick={() => onRestore(alert.id)} className="px-2 py-0.5 rounded text-[10px] text-gray-400 bg-white/5 hover:text-[#fef3c7]">Restore</button>
+                    )}
+                  </div>
+                </div>
+                {expanded === alert.id && (
+                  <table className="w-full text-left text-xs text-gray-400 mt-3">
+                    <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+                      <tr>
+                        <th className="py-1">Breakdown</th>
+                        <th className="py-1 text-right">That day</th>
+                        <th className="py-1 text-right">Usual</th>
+                        <th className="py-1 text-right">Share of change</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5">
+                      {alert.breakdown.map(c => (
+                        <tr key={`${c.dimension}:${c.segment}`}>
+                          <td className="py-1 text-[#fef3c7]">
+                            <span className="text-[9px] uppercase tracking-wider text-gray-500 mr-2">{BREAKDOWN_DIMENSION_LABELS[c.dimension]}</span>
+                            {c.segment}
+                          </td>
+                          <td className="py-1 text-right">{format(c.value)}</td>
+                          <td className="py-1 text-right">{format(c.baseline)}</td>
+                          <td className="py-1 text-right">{c.share.toFixed(0)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AlertFeed;
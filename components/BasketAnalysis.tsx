@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { ZomatoOrder } from '../types';
+import { BUNDLE_DISCOUNT, ItemSet, analyzeBaskets, analyzeBasketsByRestaurant } from '../services/basketService';
+
+interface BasketAnalysisProps {
+  orders: ZomatoOrder[];
+  revision: number; // Menu catalog revision; merges and prices change the baskets
+}
+
+const MAX_ROWS = 15;
+
+const ItemSetTable: React.FC<{ title: string; sets: ItemSet[] }> = ({ title, sets }) => (
+  <div>
+    <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">{title}</h4>
+    {sets.length === 0 ? (
+      <p className="text-[11px] text-gray-600">None ordered together more than once yet.</p>
+    ) : (
+      <table className="w-full text-left text-xs text-gray-400">
+        <thead className="text-[10px] uppercase text-gray-500">
+          <tr>
+            <th className="py-1.5">Items</th>
+            <th className="py-1.5 text-right">Orders</th>
+            <th className="py-1.5 text-right">Support</th>
+            <th className="py-1.5 text-right">Lift</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5">
+          {sets.slice(0, MAX_ROWS).map(set => (
+            <tr key={set.items.join('|')}>
+              <td className="py-1.5 text-[#fef3c7]">{set.items.join(' + ')}</td>
+              <td className="py-1.5 text-right">{set.orders}</td>
+              <td className="py-1.5 text-right">{set.support.toFixed(1)}%</td>
+              <td className={`py-1.5 text-right ${set.lift > 1 ? 'text-emerald-400' : ''}`}>{set.lift.toFixed(1)}×</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const BasketAnalysis: React.FC<BasketAnalysisProps> = ({ orders, revision }) => {
+  const [restaurant, setRestaurant] = useState<string>('all');
+
+  const byRestaurant = useMemo(() => analyzeBasketsByRestaurant(orders), [orders, revision]);
+  const report = useMemo(
+    () => (restaurant === 'all' ? analyzeBaskets(orders) : byRestaurant.find(r => r.restaurant === restaurant)?.report ?? analyzeBaskets([])),
+    [orders, restaurant, byRestaurant, revision]
+  );
+
+  return (
+    <div className="bg-[#1c1c1e] rounded-lg border border-white/5 p-4 space-y-6">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div>
+          <h3 className="text-sm font-bold text-[#fef3c7]">Frequently Ordered Together</h3>
+          <p className="text-[11px] text-gray-500 mt-1">
+            {report.multiItemBaskets} of {report.baskets} delivered orders had more than one item. Lift above 1× means the items sell together more than chance.
+          </p>
+        </div>
+        {byRestaurant.length > 1 && (
+          <select
+            value={restaurant}
+            onChange={e => setRestaurant(e.target.value)}
+            className="bg-[#0b1220] border border-white/10 rounded px-2 py-1 text-xs text-gray-300"
+          >
+            <option value="all">All restaurants</option>
+            {byRestaurant.map(r => <option key={r.restaurant} value={r.restaurant}>{r.restaurant}</option>)}
+          </select>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Combo candidates</h4>
+        {report.bundles.length === 0 ? (
+          <p className="text-[11px] text-gray-600">No combos yet; they appear once items are ordered together in at least two orders.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {report.bundles.slice(0, 6).map(bundle => (
+              <div key={bundle.items.join('|')} className="bg-[#121212] border border-white/5 rounded p-3">
+                <p className="text-xs text-[#fef3c7]">{bundle.items.join(' + ')}</p>
+                <p className="text-[11px] text-gray-500 mt-1">
+                  {bundle.orders} orders · lift {bundle.lift.toFixed(1)}× · {bundle.confidence.toFixed(0)}% confidence
+                </p>
+                {bundle.suggestedPrice !== undefined ? (
+                  <p className="text-sm text-orange-400 mt-2">
+                    ₹{bundle.suggestedPrice}
+                    <span className="text-[10px] text-gray-500 ml-2">
+                      vs ₹{Math.round(bundle.itemsPrice ?? 0)} separately ({Math.round(BUNDLE_DISCOUNT * 100)}% off){bundle.priceEstimated ? ' · estimated prices' : ''}
+                    </span>
+                  </p>
+                ) : (
+                  <p className="text-[10px] text-gray-600 mt-2">Set menu prices to get a combo price.</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ItemSetTable title="Pairs" sets={report.pairs} />
+        <ItemSetTable title="Triples" sets={report.triples} />
+      </div>
+
+      {report.rules.length > 0 && (
+        <div>
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Rules</h4>
+          <table className="w-full text-left text-xs text-gray-400">
+            <thead className="text-[10px] uppercase text-gray-500">
+              <tr>
+                <th className="py-1.5">Customers who order</th>
+                <th className="py-1.5">also order</th>
+                <th className="py-1.5 text-right">Confidence</th>
+                <th className="py-1.5 text-right">Lift</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {report.rules.slice(0, MAX_ROWS).map(rule => (
+                <tr key={`${rule.antecedent.join('|')}>${rule.consequent}`}>
+                  <td className="py-1.5 text-[#fef3c7]">{rule.antecedent.join(' + ')}</td>
+                  <td className="py-1.5 text-[#fef3c7]">{rule.consequent}</td>
+                  <td className="py-1.5 text-right">{rule.confidence.toFixed(0)}%</td>
+                  <td className="py-1.5 text-right">{rule.lift.toFixed(1)}×</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BasketAnalysis;
@@ -0,0 +1,246 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, LineChart, Line
+} from 'recharts';
+import { ZomatoOrder } from '../types';
+import { RateCard } from '../services/payoutService';
+import { KitchenTimeSettings, formatBusinessDate } from '../services/kitchenTimeService';
+import {
+  CUSTOMER_SEGMENT_COLORS,
+  CUSTOMER_SEGMENT_LABELS,
+  CohortPeriod,
+  analyzeCustomers,
+  buildCohorts,
+  formatCustomerId,
+} from '../services/customerService';
+
+interface CustomerAnalyticsProps {
+  orders: ZomatoOrder[];
+  rateCards: RateCard[];
+  timeSettings: KitchenTimeSettings;
+}
+
+const MAX_COHORT_PERIODS = 12;
+const TOP_CUSTOMERS = 20;
+
+const money = (value: number) => `₹${Math.round(value).toLocaleString()}`;
+const tooltipStyle = { backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' };
+
+const formatCohort = (cohort: string, period: CohortPeriod) =>
+  period === 'week'
+    ? formatBusinessDate(cohort)
+    : formatBusinessDate(`${cohort}-01`, { month: 'short', year: '2-digit' });
+
+const CustomerAnalytics: React.FC<CustomerAnalyticsProps> = ({ orders, rateCards, timeSettings }) => {
+  const [period, setPeriod] = useState<CohortPeriod>('month');
+  const [restaurant, setRestaurant] = useState<string>('all');
+
+  const report = useMemo(() => analyzeCustomers(orders, rateCards, timeSettings), [orders, rateCards, timeSettings]);
+  const cohorts = useMemo(() => buildCohorts(orders, period, timeSettings), [orders, period, timeSettings]);
+
+  // Size-weighted average retention for each period offset, over cohorts old enough to have reached it
+  const retentionCurve = useMemo(() => {
+    const width = Math.min(MAX_COHORT_PERIODS, Math.max(0, ...cohorts.map(c => c.retention.length)));
+    return Array.from({ length: width }, (_, offset) => {
+      const reached = cohorts.filter(c => c.retention.length > offset);
+      const size = reached.reduce((sum, c) => sum + c.size, 0);
+      const retained = reached.reduce((sum, c) => sum + (c.retention[offset] / 100) * c.size, 0);
+      return { period: `${period === 'week' ? 'W' : 'M'}${offset}`, retention: size > 0 ? +(retained / size * 100).toFixed(1) : 0 };
+    });
+  }, [cohorts, period]);
+
+  const topCustomers = restaurant === 'all'
+    ? report.profiles.slice(0, TOP_CUSTOMERS).map(p => ({ id: p.id, orders: p.orders, spend: p.lifetimeValue, segment: p.segment }))
+    : (report.topByRestaurant.find(r => r.restaurant === restaurant)?.customers ?? []).map(c => ({
+        ...c,
+        segment: report.profiles.find(p => p.id === c.id)?.segment,
+      }));
+
+  if (report.customers === 0) {
+    return (
+      <div className="text-center text-gray-500 text-sm py-10">
+        No customer ids in the loaded orders. Import order history exports that include the "Customer ID" column.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pb-10">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {[
+          { label: 'Customers', value: report.customers.toLocaleString(), sub: report.unidentifiedOrders > 0 ? `${report.unidentifiedOrders} orders without an id` : `${report.identifiedOrders} delivered orders` },
+          { label: 'Repeat rate', value: `${report.repeatRate.toFixed(1)}%`, sub: 'Ordered 2+ times' },
+          { label: 'Orders / customer', value: report.ordersPerCustomer.toFixed(2), sub: 'Delivered orders' },
+          { label: 'Avg lifetime value', value: money(report.avgLifetimeValue), sub: `${money(report.avgNetLifetimeValue)} net payout` },
+          { label: 'Days between orders', value: report.daysBetweenOrders.median.toFixed(0), sub: `Median · avg ${report.daysBetweenOrders.avg.toFixed(1)}` },
+        ].map(stat => (
+          <div key={stat.label} className="bg-[#1c1c1e] p-4 rounded-lg border border-white/5">
+            <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">{stat.label}</p>
+            <p className="text-xl font-medium text-[#fef3c7] mt-1">{stat.value}</p>
+            <p className="text-[11px] text-gray-500 mt-0.5">{stat.sub}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5">
+          <h3 className="text-xs font-bold text-orange-500 mb-4 uppercase tracking-widest">RFM Segments</h3>
+          <table className="w-full text-left text-xs text-gray-400">
+            <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+              <tr>
+                <th className="py-2">Segment</th>
+                <th className="py-2 text-right">Customers</th>
+                <th className="py-2 text-right">Share</th>
+                <th className="py-2 text-right">Lifetime value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {report.segments.map(s => (
+                <tr key={s.segment}>
+                  <td className="py-1.5 text-[#fef3c7] flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CUSTOMER_SEGMENT_COLORS[s.segment] }}></span>
+                    {s.label}
+                  </td>
+                  <td className="py-1.5 text-right">{s.customers}</td>
+                  <td className="py-1.5 text-right">{s.share.toFixed(1)}%</td>
+                  <td className="py-1.5 text-right">{money(s.lifetimeValue)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-gray-600 mt-3">
+            Recency from the last day in the data: ≤7d, ≤14d, ≤30d, ≤60d. Frequency: 1, 2, 3, 4-5, 6+ orders.
+          </p>
+        </div>
+
+        <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 h-80">
+          <h3 className="text-xs font-bold text-orange-500 mb-4 uppercase tracking-widest">Days Between Orders</h3>
+          <ResponsiveContainer width="100%" height="85%">
+            <BarChart data={report.daysBetweenOrders.buckets}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
+              <XAxis dataKey="label" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+              <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} allowDecimals={false} />
+              <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} contentStyle={tooltipStyle} />
+              <Bar dataKey="count" name="Repeat orders" fill="#f97316" radius={[2, 2, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xs font-bold text-orange-500 uppercase tracking-widest">Cohort Retention</h3>
+          <div className="flex gap-2">
+            {(['week', 'month'] as CohortPeriod[]).map(p => (
+              <button
+                key={p}
+                onClick={() => setPeriod(p)}
+                className={`px-3 py-1 rounded text-xs font-bold uppercase tracking-wider transition-colors ${period === p ? 'bg-orange-600 text-white' : 'text-gray-500 hover:text-[#fef3c7] bg-white/5 hover:bg-white/10'}`}
+              >
+                {p === 'week' ? 'Weekly' : 'Monthly'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={retentionCurve.slice(1)}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
+              <XAxis dataKey="period" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+              <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(val) => `${val}%`} />
+              <Tooltip contentStyle={tooltipStyle} formatter={(val) => [`${val}%`, 'Ordered again']} />
+              <Line type="monotone" dataKey="retention" stroke="#f97316" strokeWidth={2} dot={{ r: 3 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="overflow-auto">
+          <table className="text-xs text-gray-400">
+            <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+              <tr>
+                <th className="py-2 pr-4 text-left">Cohort</th>
+                <th className="py-2 pr-4 text-right">Size</th>
+                {retentionCurve.map(p => <th key={p.period} className="py-2 px-1 text-center w-12">{p.period}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {cohorts.map(c => (
+                <tr key={c.cohort}>
+                  <td className="py-1 pr-4 text-[#fef3c7] whitespace-nowrap">{formatCohort(c.cohort, period)}</td>
+                  <td className="py-1 pr-4 text-right">{c.size}</td>
+                  {c.retention.slice(0, MAX_COHORT_PERIODS).map((value, offset) => (
+                    <td
+                      key={offset}
+                      className="py-1 px-1 text-center text-[10px]"
+                      style={{ backgroundColor: `rgba(249, 115, 22, ${offset === 0 ? 0.08 : Math.min(0.85, value / 40)})` }}
+                      title={`${value.toFixed(1)}% of ${c.size}`}
+                    >
+                      {value.toFixed(0)}%
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xs font-bold text-orange-500 uppercase tracking-widest">Top Customers</h3>
+          {report.topByRestaurant.length > 1 && (
+            <select
+              value={restaurant}
+              onChange={e => setRestaurant(e.target.value)}
+              className="bg-[#0b1220] border border-white/10 rounded px-2 py-1 text-xs text-gray-300"
+            >
+              <option value="all">All restaurants</option>
+              {report.topByRestaurant.map(r => <option key={r.restaurant} value={r.restaurant}>{r.restaurant}</option>)}
+            </select>
+          )}
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <table className="w-full text-left text-xs text-gray-400">
+            <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+              <tr>
+                <th className="py-2">Customer</th>
+                <th className="py-2 text-right">Orders</th>
+                <th className="py-2 text-right">Spend</th>
+                <th className="py-2 text-right">Segment</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {topCustomers.map(c => (
+                <tr key={c.id}>
+                  <td className="py-1.5 font-mono text-[#fef3c7]" title={c.id}>{formatCustomerId(c.id)}</td>
+                  <td className="py-1.5 text-right">{c.orders}</td>
+                  <td className="py-1.5 text-right">{money(c.spend)}</td>
+                  <td className="py-1.5 text-right" style={{ color: c.segment ? CUSTOMER_SEGMENT_COLORS[c.segment] : undefined }}>
+                    {c.segment ? CUSTOMER_SEGMENT_LABELS[c.segment] : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={topCustomers.slice(0, 10).map(c => ({ name: formatCustomerId(c.id), spend: Math.round(c.spend), segment: c.segment }))} layout="vertical" margin={{ left: 0, right: 20 }}>
+                <XAxis type="number" hide />
+                <YAxis dataKey="name" type="category" width={90} tick={{fontSize: 10, fill: '#a3a3a3'}} axisLine={false} tickLine={false} />
+                <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} contentStyle={tooltipStyle} />
+                <Bar dataKey="spend" radius={[0, 4, 4, 0]} barSize={16}>
+                  {topCustomers.slice(0, 10).map(c => (
+                    <Cell key={c.id} fill={c.segment ? CUSTOMER_SEGMENT_COLORS[c.segment] : '#f97316'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerAnalytics;
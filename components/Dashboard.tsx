@@ -1,95 +1,297 @@
 
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { 
-  AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  BarChart, Bar, Cell, PieChart, Pie, Legend
+  Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
+  BarChart, Bar, Cell, PieChart, Pie, Legend, ComposedChart, Line
 } from 'recharts';
-import { ZomatoOrder, HourlyData, StatusDistribution, User } from '../types';
+import { ZomatoOrder, HourlyData, StatusDistribution, User, OrderStatus } from '../types';
 import { extractTopItems } from '../services/csvService';
+import { countItemQuantities } from '../services/orderItems';
+import { canonicalItemName } from '../services/menuCatalogService';
+import { summarizeChannels, ORDER_SOURCE_COLORS } from '../services/channelService';
+import { ORDER_STATUS_COLORS, ORDER_STATUS_LABELS, getOrderStatus, isDelivered, isFailedOrder } from '../services/orderStatusService';
+import { RateCard, summarizePayouts } from '../services/payoutService';
+import { KitchenTimeSettings, addDays, formatBusinessDate, kitchenHour } from '../services/kitchenTimeService';
+import { READY_MARKING_LABELS, ReadyMarking, analyzeKitchenOps } from '../services/kitchenOpsService';
+import { businessMetricsService } from '../services/businessMetricsService';
+import AlertFeed from './AlertFeed';
+import GoalsPanel from './GoalsPanel';
+import { analyzeGeo } from '../services/geoService';
+import {
+  COMPARISON_LABELS, ComparisonMode, DateRange, RangePreset, comparisonRange, dailyValues, dataRange, filterByRange,
+  formatRange, percentChange, presetRange
+} from '../services/periodService';
+import { HeatmapMetric, WEEKDAYS_MON_FIRST, WEEKDAY_SHORT_LABELS, WeekHourCell, analyzeWeeklyRhythm } from '../services/staffingService';
+import { alertStateService, detectAnomalies, isAlertActive } from '../services/anomalyService';
+import { evaluateGoals, goalService } from '../services/goalService';
+import { FORECAST_MODEL_LABELS, ForecastModel, forecastDemand, sumForecast } from '../services/forecastService';
+
+const FORECAST_HISTORY_DAYS = 28; // Actuals shown before the forecast
+
+type DeltaTone = 'up-good' | 'down-good' | 'neutral';
+
+/** Change vs the comparison period; green when it moved the right way. */
+const DeltaBadge: React.FC<{ value: number | null | undefined; unit?: '%' | 'pts' | 'min' | 'km'; tone?: DeltaTone }> = ({ value, unit = '%', tone = 'up-good' }) => {
+  if (value === null || value === undefined || !Number.isFinite(value)) return null;
+  const good = tone === 'neutral' ? null : (tone === 'up-good' ? value > 0 : value < 0);
+  const color = Math.abs(value) < 0.05 || good === null ? 'text-gray-400' : good ? 'text-emerald-400' : 'text-red-400';
+  return (
+    <span className={`text-[10px] font-bold ${color}`}>
+      {value > 0 ? '▲' : value < 0 ? '▼' : '•'} {Math.abs(value).toFixed(1)}{unit === '%' ? '%' : ` ${unit}`}
+    </span>
+  );
+};
+
+const Sparkline: React.FC<{ values: number[]; previous?: number[]; color: string }> = ({ values, previous, color }) => (
+  <div className="h-8 mt-2">
+    <ResponsiveContainer width="100%" height="100%">
+      <ComposedChart data={values.map((value, i) => ({ value, previous: previous?.[i] }))}>
+        <Area type="monotone" dataKey="value" stroke={color} fill={color} fillOpacity={0.15} strokeWidth={1.5} isAnimationActive={false} />
+        {previous && <Line type="monotone" dataKey="previous" stroke="#525252" strokeDasharray="3 3" dot={false} isAnimationActive={false} />}
+      </ComposedChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+function summarizeKpis(orders: ZomatoOrder[]) {
+  const totalRevenue = orders.reduce((acc, o) => acc + o.totalAmount, 0);
+  const avgRating = orders.reduce((acc, o) => acc + (o.rating || 0), 0) / (orders.filter(o => o.rating).length || 1);
+  const completed = orders.filter(isDelivered).length;
+  const cancelled = orders.filter(isFailedOrder).length;
+  const completionRate = (completed / (orders.length || 1)) * 100;
+  const cancellationRate = (cancelled / (orders.length || 1)) * 100;
+
+  return { totalRevenue, avgRating, totalOrders: orders.length, completionRate, cancellationRate, completed, cancelled };
+}
+
+const REASON_COLORS = ['#f97316', '#ef4444', '#eab308', '#3b82f6', '#a855f7', '#14b8a6', '#64748b'];
 
 interface DashboardProps {
   orders: ZomatoOrder[];
   user: User;
+  timeSettings: KitchenTimeSettings;
+  menuRevision: number; // Re-group top items after catalog merges/renames
+  rateCards: RateCard[];
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ orders, user }) => {
-  const [dateRange, setDateRange] = useState<'all' | '30' | '7'>('all');
+const Dashboard: React.FC<DashboardProps> = ({ orders, user, timeSettings, menuRevision, rateCards }) => {
+  const [dateRange, setDateRange] = useState<RangePreset>('all');
+  const [customRange, setCustomRange] = useState<DateRange | null>(null);
+  const [compareMode, setCompareMode] = useState<ComparisonMode>('none');
+  const [kptBreakdown, setKptBreakdown] = useState<'byWeekday' | 'byItem' | 'byRestaurant'>('byWeekday');
+  const [forecastHorizon, setForecastHorizon] = useState<7 | 14>(7);
+  const [heatmapMetric, setHeatmapMetric] = useState<HeatmapMetric>('orders');
+  const [loadWeekday, setLoadWeekday] = useState<number | null>(null); // null = busiest weekday
+  const accountId = user.id ?? user.email;
+  const [alertState, setAlertState] = useState(() => alertStateService.load(accountId));
+  const [goals, setGoals] = useState(() => goalService.list(accountId));
+
+  useEffect(() => {
+    setAlertState(alertStateService.load(accountId));
+    setGoals(goalService.list(accountId));
+  }, [accountId]);
+
+  // Goals track the current week / month, whatever the date filter
+  const goalProgress = useMemo(() => evaluateGoals(goals, orders, timeSettings), [goals, orders, timeSettings]);
+  const restaurants = useMemo(() => Array.from(new Set(orders.map(o => o.restaurantName))).sort(), [orders]);
+
+  // Date range (whole business days, counting today) and the period it's compared with
+  const activeRange = useMemo(() => {
+    if (dateRange === 'custom') return customRange ?? dataRange(orders, timeSettings);
+    return presetRange(dateRange, orders, timeSettings);
+  }, [orders, dateRange, customRange, timeSettings]);
+  const compareRange = useMemo(
+    () => (activeRange ? comparisonRange(activeRange, compareMode) : null),
+    [activeRange, compareMode]
+  );
 
-  // Filter Orders based on Date Range
   const filteredOrders = useMemo(() => {
-    if (dateRange === 'all') return orders;
-    const now = new Date();
-    const days = parseInt(dateRange);
-    const cutoff = new Date(now.setDate(now.getDate() - days)).getTime();
-    return orders.filter(o => o.orderPlacedAt >= cutoff);
-  }, [orders, dateRange]);
+    if (dateRange === 'all' || !activeRange) return orders;
+    return filterByRange(orders, activeRange, timeSettings);
+  }, [orders, dateRange, activeRange, timeSettings]);
+  const previousOrders = useMemo(
+    () => (compareRange ? filterByRange(orders, compareRange, timeSettings) : null),
+    [orders, compareRange, timeSettings]
+  );
 
   // 1. KPI Calculation
-  const kpi = useMemo(() => {
-    const totalRevenue = filteredOrders.reduce((acc, o) => acc + o.totalAmount, 0);
-    const avgRating = filteredOrders.reduce((acc, o) => acc + (o.rating || 0), 0) / (filteredOrders.filter(o => o.rating).length || 1);
-    const completed = filteredOrders.filter(o => o.orderStatus.toLowerCase().includes('delivered')).length;
-    const cancelled = filteredOrders.filter(o => o.orderStatus.toLowerCase().includes('cancel') || o.orderStatus.toLowerCase().includes('reject')).length;
-    const completionRate = (completed / (filteredOrders.length || 1)) * 100;
-
-    return { totalRevenue, avgRating, totalOrders: filteredOrders.length, completionRate, completed, cancelled };
-  }, [filteredOrders]);
+  const kpi = useMemo(() => summarizeKpis(filteredOrders), [filteredOrders]);
+  const previousKpi = useMemo(() => (previousOrders ? summarizeKpis(previousOrders) : null), [previousOrders]);
 
-  // 2. Revenue Trend
-  const revenueData = useMemo(() => {
-    const map = new Map<string, number>();
-    filteredOrders.forEach(o => {
-        const date = new Date(o.orderPlacedAt);
-        const key = date.toISOString().split('T')[0]; 
-        map.set(key, (map.get(key) || 0) + o.totalAmount);
+  const payout = useMemo(() => summarizePayouts(filteredOrders, rateCards), [filteredOrders, rateCards]);
+  const previousPayout = useMemo(
+    () => (previousOrders ? summarizePayouts(previousOrders, rateCards) : null),
+    [previousOrders, rateCards]
+  );
+
+  // Daily sparklines for the KPI cards; the comparison period is lined up day by day
+  const sparklines = useMemo(() => {
+    if (!activeRange) return null;
+    const series = (list: ZomatoOrder[], range: DateRange) => ({
+      revenue: dailyValues(list, range, day => day.reduce((sum, o) => sum + o.totalAmount, 0), timeSettings),
+      netPayout: dailyValues(list, range, day => summarizePayouts(day, rateCards).netPayout, timeSettings),
+      orders: dailyValues(list, range, day => day.length, timeSettings),
+      rating: dailyValues(list, range, day => summarizeKpis(day).avgRating, timeSettings),
+      completion: dailyValues(list, range, day => (day.length > 0 ? summarizeKpis(day).completionRate : 0), timeSettings),
     });
-    return Array.from(map.entries())
-        .sort((a, b) => a[0].localeCompare(b[0]))
-        .map(([date, total]) => ({
-            date: new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-            sales: total
-        }));
-  }, [filteredOrders]);
+    return {
+      current: series(filteredOrders, activeRange),
+      previous: previousOrders && compareRange ? series(previousOrders, compareRange) : null,
+    };
+  }, [filteredOrders, previousOrders, activeRange, compareRange, rateCards, timeSettings]);
+
+  // 2. Revenue Trend (every day of the range; the comparison period is lined up day by day)
+  const revenueData = useMemo(() => {
+    if (!activeRange) return [];
+    const sumRevenue = (day: ZomatoOrder[]) => day.reduce((sum, o) => sum + o.totalAmount, 0);
+    const sales = dailyValues(filteredOrders, activeRange, sumRevenue, timeSettings);
+    const previous = previousOrders && compareRange ? dailyValues(previousOrders, compareRange, sumRevenue, timeSettings) : null;
+    return sales.map((total, i) => ({
+        date: formatBusinessDate(addDays(activeRange.from, i)),
+        sales: total,
+        ...(previous ? { previous: previous[i] ?? 0 } : {})
+    }));
+  }, [filteredOrders, previousOrders, activeRange, compareRange, timeSettings]);
 
   // 3. Top Items
   const topItemsData = useMemo(() => {
-    return extractTopItems(filteredOrders);
-  }, [filteredOrders]);
+    const top = extractTopItems(filteredOrders);
+    if (!previousOrders) return top;
+    const before = new Map(countItemQuantities(previousOrders, canonicalItemName).map(i => [i.name, i.quantity]));
+    return top.map(item => ({ ...item, previous: before.get(item.itemName) ?? 0 }));
+  }, [filteredOrders, previousOrders, menuRevision]);
 
   // 4. Hourly Heatmap
-  const hourlyData: HourlyData[] = useMemo(() => {
-    const hours = new Array(24).fill(0).map((_, i) => ({ hour: i, sales: 0, orders: 0 }));
+  const hourlyData: Array<HourlyData & { previous?: number }> = useMemo(() => {
+    const hours = new Array(24).fill(0).map((_, i) => ({ hour: i, sales: 0, orders: 0, previous: 0 }));
     filteredOrders.forEach(o => {
-      const h = new Date(o.orderPlacedAt).getHours();
+      const h = kitchenHour(o.orderPlacedAt, timeSettings);
       hours[h].sales += o.totalAmount;
       hours[h].orders += 1;
     });
+    previousOrders?.forEach(o => {
+      hours[kitchenHour(o.orderPlacedAt, timeSettings)].previous += 1;
+    });
     return hours.map(h => ({
       hour: `${h.hour}:00`,
       sales: h.sales,
-      orders: h.orders
+      orders: h.orders,
+      ...(previousOrders ? { previous: h.previous } : {})
     }));
-  }, [filteredOrders]);
+  }, [filteredOrders, previousOrders, timeSettings]);
 
-  // 5. Status Distribution
+  // 4b. Weekly Rhythm (weekday × hour heatmap, kitchen load for shift planning)
+  const rhythm = useMemo(() => analyzeWeeklyRhythm(filteredOrders, timeSettings), [filteredOrders, timeSettings]);
+  const heatmap = useMemo(() => {
+    const valueOf = (c: WeekHourCell) =>
+      heatmapMetric === 'orders' ? c.avgOrders : heatmapMetric === 'revenue' ? c.avgRevenue : c.avgKpt ?? 0;
+    const activeHours = rhythm.cells.filter(c => c.orders > 0).map(c => c.hour);
+    const first = activeHours.length > 0 ? Math.min(...activeHours) : 0;
+    const last = activeHours.length > 0 ? Math.max(...activeHours) : 23;
+    return {
+      hours: Array.from({ length: last - first + 1 }, (_, i) => first + i),
+      max: Math.max(0, ...rhythm.cells.map(valueOf)),
+      valueOf,
+    };
+  }, [rhythm, heatmapMetric]);
+  const loadCurve = useMemo(() => {
+    const weekday = loadWeekday ?? rhythm.peak?.weekday ?? 5;
+    const slots = rhythm.load[weekday] ?? [];
+    const busy = WEEKDAYS_MON_FIRST.flatMap(d => rhythm.load[d].map((slot, i) => (slot.busiestConcurrent > 0 ? i : -1))).filter(i => i >= 0);
+    const from = busy.length > 0 ? Math.min(...busy) : 0;
+    const to = busy.length > 0 ? Math.max(...busy) : slots.length - 1;
+    return {
+      weekday,
+      data: slots.slice(from, to + 1).map(slot => ({
+        time: slot.label,
+        average: +slot.avgConcurrent.toFixed(2),
+        busiest: +slot.busiestConcurrent.toFixed(1),
+      })),
+    };
+  }, [rhythm, loadWeekday]);
+
+  // 5. Channel Comparison
+  const channelData = useMemo(() => summarizeChannels(filteredOrders), [filteredOrders]);
+
+  // 6. Status Distribution
   const statusData: StatusDistribution[] = useMemo(() => {
-    const statusCounts: Record<string, number> = {};
+    const statusCounts = new Map<OrderStatus, number>();
     filteredOrders.forEach(o => {
-      let s = o.orderStatus.toLowerCase();
-      if (s.includes('delivered')) s = 'Delivered';
-      else if (s.includes('cancel')) s = 'Cancelled';
-      else if (s.includes('reject')) s = 'Rejected';
-      else s = 'Other';
-      statusCounts[s] = (statusCounts[s] || 0) + 1;
+      const status = getOrderStatus(o);
+      statusCounts.set(status, (statusCounts.get(status) || 0) + 1);
     });
-    
-    return Object.entries(statusCounts).map(([name, value]) => ({
-      name,
+
+    return Array.from(statusCounts.entries()).map(([status, value]) => ({
+      name: ORDER_STATUS_LABELS[status],
       value,
-      color: name === 'Delivered' ? '#10b981' : name === 'Cancelled' ? '#ef4444' : name === 'Rejected' ? '#f59e0b' : '#64748b'
+      color: ORDER_STATUS_COLORS[status]
     }));
   }, [filteredOrders]);
 
+  // 7. Kitchen Operations (KPT, rider wait, ready marking)
+  const kitchenOps = useMemo(() => analyzeKitchenOps(filteredOrders, timeSettings), [filteredOrders, timeSettings, menuRevision]);
+
+  // 8. Lost Orders by cancellation / rejection reason (weeks follow the active kitchen clock)
+  const losses = useMemo(() => businessMetricsService.analyzeRejections(filteredOrders), [filteredOrders, timeSettings]);
+  const lossTrend = useMemo(() => {
+    const reasons = losses.byReason.slice(0, REASON_COLORS.length).map(r => r.reason);
+    return {
+      reasons,
+      data: losses.reasonTrend.map(({ week, counts }) => ({
+        week: formatBusinessDate(week),
+        ...Object.fromEntries(reasons.map(reason => [reason, counts[reason] || 0]))
+      }))
+    };
+  }, [losses]);
+
+  // 9. Delivery Area (subzone and distance band)
+  const geo = useMemo(() => analyzeGeo(filteredOrders, rateCards), [filteredOrders, rateCards]);
+  const hasGeoData = useMemo(() => filteredOrders.some(o => o.subzone || o.distance), [filteredOrders]);
+
+  // Same sections for the comparison period, for the deltas in their headers
+  const previousSections = useMemo(() => {
+    if (!previousOrders) return null;
+    return {
+      channels: new Map(summarizeChannels(previousOrders).map(c => [c.source, c])),
+      kitchenOps: analyzeKitchenOps(previousOrders, timeSettings),
+      losses: businessMetricsService.analyzeRejections(previousOrders),
+      geo: analyzeGeo(previousOrders, rateCards),
+      rhythm: analyzeWeeklyRhythm(previousOrders, timeSettings),
+    };
+  }, [previousOrders, rateCards, timeSettings, menuRevision]);
+
+  // 10. Demand Forecast (always on the full history, not the date filter)
+  const forecast = useMemo(
+    () => forecastDemand(orders, forecastHorizon, timeSettings),
+    [orders, forecastHorizon, timeSettings, menuRevision]
+  );
+  const forecastChart = useMemo(() => {
+    const backtest = new Map(forecast.daily.backtest.map(p => [p.date, p.forecast]));
+    const actuals = forecast.daily.history.slice(-FORECAST_HISTORY_DAYS).map(({ date, actual }) => ({
+      date: formatBusinessDate(date),
+      actual,
+      backtest: backtest.has(date) ? +backtest.get(date)!.toFixed(1) : undefined,
+    }));
+    const ahead = forecast.daily.points.map(p => ({
+      date: formatBusinessDate(p.date),
+      forecast: +p.forecast.toFixed(1),
+      range: [+p.lower.toFixed(1), +p.upper.toFixed(1)],
+    }));
+    return [...actuals, ...ahead];
+  }, [forecast]);
+  const forecastTotal = useMemo(() => sumForecast(forecast.daily.points), [forecast]);
+  const forecastPeakHour = useMemo(
+    () => forecast.byHour.reduce((best, h) => (h.orders > best.orders ? h : best), { hour: 0, orders: 0 }),
+    [forecast]
+  );
+
+  // 11. Anomaly alerts (full history; weekday baselines need past weeks)
+  const alerts = useMemo(() => detectAnomalies(orders, timeSettings), [orders, timeSettings]);
+  const urgentAlerts = useMemo(
+    () => alerts.filter(a => a.severity !== 'info' && isAlertActive(a, alertState)),
+    [alerts, alertState]
+  );
+
   const bannerGreeting = useMemo(() => {
     return `Welcome, ${user.name}. Dashboard synced with your latest order data.`;
   }, [user.name]);
@@ -99,10 +301,12 @@ const Dashboard: React.FC<DashboardProps> = ({ orders, user }) => {
     if (timestamps.length === 0) return 'No timestamp data available yet.';
 
     const daysSinceLastOrder = Math.floor((Date.now() - Math.max(...timestamps)) / (1000 * 60 * 60 * 24));
-    return daysSinceLastOrder > 7
-      ? `Data is ${daysSinceLastOrder} days old. Upload newer records for fresher insights.`
-      : 'System is running efficiently. No critical alerts.';
-  }, [orders]);
+    if (daysSinceLastOrder > 7) return `Data is ${daysSinceLastOrder} days old. Upload newer records for fresher insights.`;
+    if (urgentAlerts.length > 0) {
+      return `${urgentAlerts.length} unusual ${urgentAlerts.length === 1 ? 'day needs' : 'days need'} attention: ${urgentAlerts[0].message}.`;
+    }
+    return 'System is running efficiently. No critical alerts.';
+  }, [orders, urgentAlerts]);
 
   if (orders.length === 0) return null;
 
@@ -119,7 +323,7 @@ const Dashboard: React.FC<DashboardProps> = ({ orders, user }) => {
               <h2 className="text-xl font-medium text-[#fef3c7] mb-1">
                 {bannerGreeting}
               </h2>
-              {bannerAlert.includes('old') ? (
+              {bannerAlert.includes('old') || urgentAlerts.length > 0 ? (
                  <div className="bg-red-900/20 border border-red-500/30 text-red-200 px-3 py-2 rounded-lg text-sm mt-2 flex items-center gap-2 max-w-fit">
                     <svg className="w-4 h-4 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
                   {bannerAlert}
@@ -133,31 +337,86 @@ const Dashboard: React.FC<DashboardProps> = ({ orders, user }) => {
         <div className="absolute top-0 right-0 w-64 h-64 bg-orange-500/5 rounded-full blur-3xl -translate-y-1/2 translate-x-1/2"></div>
       </div>
 
+      {/* Anomaly alerts */}
+      {alerts.length > 0 && (
+        <AlertFeed
+          alerts={alerts}
+          state={alertState}
+          onAcknowledge={id => setAlertState(alertStateService.acknowledge(accountId, id))}
+          onSnooze={(id, days) => setAlertState(alertStateService.snooze(accountId, id, days))}
+          onRestore={id => setAlertState(alertStateService.restore(accountId, id))}
+        />
+      )}
+
       {/* Controls */}
       <div className="flex flex-col sm:flex-row justify-between items-center bg-[#1c1c1e] p-3 rounded-lg border border-white/5">
          <h2 className="text-[#fef3c7] font-medium text-sm pl-2 mb-2 sm:mb-0 uppercase tracking-widest">
             Performance Metrics
          </h2>
-         <div className="flex gap-2">
-            {['all', '30', '7'].map((range) => (
+         <div className="flex flex-wrap items-center justify-end gap-2">
+            {(['all', '30', '7', 'custom'] as const).map((range) => (
                 <button 
                   key={range}
-                  onClick={() => setDateRange(range as any)} 
+                  onClick={() => {
+                    if (range === 'custom' && !customRange && activeRange) setCustomRange(activeRange);
+                    setDateRange(range);
+                  }}
                   className={`px-3 py-1 rounded text-xs font-bold uppercase tracking-wider transition-colors ${dateRange === range ? 'bg-orange-600 text-white' : 'text-gray-500 hover:text-[#fef3c7] bg-white/5 hover:bg-white/10'}`}
                 >
-                  {range === 'all' ? 'All Time' : `Last ${range} Days`}
+                  {range === 'all' ? 'All Time' : range === 'custom' ? 'Custom' : `Last ${range} Days`}
                 </button>
             ))}
+            {dateRange === 'custom' && activeRange && (
+              <div className="flex items-center gap-1 text-xs text-gray-500">
+                <input
+                  type="date"
+                  value={activeRange.from}
+                  max={activeRange.to}
+                  onChange={e => e.target.value && setCustomRange({ from: e.target.value, to: activeRange.to })}
+                  className="bg-[#0b1220] border border-white/10 rounded px-2 py-1 text-xs text-gray-300"
+                />
+                <span>–</span>
+                <input
+                  type="date"
+                  value={activeRange.to}
+                  min={activeRange.from}
+                  onChange={e => e.target.value && setCustomRange({ from: activeRange.from, to: e.target.value })}
+                  className="bg-[#0b1220] border border-white/10 rounded px-2 py-1 text-xs text-gray-300"
+                />
+              </div>
+            )}
+            <select
+              value={compareMode}
+              onChange={e => setCompareMode(e.target.value as ComparisonMode)}
+              className="bg-[#0b1220] border border-white/10 rounded px-2 py-1 text-xs text-gray-300"
+            >
+              {(Object.keys(COMPARISON_LABELS) as ComparisonMode[]).map(mode => (
+                <option key={mode} value={mode}>{mode === 'none' ? COMPARISON_LABELS[mode] : `vs ${COMPARISON_LABELS[mode].toLowerCase()}`}</option>
+              ))}
+            </select>
          </div>
       </div>
+      {activeRange && (
+        <p className="text-[10px] text-gray-500 -mt-4 px-1">
+          {formatRange(activeRange)}
+          {compareRange && ` compared with ${formatRange(compareRange)}`}
+          {previousOrders && previousOrders.length === 0 && ' (no orders in the comparison period)'}
+        </p>
+      )}
 
       {/* KPI Row */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         {[
-          { label: "Gross Revenue", value: `₹${kpi.totalRevenue.toLocaleString()}`, color: "text-emerald-400", sub: "Pre-commission" },
-          { label: "Total Orders", value: kpi.totalOrders, color: "text-orange-400", sub: "Volume" },
-          { label: "Avg Rating", value: kpi.avgRating.toFixed(1), color: "text-yellow-400", sub: "Customer Satisfaction" },
-          { label: "Completion", value: `${kpi.completionRate.toFixed(1)}%`, color: "text-blue-400", sub: "Fulfillment" },
+          { label: "Gross Revenue", value: `₹${kpi.totalRevenue.toLocaleString()}`, color: "text-emerald-400", hex: "#34d399", sub: "Pre-commission",
+            delta: percentChange(kpi.totalRevenue, previousKpi?.totalRevenue), unit: '%' as const, spark: 'revenue' as const },
+          { label: "Net Payout", value: `₹${Math.round(payout.netPayout).toLocaleString()}`, color: "text-teal-400", hex: "#2dd4bf", sub: `${payout.netMarginPercent.toFixed(1)}% after commission & fees`,
+            delta: percentChange(payout.netPayout, previousPayout?.netPayout), unit: '%' as const, spark: 'netPayout' as const },
+          { label: "Total Orders", value: kpi.totalOrders, color: "text-orange-400", hex: "#fb923c", sub: "Volume",
+            delta: percentChange(kpi.totalOrders, previousKpi?.totalOrders), unit: '%' as const, spark: 'orders' as const },
+          { label: "Avg Rating", value: kpi.avgRating.toFixed(1), color: "text-yellow-400", hex: "#facc15", sub: "Customer Satisfaction",
+            delta: percentChange(kpi.avgRating, previousKpi?.avgRating), unit: '%' as const, spark: 'rating' as const },
+          { label: "Completion", value: `${kpi.completionRate.toFixed(1)}%`, color: "text-blue-400", hex: "#60a5fa", sub: "Fulfillment",
+            delta: previousKpi && previousKpi.totalOrders > 0 ? kpi.completionRate - previousKpi.completionRate : null, unit: 'pts' as const, spark: 'completion' as const },
         ].map((stat, i) => (
             <div key={i} className="bg-[#1c1c1e] p-5 rounded-xl border border-white/5 shadow-lg relative group overflow-hidden">
                 <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity">
@@ -165,19 +424,41 @@ const Dashboard: React.FC<DashboardProps> = ({ orders, user }) => {
                 </div>
                 <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">{stat.label}</p>
                 <div className="flex flex-col mt-2 relative z-10">
-                    <span className={`text-2xl font-medium text-[#fef3c7]`}>{stat.value}</span>
+                    <div className="flex items-baseline gap-2">
+                      <span className={`text-2xl font-medium text-[#fef3c7]`}>{stat.value}</span>
+                      <DeltaBadge value={stat.delta} unit={stat.unit} />
+                    </div>
                     <span className={`text-xs ${stat.color} font-medium mt-1`}>{stat.sub}</span>
                 </div>
+                {sparklines && sparklines.current[stat.spark].length > 1 && (
+                  <Sparkline values={sparklines.current[stat.spark]} previous={sparklines.previous?.[stat.spark]} color={stat.hex} />
+                )}
             </div>
         ))}
       </div>
 
+      {/* Goals */}
+      <GoalsPanel
+        progress={goalProgress}
+        restaurants={restaurants}
+        onAdd={goal => setGoals(goalService.add(accountId, goal))}
+        onRemove={id => setGoals(goalService.remove(accountId, id))}
+      />
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Revenue Timeline */}
           <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 h-[350px] lg:col-span-2 shadow-lg">
-             <h3 className="text-xs font-bold text-orange-500 mb-6 uppercase tracking-widest">Revenue Trajectory</h3>
+             <div className="flex items-baseline justify-between mb-6">
+               <h3 className="text-xs font-bold text-orange-500 uppercase tracking-widest flex items-center gap-2">
+                 Revenue Trajectory <DeltaBadge value={percentChange(kpi.totalRevenue, previousKpi?.totalRevenue)} />
+               </h3>
+               <span className="text-[10px] text-gray-500">
+                 Business days · {timeSettings.timeZone}
+                 {timeSettings.businessDayStartHour > 0 && ` · from ${timeSettings.businessDayStartHour}:00`}
+               </span>
+             </div>
              <ResponsiveContainer width="100%" height="85%">
-                  <AreaChart data={revenueData}>
+                  <ComposedChart data={revenueData}>
                       <defs>
                         <linearGradient id="colorSales" x1="0" y1="0" x2="0" y2="1">
                             <stop offset="5%" stopColor="#f97316" stopOpacity={0.3}/>
@@ -188,8 +469,9 @@ const Dashboard: React.FC<DashboardProps> = ({ orders, user }) => {
                       <XAxis dataKey="date" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} minTickGap={30} />
                       <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(val) => `₹${val/1000}k`} />
                       <Tooltip contentStyle={{ backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' }} />
-                      <Area type="monotone" dataKey="sales" stroke="#f97316" strokeWidth={2} fillOpacity={1} fill="url(#colorSales)" />
-                  </AreaChart>
+                      <Area type="monotone" dataKey="sales" name="Sales" stroke="#f97316" strokeWidth={2} fillOpacity={1} fill="url(#colorSales)" />
+                      {compareRange && <Line type="monotone" dataKey="previous" name={COMPARISON_LABELS[compareMode]} stroke="#737373" strokeDasharray="4 4" dot={false} />}
+                  </ComposedChart>
               </ResponsiveContainer>
           </div>
 
@@ -203,33 +485,94 @@ const Dashboard: React.FC<DashboardProps> = ({ orders, user }) => {
                    <XAxis type="number" hide />
                    <YAxis dataKey="itemName" type="category" width={100} tick={{fontSize: 10, fill: '#a3a3a3'}} axisLine={false} tickLine={false} />
                    <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} contentStyle={{ backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' }} />
-                   <Bar dataKey="quantity" fill="#f97316" radius={[0, 4, 4, 0]} barSize={24}>
+                   <Bar dataKey="quantity" name="Sold" fill="#f97316" radius={[0, 4, 4, 0]} barSize={previousOrders ? 14 : 24}>
                       {topItemsData.map((entry, index) => (
                         <Cell key={`cell-${index}`} fill={index === 0 ? '#f97316' : '#ea580c'} opacity={1 - (index * 0.15)} />
                       ))}
                    </Bar>
+                   {previousOrders && <Bar dataKey="previous" name={COMPARISON_LABELS[compareMode]} fill="#525252" radius={[0, 4, 4, 0]} barSize={8} />}
                 </BarChart>
              </ResponsiveContainer>
           </div>
       </div>
 
+      {/* Channel Comparison (only when more than one sales channel is loaded) */}
+      {channelData.length > 1 && (
+        <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 shadow-lg">
+          <h3 className="text-xs font-bold text-orange-500 mb-4 uppercase tracking-widest">Channel Comparison</h3>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <table className="w-full text-left text-xs text-gray-400">
+              <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+                <tr>
+                  <th className="py-2">Channel</th>
+                  <th className="py-2 text-right">Orders</th>
+                  <th className="py-2 text-right">Revenue</th>
+                  <th className="py-2 text-right">AOV</th>
+                  <th className="py-2 text-right">Rating</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {channelData.map(c => (
+                  <tr key={c.source}>
+                    <td className="py-2 text-[#fef3c7] flex items-center gap-2">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ORDER_SOURCE_COLORS[c.source] }}></span>
+                      {c.label}
+                    </td>
+                    <td className="py-2 text-right">
+                      {c.orders} <span className="text-gray-600">({c.orderShare.toFixed(0)}%)</span>
+                      {previousSections && <> <DeltaBadge value={percentChange(c.orders, previousSections.channels.get(c.source)?.orders)} /></>}
+                    </td>
+                    <td className="py-2 text-right text-emerald-400">
+                      ₹{Math.round(c.revenue).toLocaleString()}
+                      {previousSections && <> <DeltaBadge value={percentChange(c.revenue, previousSections.channels.get(c.source)?.revenue)} /></>}
+                    </td>
+                    <td className="py-2 text-right">₹{c.avgOrderValue.toFixed(0)}</td>
+                    <td className="py-2 text-right">{c.avgRating ? c.avgRating.toFixed(1) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={channelData}>
+                  <XAxis dataKey="label" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(val) => `₹${val/1000}k`} />
+                  <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} contentStyle={{ backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' }} />
+                  <Bar dataKey="revenue" radius={[4, 4, 0, 0]} barSize={32}>
+                    {channelData.map(c => (
+                      <Cell key={c.source} fill={ORDER_SOURCE_COLORS[c.source]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
            {/* Hourly Activity */}
            <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 h-80 shadow-lg">
-              <h3 className="text-xs font-bold text-orange-500 mb-6 uppercase tracking-widest">Rush Hours</h3>
+              <h3 className="text-xs font-bold text-orange-500 mb-6 uppercase tracking-widest flex items-center gap-2">
+                Rush Hours <DeltaBadge value={percentChange(kpi.totalOrders, previousKpi?.totalOrders)} />
+              </h3>
               <ResponsiveContainer width="100%" height="85%">
                   <BarChart data={hourlyData}>
                       <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
                       <XAxis dataKey="hour" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
                       <Tooltip contentStyle={{ backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' }} />
-                      <Bar dataKey="orders" fill="#fef3c7" radius={[2, 2, 0, 0]} />
+                      <Bar dataKey="orders" name="Orders" fill="#fef3c7" radius={[2, 2, 0, 0]} />
+                      {previousOrders && <Bar dataKey="previous" name={COMPARISON_LABELS[compareMode]} fill="#525252" radius={[2, 2, 0, 0]} />}
                   </BarChart>
               </ResponsiveContainer>
            </div>
 
            {/* Status Donut */}
            <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 h-80 shadow-lg">
-              <h3 className="text-xs font-bold text-orange-500 mb-6 uppercase tracking-widest">Fulfillment Status</h3>
+              <h3 className="text-xs font-bold text-orange-500 mb-6 uppercase tracking-widest flex items-center gap-2">
+                Fulfillment Status
+                <DeltaBadge value={previousKpi && previousKpi.totalOrders > 0 ? kpi.completionRate - previousKpi.completionRate : null} unit="pts" />
+              </h3>
               <ResponsiveContainer width="100%" height="85%">
                 <PieChart>
                   <Pie data={statusData} cx="50%" cy="50%" innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="value" stroke="none">
@@ -244,6 +587,502 @@ const Dashboard: React.FC<DashboardProps> = ({ orders, user }) => {
            </div>
       </div>
 
+      {/* Weekly Rhythm (weekday × hour, kitchen load) */}
+      <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 shadow-lg space-y-6">
+        <div className="flex items-baseline justify-between">
+          <h3 className="text-xs font-bold text-orange-500 uppercase tracking-widest">Weekly Rhythm</h3>
+          <div className="flex gap-2">
+            {([['orders', 'Orders'], ['revenue', 'Revenue'], ['kpt', 'KPT']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setHeatmapMetric(key)}
+                className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider ${heatmapMetric === key ? 'bg-orange-600 text-white' : 'text-gray-500 bg-white/5 hover:text-[#fef3c7]'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="text-[10px] text-gray-400 border-separate border-spacing-0.5">
+            <thead>
+              <tr>
+                <th></th>
+                {heatmap.hours.map(hour => <th key={hour} className="font-normal text-gray-500 w-9">{hour}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {WEEKDAYS_MON_FIRST.map(weekday => (
+                <tr key={weekday}>
+                  <td className="pr-2 text-gray-500">{WEEKDAY_SHORT_LABELS[weekday]}</td>
+                  {heatmap.hours.map(hour => {
+                    const cell = rhythm.cells.find(c => c.weekday === weekday && c.hour === hour)!;
+                    const value = heatmap.valueOf(cell);
+                    const text = heatmapMetric === 'orders' ? value.toFixed(1) : heatmapMetric === 'revenue' ? `₹${Math.round(value)}` : cell.avgKpt !== null ? `${value.toFixed(0)}m` : '';
+                    return (
+                      <td
+                        key={hour}
+                        className="h-7 w-9 text-center rounded-sm text-[9px] text-[#fef3c7]"
+                        style={{ backgroundColor: `rgba(249, 115, 22, ${heatmap.max > 0 ? (value / heatmap.max) * 0.85 : 0})` }}
+                        title={`${WEEKDAY_SHORT_LABELS[weekday]} ${hour}:00 · ${cell.orders} orders (${cell.avgOrders.toFixed(1)}/day) · ₹${Math.round(cell.avgRevenue)}/day${cell.avgKpt !== null ? ` · KPT ${cell.avgKpt.toFixed(1)} min` : ''}`}
+                      >
+                        {value > 0 ? text : ''}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-gray-600 mt-2">
+            {heatmapMetric === 'kpt' ? 'Average KPT (minutes) of orders placed in each hour.' : `Average ${heatmapMetric === 'orders' ? 'orders' : 'order value'} per day of that weekday in range.`}
+          </p>
+        </div>
+
+        <div>
+          <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+            <p className="text-[10px] text-gray-500 uppercase tracking-widest">
+              Kitchen load · orders in preparation
+              {rhythm.peak && <span className="normal-case tracking-normal text-gray-600"> · peak {rhythm.peak.avgConcurrent.toFixed(1)} on {WEEKDAY_SHORT_LABELS[rhythm.peak.weekday]} around {rhythm.peak.label}</span>}
+              {rhythm.peak && previousSections?.rhythm.peak && (
+                <> <DeltaBadge value={percentChange(rhythm.peak.avgConcurrent, previousSections.rhythm.peak.avgConcurrent)} tone="neutral" /></>
+              )}
+            </p>
+            <div className="flex gap-1">
+              {WEEKDAYS_MON_FIRST.map(weekday => (
+                <button
+                  key={weekday}
+                  onClick={() => setLoadWeekday(weekday)}
+                  className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider ${loadCurve.weekday === weekday ? 'bg-orange-600 text-white' : 'text-gray-500 bg-white/5 hover:text-[#fef3c7]'}`}
+                >
+                  {WEEKDAY_SHORT_LABELS[weekday]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={loadCurve.data}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
+                <XAxis dataKey="time" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} interval={3} />
+                <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                <Tooltip contentStyle={{ backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' }} />
+                <Legend iconType="circle" wrapperStyle={{fontSize: '10px', color: '#a3a3a3'}} />
+                <Area type="monotone" dataKey="average" name="Average day" stroke="#f97316" fill="#f97316" fillOpacity={0.2} />
+                <Line type="monotone" dataKey="busiest" name="Busiest day" stroke="#fef3c7" strokeDasharray="4 4" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          {rhythm.assumedKptOrders > 0 && (
+            <p className="text-[10px] text-gray-600 mt-1">{rhythm.assumedKptOrders} orders without a KPT use the median prep time.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Kitchen Operations (only when the exports carry KPT data) */}
+      {kitchenOps.ordersWithKpt > 0 && (
+        <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 shadow-lg space-y-6">
+          <div className="flex items-baseline justify-between">
+            <h3 className="text-xs font-bold text-orange-500 uppercase tracking-widest">Kitchen Operations</h3>
+            <span className="text-[10px] text-gray-500 flex items-center gap-2">
+              {previousSections && previousSections.kitchenOps.kpt.count > 0 && (
+                <span>KPT median <DeltaBadge value={kitchenOps.kpt.p50 - previousSections.kitchenOps.kpt.p50} unit="min" tone="down-good" /></span>
+              )}
+              {kitchenOps.ordersWithKpt} orders with KPT
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {[
+              { label: 'KPT median', value: `${kitchenOps.kpt.p50.toFixed(1)} min`, sub: `p75 ${kitchenOps.kpt.p75.toFixed(1)} · p90 ${kitchenOps.kpt.p90.toFixed(1)}` },
+              { label: 'Rider wait median', value: `${kitchenOps.riderWait.p50.toFixed(1)} min`, sub: `p90 ${kitchenOps.riderWait.p90.toFixed(1)} min` },
+              { label: 'Marked ready early', value: `${kitchenOps.readyMarkedEarlyRate.toFixed(1)}%`, sub: `${kitchenOps.readyMarking.early} orders` },
+              { label: 'Ready marking missed', value: `${kitchenOps.readyMarkedLateRate.toFixed(1)}%`, sub: `${kitchenOps.readyMarking.missed} orders` },
+              {
+                label: 'KPT vs rating / cancel',
+                value: `${kitchenOps.kptRatingCorrelation?.toFixed(2) ?? '-'} / ${kitchenOps.kptCancellationCorrelation?.toFixed(2) ?? '-'}`,
+                sub: 'Correlation (r)',
+              },
+            ].map(stat => (
+              <div key={stat.label} className="bg-[#121212] p-4 rounded-lg border border-white/5">
+                <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">{stat.label}</p>
+                <p className="text-xl font-medium text-[#fef3c7] mt-1">{stat.value}</p>
+                <p className="text-[11px] text-gray-500 mt-0.5">{stat.sub}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="h-64">
+              <p className="text-[10px] text-gray-500 uppercase tracking-widest mb-2">KPT by hour (median / p90, min)</p>
+              <ResponsiveContainer width="100%" height="90%">
+                <BarChart data={kitchenOps.byHour.map(s => ({ hour: s.label, p50: +s.stats.p50.toFixed(1), p90: +s.stats.p90.toFixed(1) }))}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
+                  <XAxis dataKey="hour" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                  <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} contentStyle={{ backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' }} />
+                  <Bar dataKey="p50" name="Median" fill="#f97316" radius={[2, 2, 0, 0]} />
+                  <Bar dataKey="p90" name="p90" fill="#7c2d12" radius={[2, 2, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="h-64">
+              <p className="text-[10px] text-gray-500 uppercase tracking-widest mb-2">Rider wait at pickup</p>
+              <ResponsiveContainer width="100%" height="90%">
+                <BarChart data={kitchenOps.riderWaitDistribution}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
+                  <XAxis dataKey="label" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} allowDecimals={false} />
+                  <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} contentStyle={{ backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' }} />
+                  <Bar dataKey="count" name="Orders" fill="#fef3c7" radius={[2, 2, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <div className="flex gap-2 mb-2">
+                {([['byWeekday', 'Weekday'], ['byItem', 'Item'], ['byRestaurant', 'Restaurant']] as const).map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => setKptBreakdown(key)}
+                    className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider ${kptBreakdown === key ? 'bg-orange-600 text-white' : 'text-gray-500 bg-white/5 hover:text-[#fef3c7]'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <table className="w-full text-left text-xs text-gray-400">
+                <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+                  <tr>
+                    <th className="py-2">KPT by {kptBreakdown === 'byWeekday' ? 'weekday' : kptBreakdown === 'byItem' ? 'item' : 'restaurant'}</th>
+                    <th className="py-2 text-right">Orders</th>
+                    <th className="py-2 text-right">Median</th>
+                    <th className="py-2 text-right">p75</th>
+                    <th className="py-2 text-right">p90</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {kitchenOps[kptBreakdown].map(s => (
+                    <tr key={s.key}>
+                      <td className="py-1.5 text-[#fef3c7] truncate max-w-[200px]">{s.label}</td>
+                      <td className="py-1.5 text-right">{s.stats.count}</td>
+                      <td className="py-1.5 text-right">{s.stats.p50.toFixed(1)}</td>
+                      <td className="py-1.5 text-right">{s.stats.p75.toFixed(1)}</td>
+                      <td className="py-1.5 text-right">{s.stats.p90.toFixed(1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="space-y-4">
+              <table className="w-full text-left text-xs text-gray-400">
+                <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+                  <tr>
+                    <th className="py-2">KPT band</th>
+                    <th className="py-2 text-right">Orders</th>
+                    <th className="py-2 text-right">Avg rating</th>
+                    <th className="py-2 text-right">Cancelled</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {kitchenOps.kptBands.filter(b => b.orders > 0).map(b => (
+                    <tr key={b.label}>
+                      <td className="py-1.5 text-[#fef3c7]">{b.label}</td>
+                      <td className="py-1.5 text-right">{b.orders}</td>
+                      <td className="py-1.5 text-right">{b.avgRating ? b.avgRating.toFixed(2) : '-'}</td>
+                      <td className={`py-1.5 text-right ${b.cancellationRate > 0 ? 'text-red-400' : ''}`}>{b.cancellationRate.toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <table className="w-full text-left text-xs text-gray-400">
+                <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+                  <tr>
+                    <th className="py-2">Ready marked</th>
+                    <th className="py-2 text-right">Orders</th>
+                    <th className="py-2 text-right">Avg rating</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {(['correct', 'early', 'missed'] as ReadyMarking[]).map(marking => (
+                    <tr key={marking}>
+                      <td className="py-1.5 text-[#fef3c7]">{READY_MARKING_LABELS[marking]}</td>
+                      <td className="py-1.5 text-right">{kitchenOps.readyMarking[marking]}</td>
+                      <td className="py-1.5 text-right">{kitchenOps.avgRatingByMarking[marking] ? kitchenOps.avgRatingByMarking[marking].toFixed(2) : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Lost Orders (cancellations & rejections by reason) */}
+      {losses.failedOrders > 0 && (
+        <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 shadow-lg space-y-6">
+          <div className="flex items-baseline justify-between">
+            <h3 className="text-xs font-bold text-orange-500 uppercase tracking-widest">Lost Orders</h3>
+            <span className="text-[10px] text-gray-500 flex items-center gap-2">
+              {losses.failedOrders} cancelled or rejected
+              {previousSections && <DeltaBadge value={percentChange(losses.failedOrders, previousSections.losses.failedOrders)} tone="down-good" />}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: 'Order value lost', value: `₹${Math.round(losses.lostRevenue).toLocaleString()}`, color: 'text-[#fef3c7]' },
+              { label: 'Penalties paid', value: `₹${Math.round(losses.penaltiesPaid).toLocaleString()}`, color: 'text-red-400' },
+              { label: 'Compensation received', value: `₹${Math.round(losses.compensationReceived).toLocaleString()}`, color: 'text-emerald-400' },
+              { label: 'Kitchen-controllable loss', value: `₹${Math.round(losses.controllableLoss).toLocaleString()}`, color: 'text-orange-400' },
+            ].map(stat => (
+              <div key={stat.label} className="bg-[#121212] p-4 rounded-lg border border-white/5">
+                <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">{stat.label}</p>
+                <p className={`text-xl font-medium mt-1 ${stat.color}`}>{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <table className="w-full text-left text-xs text-gray-400">
+              <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+                <tr>
+                  <th className="py-2">Reason</th>
+                  <th className="py-2 text-right">Orders</th>
+                  <th className="py-2 text-right">Value lost</th>
+                  <th className="py-2 text-right">Net impact</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {losses.byReason.map(r => (
+                  <tr key={r.reason}>
+                    <td className="py-1.5 text-[#fef3c7]">
+                      {r.reason}
+                      {r.controllable && <span className="ml-2 text-[9px] uppercase tracking-wider text-orange-400 border border-orange-500/30 rounded px-1">Kitchen</span>}
+                    </td>
+                    <td className="py-1.5 text-right">{r.orders}</td>
+                    <td className="py-1.5 text-right">₹{Math.round(r.lostRevenue).toLocaleString()}</td>
+                    <td className={`py-1.5 text-right ${r.netImpact < 0 ? 'text-red-400' : r.netImpact > 0 ? 'text-emerald-400' : ''}`}>
+                      {r.netImpact < 0 ? '-' : ''}₹{Math.abs(Math.round(r.netImpact)).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="h-64">
+              <p className="text-[10px] text-gray-500 uppercase tracking-widest mb-2">Weekly trend by reason</p>
+              <ResponsiveContainer width="100%" height="90%">
+                <BarChart data={lossTrend.data}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
+                  <XAxis dataKey="week" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} allowDecimals={false} />
+                  <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} contentStyle={{ backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' }} />
+                  <Legend iconType="circle" wrapperStyle={{fontSize: '10px', color: '#a3a3a3'}} />
+                  {lossTrend.reasons.map((reason, i) => (
+                    <Bar key={reason} dataKey={reason} stackId="reasons" fill={REASON_COLORS[i]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delivery Area (subzones and distance bands) */}
+      {hasGeoData && (
+        <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 shadow-lg space-y-6">
+          <div className="flex items-baseline justify-between">
+            <h3 className="text-xs font-bold text-orange-500 uppercase tracking-widest">Delivery Area</h3>
+            <span className="text-[10px] text-gray-500">
+              {geo.avgDistanceKm !== null && `Avg distance ${geo.avgDistanceKm.toFixed(1)} km`}
+              {geo.avgDistanceKm !== null && previousSections?.geo.avgDistanceKm != null && (
+                <> <DeltaBadge value={geo.avgDistanceKm - previousSections.geo.avgDistanceKm} unit="km" tone="neutral" /></>
+              )}
+              {geo.unknownDistance > 0 && ` · ${geo.unknownDistance} orders without distance`}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="h-64">
+              <p className="text-[10px] text-gray-500 uppercase tracking-widest mb-2">Orders and cancellation rate by distance</p>
+              <ResponsiveContainer width="100%" height="90%">
+                <ComposedChart data={geo.byDistance.map(b => ({ band: b.label, orders: b.orders, cancellationRate: +b.cancellationRate.toFixed(1) }))}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
+                  <XAxis dataKey="band" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                  <YAxis yAxisId="orders" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} allowDecimals={false} />
+                  <YAxis yAxisId="rate" orientation="right" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(val) => `${val}%`} />
+                  <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} contentStyle={{ backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' }} />
+                  <Legend iconType="circle" wrapperStyle={{fontSize: '10px', color: '#a3a3a3'}} />
+                  <Bar yAxisId="orders" dataKey="orders" name="Orders" fill="#f97316" radius={[2, 2, 0, 0]} />
+                  <Line yAxisId="rate" type="monotone" dataKey="cancellationRate" name="Cancelled %" stroke="#ef4444" strokeWidth={2} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <table className="w-full text-left text-xs text-gray-400">
+              <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+                <tr>
+                  <th className="py-2">Distance</th>
+                  <th className="py-2 text-right">Orders</th>
+                  <th className="py-2 text-right">AOV</th>
+                  <th className="py-2 text-right">Net / order</th>
+                  <th className="py-2 text-right">Rider wait</th>
+                  <th className="py-2 text-right">Rating</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {geo.byDistance.filter(b => b.orders > 0).map(b => (
+                  <tr key={b.key}>
+                    <td className="py-1.5 text-[#fef3c7]">{b.label}</td>
+                    <td className="py-1.5 text-right">{b.orders} <span className="text-gray-600">({b.orderShare.toFixed(0)}%)</span></td>
+                    <td className="py-1.5 text-right">₹{b.avgOrderValue.toFixed(0)}</td>
+                    <td className="py-1.5 text-right text-teal-400">₹{b.avgNetPayout.toFixed(0)}</td>
+                    <td className="py-1.5 text-right">{b.avgRiderWait !== null ? `${b.avgRiderWait.toFixed(1)} min` : '-'}</td>
+                    <td className="py-1.5 text-right">{b.avgRating !== null ? b.avgRating.toFixed(2) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="overflow-auto max-h-[360px]">
+            <table className="w-full text-left text-xs text-gray-400">
+              <thead className="text-[10px] uppercase tracking-widest text-gray-500 sticky top-0 bg-[#1c1c1e]">
+                <tr>
+                  <th className="py-2">Subzone</th>
+                  <th className="py-2 text-right">Orders</th>
+                  <th className="py-2 text-right">Revenue</th>
+                  <th className="py-2 text-right">AOV</th>
+                  <th className="py-2 text-right">Cancelled</th>
+                  <th className="py-2 text-right">Rider wait</th>
+                  <th className="py-2 text-right">Rating</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {geo.bySubzone.map(z => (
+                  <tr key={z.key}>
+                    <td className="py-1.5 text-[#fef3c7]">{z.label}</td>
+                    <td className="py-1.5 text-right">{z.orders} <span className="text-gray-600">({z.orderShare.toFixed(0)}%)</span></td>
+                    <td className="py-1.5 text-right text-emerald-400">₹{Math.round(z.revenue).toLocaleString()}</td>
+                    <td className="py-1.5 text-right">₹{z.avgOrderValue.toFixed(0)}</td>
+                    <td className={`py-1.5 text-right ${z.cancellationRate > kpi.cancellationRate ? 'text-red-400' : ''}`}>{z.cancellationRate.toFixed(1)}%</td>
+                    <td className="py-1.5 text-right">{z.avgRiderWait !== null ? `${z.avgRiderWait.toFixed(1)} min` : '-'}</td>
+                    <td className="py-1.5 text-right">{z.avgRating !== null ? z.avgRating.toFixed(2) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Demand Forecast (needs at least a week of history) */}
+      {forecast.daily.history.length >= 7 && (
+        <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 shadow-lg space-y-6">
+          <div className="flex items-baseline justify-between">
+            <h3 className="text-xs font-bold text-orange-500 uppercase tracking-widest">
+              Demand Forecast
+              {dateRange !== 'all' && <span className="normal-case tracking-normal font-normal text-gray-600"> · from the full history</span>}
+            </h3>
+            <div className="flex gap-2">
+              {([7, 14] as const).map(days => (
+                <button
+                  key={days}
+                  onClick={() => setForecastHorizon(days)}
+                  className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider ${forecastHorizon === days ? 'bg-orange-600 text-white' : 'text-gray-500 bg-white/5 hover:text-[#fef3c7]'}`}
+                >
+                  {days} days
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              {
+                label: `Orders, next ${forecast.horizon} days`,
+                value: Math.round(forecastTotal.total).toLocaleString(),
+                sub: `95% range ${Math.round(forecastTotal.lower)}-${Math.round(forecastTotal.upper)}`,
+              },
+              { label: 'Model', value: FORECAST_MODEL_LABELS[forecast.daily.model], sub: 'Best backtest score' },
+              {
+                label: 'Backtest MAPE',
+                value: forecast.daily.mape !== null ? `${forecast.daily.mape.toFixed(0)}%` : '-',
+                sub: (Object.entries(forecast.daily.modelMapes) as Array<[ForecastModel, number]>)
+                  .filter(([model]) => model !== forecast.daily.model)
+                  .map(([model, score]) => `${FORECAST_MODEL_LABELS[model]} ${score.toFixed(0)}%`)
+                  .join(' · ') || `Last ${forecast.daily.backtest.length} days held out`,
+              },
+              {
+                label: 'Busiest hour',
+                value: `${forecastPeakHour.hour}:00`,
+                sub: `~${(forecastPeakHour.orders / forecast.horizon).toFixed(1)} orders a day`,
+              },
+            ].map(stat => (
+              <div key={stat.label} className="bg-[#121212] p-4 rounded-lg border border-white/5">
+                <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">{stat.label}</p>
+                <p className="text-xl font-medium text-[#fef3c7] mt-1">{stat.value}</p>
+                <p className="text-[11px] text-gray-500 mt-0.5">{stat.sub}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-72">
+            <p className="text-[10px] text-gray-500 uppercase tracking-widest mb-2">Daily orders: actual, backtest and forecast</p>
+            <ResponsiveContainer width="100%" height="90%">
+              <ComposedChart data={forecastChart}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
+                <XAxis dataKey="date" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} allowDecimals={false} />
+                <Tooltip contentStyle={{ backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' }} />
+                <Legend iconType="circle" wrapperStyle={{fontSize: '10px', color: '#a3a3a3'}} />
+                <Area type="monotone" dataKey="range" name="95% range" stroke="none" fill="#f97316" fillOpacity={0.15} />
+                <Line type="monotone" dataKey="actual" name="Actual" stroke="#fef3c7" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="backtest" name="Backtest" stroke="#64748b" strokeDasharray="4 4" dot={false} />
+                <Line type="monotone" dataKey="forecast" name="Forecast" stroke="#f97316" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="h-64">
+              <p className="text-[10px] text-gray-500 uppercase tracking-widest mb-2">Expected orders by hour (next {forecast.horizon} days)</p>
+              <ResponsiveContainer width="100%" height="90%">
+                <BarChart data={forecast.byHour.map(h => ({ hour: `${h.hour}:00`, orders: +h.orders.toFixed(1) }))}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
+                  <XAxis dataKey="hour" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                  <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} contentStyle={{ backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' }} />
+                  <Bar dataKey="orders" name="Orders" fill="#f97316" radius={[2, 2, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <table className="w-full text-left text-xs text-gray-400">
+              <thead className="text-[10px] uppercase tracking-widest text-gray-500">
+                <tr>
+                  <th className="py-2">Item</th>
+                  <th className="py-2 text-right">Forecast qty</th>
+                  <th className="py-2 text-right">95% range</th>
+                  <th className="py-2 text-right">MAPE</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {forecast.byItem.map(item => (
+                  <tr key={item.item}>
+                    <td className="py-1.5 text-[#fef3c7] truncate max-w-[200px]" title={FORECAST_MODEL_LABELS[item.model]}>{item.item}</td>
+                    <td className="py-1.5 text-right">{Math.round(item.total)}</td>
+                    <td className="py-1.5 text-right">{Math.round(item.lower)}-{Math.round(item.upper)}</td>
+                    <td className="py-1.5 text-right">{item.mape !== null ? `${item.mape.toFixed(0)}%` : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
     </div>
   );
 };
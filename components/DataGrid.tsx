@@ -1,12 +1,21 @@
 
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { isDelivered } from '../services/orderStatusService';
+import { REVIEW_SENTIMENT_COLORS, analyzeReviewText } from '../services/reviewAnalyticsService';
 import { ZomatoOrder } from '../types';
 
 interface DataGridProps {
   orders: ZomatoOrder[];
+  focusOrderId?: string | null; // Scrolled into view and highlighted (e.g. from a review)
 }
 
-const DataGrid: React.FC<DataGridProps> = ({ orders }) => {
+const DataGrid: React.FC<DataGridProps> = ({ orders, focusOrderId }) => {
+  const focusRow = useRef<HTMLTableRowElement>(null);
+
+  useEffect(() => {
+    focusRow.current?.scrollIntoView({ block: 'center' });
+  }, [focusOrderId]);
+
   if (orders.length === 0) return <div className="text-center text-slate-500 py-10">No data loaded.</div>;
 
   return (
@@ -27,17 +36,22 @@ const DataGrid: React.FC<DataGridProps> = ({ orders }) => {
               <th className="px-4 py-3">Status</th>
               <th className="px-4 py-3 text-right">Amount</th>
               <th className="px-4 py-3 text-center">Rating</th>
+              <th className="px-4 py-3">Review</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-700">
             {orders.map((order, idx) => (
-              <tr key={idx} className="hover:bg-slate-700/50 transition-colors">
+              <tr
+                key={idx}
+                ref={order.orderId === focusOrderId ? focusRow : undefined}
+                className={`transition-colors ${order.orderId === focusOrderId ? 'bg-orange-900/30 ring-1 ring-inset ring-orange-500/60' : 'hover:bg-slate-700/50'}`}
+              >
                 <td className="px-4 py-2 font-mono text-slate-300">{order.orderId}</td>
                 <td className="px-4 py-2">{new Date(order.orderPlacedAt).toLocaleDateString()} {new Date(order.orderPlacedAt).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}</td>
                 <td className="px-4 py-2 text-white">{order.restaurantName}</td>
                 <td className="px-4 py-2">
                     <span className={`px-2 py-0.5 rounded-full text-[10px] uppercase font-bold ${
-                        order.orderStatus.toLowerCase().includes('delivered') ? 'bg-emerald-900/50 text-emerald-400' : 'bg-red-900/50 text-red-400'
+                        isDelivered(order) ? 'bg-emerald-900/50 text-emerald-400' : 'bg-red-900/50 text-red-400'
                     }`}>
                         {order.orderStatus}
                     </span>
@@ -50,6 +64,19 @@ const DataGrid: React.FC<DataGridProps> = ({ orders }) => {
                         </span>
                     ) : '-'}
                 </td>
+                <td className="px-4 py-2 max-w-xs">
+                    {order.review ? (
+                        <span
+                          className={`block ${order.orderId === focusOrderId ? 'whitespace-normal' : 'truncate'}`}
+                          title={order.review}
+                          style={{ color: REVIEW_SENTIMENT_COLORS[analyzeReviewText(order.review).sentiment] }}
+                        >
+                            {order.review}
+                        </span>
+                    ) : order.customerComplaintTag ? (
+                        <span className="text-red-400/80">{order.customerComplaintTag}</span>
+                    ) : '-'}
+                </td>
               </tr>
             ))}
           </tbody>
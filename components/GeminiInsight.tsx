@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { ZomatoOrder, InsightResponse } from '../types';
 import { analyzeKitchenData, getInsightsGeminiCooldownRemainingMs } from '../services/geminiService';
 import { askAI, getQaGeminiCooldownRemainingMs } from '../services/qaService';
+import { goalService } from '../services/goalService';
 import { supabaseService } from '../services/supabaseService';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 
@@ -9,6 +10,7 @@ interface GeminiInsightProps {
   orders: ZomatoOrder[];
   userName: string;
   userId?: string;
+  accountId: string; // Per-account goals (user id, or email for local accounts)
 }
 
 interface ChatMessage {
@@ -17,7 +19,7 @@ interface ChatMessage {
   timestamp: number;
 }
 
-const GeminiInsight: React.FC<GeminiInsightProps> = ({ orders, userName, userId }) => {
+const GeminiInsight: React.FC<GeminiInsightProps> = ({ orders, userName, userId, accountId }) => {
   const [insight, setInsight] = useState<InsightResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
@@ -80,7 +82,7 @@ const GeminiInsight: React.FC<GeminiInsightProps> = ({ orders, userName, userId
     try {
       const sourceOrders = await loadOrdersForAi();
       if (sourceOrders.length === 0) throw new Error('No orders found in database for analysis.');
-      const result = await analyzeKitchenData(sourceOrders, userName);
+      const result = await analyzeKitchenData(sourceOrders, userName, goalService.list(accountId));
       setInsight(result);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Insight generation failed';
@@ -102,7 +104,7 @@ const GeminiInsight: React.FC<GeminiInsightProps> = ({ orders, userName, userId
     try {
       const sourceOrders = await loadOrdersForAi();
       if (sourceOrders.length === 0) throw new Error('No orders found in database for Q&A.');
-      const aiResponse = await askAI(userMessage, sourceOrders, userName);
+      const aiResponse = await askAI(userMessage, sourceOrders, userName, goalService.list(accountId));
       setChatMessages(prev => [...prev, { role: 'ai', content: aiResponse, timestamp: Date.now() }]);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Failed to get AI response';
@@ -121,15 +123,21 @@ const GeminiInsight: React.FC<GeminiInsightProps> = ({ orders, userName, userId
     ? {
         grossRevenue: normalizeMoney(insight.profitabilityAnalysis?.grossRevenue),
         zomatoCommission: normalizeMoney(insight.profitabilityAnalysis?.zomatoCommission),
+        otherDeductions: normalizeMoney(insight.profitabilityAnalysis?.gatewayFees)
+          + normalizeMoney(insight.profitabilityAnalysis?.fixedFees)
+          + normalizeMoney(insight.profitabilityAnalysis?.penalties),
+        restaurantDiscounts: normalizeMoney(insight.profitabilityAnalysis?.restaurantDiscounts),
         estimatedNet: normalizeMoney(insight.profitabilityAnalysis?.estimatedNet),
         analysis: insight.profitabilityAnalysis?.analysis || 'No profitability analysis available.',
       }
     : null;
 
   const profitData = profitability ? [
-    { name: 'Net Revenue', value: profitability.estimatedNet, color: '#10b981' },
-    { name: 'Zomato Cut (35%)', value: profitability.zomatoCommission, color: '#f97316' },
-  ] : [];
+    { name: 'Net Payout', value: profitability.estimatedNet, color: '#10b981' },
+    { name: 'Commission + GST', value: profitability.zomatoCommission, color: '#f97316' },
+    { name: 'Fees & Penalties', value: profitability.otherDeductions, color: '#ef4444' },
+    { name: 'Restaurant Discounts', value: profitability.restaurantDiscounts, color: '#eab308' },
+  ].filter(entry => entry.value > 0) : [];
 
   return (
     <div className="bg-[#1c1c1e] p-8 rounded-xl border border-white/5 shadow-2xl min-h-[600px] flex flex-col">
@@ -211,11 +219,23 @@ const GeminiInsight: React.FC<GeminiInsightProps> = ({ orders, userName, userId
                   </div>
                   <div className="space-y-3 mt-4">
                       <div className="flex justify-between text-sm">
-                          <span className="text-gray-400">Zomato Cut (35%)</span>
+                          <span className="text-gray-400">Commission + GST</span>
                           <span className="text-orange-400 font-mono">-₹{profitability?.zomatoCommission.toLocaleString()}</span>
                       </div>
+                      {!!profitability?.otherDeductions && (
+                        <div className="flex justify-between text-sm">
+                            <span className="text-gray-400">Gateway, fees & penalties</span>
+                            <span className="text-red-400 font-mono">-₹{profitability.otherDeductions.toLocaleString()}</span>
+                        </div>
+                      )}
+                      {!!profitability?.restaurantDiscounts && (
+                        <div className="flex justify-between text-sm">
+                            <span className="text-gray-400">Restaurant-funded discounts</span>
+                            <span className="text-yellow-400 font-mono">-₹{profitability.restaurantDiscounts.toLocaleString()}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between text-sm pt-2 border-t border-white/10">
-                          <span className="text-emerald-400 font-medium">Est. Net Revenue</span>
+                          <span className="text-emerald-400 font-medium">Net Payout</span>
                           <span className="text-emerald-400 font-bold font-mono">₹{profitability?.estimatedNet.toLocaleString()}</span>
                       </div>
                   </div>
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { formatBusinessDate } from '../services/kitchenTimeService';
+import {
+  GOAL_METRICS, GOAL_PERIOD_LABELS, GOAL_STATUS_COLORS, GOAL_STATUS_LABELS, Goal, GoalMetric, GoalPeriod, GoalProgress,
+  describeGoal, formatGoalValue
+} from '../services/goalService';
+
+interface GoalsPanelProps {
+  progress: GoalProgress[];
+  restaurants: string[];
+  onAdd: (goal: Omit<Goal, 'id' | 'createdAt'>) => void;
+  onRemove: (goalId: string) => void;
+}
+
+const inputClass = 'bg-[#0b1220] border border-white/10 rounded px-2 py-1 text-xs text-gray-300';
+
+const GoalsPanel: React.FC<GoalsPanelProps> = ({ progress, restaurants, onAdd, onRemove }) => {
+  const [editing, setEditing] = useState(false);
+  const [metric, setMetric] = useState<GoalMetric>('orders');
+  const [period, setPeriod] = useState<GoalPeriod>('month');
+  const [restaurant, setRestaurant] = useState('');
+  const [target, setTarget] = useState('');
+
+  const submit = () => {
+    const value = parseFloat(target);
+    if (!Number.isFinite(value) || value < 0) return;
+    onAdd({ metric, period, target: value, restaurant: restaurant || undefined });
+    setTarget('');
+    setEditing(false);
+  };
+
+  return (
+    <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 shadow-lg space-y-4">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-xs font-bold text-orange-500 uppercase tracking-widest">Goals</h3>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] text-gray-500">Current week / month, projected from the run rate</span>
+          <button onClick={() => setEditing(!editing)} className="text-[10px] text-gray-400 hover:text-[#fef3c7] underline">
+            {editing ? 'Cancel' : 'Add goal'}
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="flex flex-wrap items-center gap-2 bg-[#121212] rounded-lg border border-white/5 p-3">
+          <select value={metric} onChange={e => setMetric(e.target.value as GoalMetric)} className={inputClass}>
+            {(Object.keys(GOAL_METRICS) as GoalMetric[]).map(m => <option key={m} value={m}>{GOAL_METRICS[m].label}</option>)}
+          </select>
+          <select value={period} onChange={e => setPeriod(e.target.value as GoalPeriod)} className={inputClass}>
+            <option value="month">Monthly</option>
+            <option value="week">Weekly</option>
+          </select>
+          {restaurants.length > 1 && (
+            <select value={restaurant} onChange={e => setRestaurant(e.target.value)} className={inputClass}>
+              <option value="">All restaurants</option>
+              {restaurants.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          )}
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={target}
+            onChange={e => setTarget(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && submit()}
+            placeholder={`Target (${GOAL_METRICS[metric].unit})`}
+            className={`${inputClass} w-32`}
+          />
+          <span className="text-[10px] text-gray-500">{GOAL_METRICS[metric].higherIsBetter ? 'at least' : 'at most'}</span>
+          <button onClick={submit} className="px-3 py-1 rounded text-xs font-bold uppercase tracking-wider bg-orange-600 text-white">
+            Save
+          </button>
+        </div>
+      )}
+
+      {progress.length === 0 ? (
+        <p className="text-xs text-gray-500">No goals yet. Set weekly or monthly targets for revenue, orders, rating, cancellation rate or KPT.</p>
+      ) : (
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {progress.map(p => {
+            const { goal } = p;
+            const color = GOAL_STATUS_COLORS[p.status];
+            const cumulative = GOAL_METRICS[goal.metric].cumulative;
+            const elapsedShare = Math.min(100, (p.daysElapsed / p.daysTotal) * 100);
+            return (
+              <li key={goal.id} className="bg-[#121212] rounded-lg border border-white/5 p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-xs text-[#fef3c7] truncate">{describeGoal(goal)}</p>
+                    <p className="text-[10px] text-gray-500">
+                      {GOAL_PERIOD_LABELS[goal.period]} · {formatBusinessDate(p.periodStart)} – {formatBusinessDate(p.periodEnd)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span
+                      className="text-[9px] font-bold uppercase tracking-wider rounded px-1.5 py-0.5 border"
+                      style={{ color, borderColor: `${color}55` }}
+                    >
+                      {GOAL_STATUS_LABELS[p.status]}
+                    </span>
+                    <button onClick={() => onRemove(goal.id)} className="text-gray-600 hover:text-red-400 text-xs" title="Remove goal">✕</button>
+                  </div>
+                </div>
+
+                <div className="relative h-2 rounded bg-white/5 overflow-hidden">
+                  {cumulative && p.projected !== null && (
+                    <div className="absolute inset-y-0 left-0 rounded opacity-30" style={{ width: `${Math.min(100, p.projectedAttainment)}%`, backgroundColor: color }} />
+                  )}
+                  <div className="absolute inset-y-0 left-0 rounded" style={{ width: `${Math.min(100, p.attainment)}%`, backgroundColor: color }} />
+                  {cumulative && <div className="absolute inset-y-0 w-px bg-gray-400" style={{ left: `${elapsedShare}%` }} title="Share of the period elapsed" />}
+                </div>
+
+                <p className="text-[11px] text-gray-400">
+                  {formatGoalValue(goal.metric, p.actual)} of {formatGoalValue(goal.metric, goal.target)}
+                  {cumulative && p.projected !== null && ` · projected ${formatGoalValue(goal.metric, p.projected)} (${p.projectedAttainment.toFixed(0)}%)`}
+                  {!cumulative && p.actual !== null && ` · ${GOAL_METRICS[goal.metric].higherIsBetter ? 'at least' : 'at most'} ${formatGoalValue(goal.metric, goal.target)}`}
+                  {p.previous.met !== null && (
+                    <span className="text-gray-600"> · last {goal.period}: {formatGoalValue(goal.metric, p.previous.actual)} {p.previous.met ? '✓' : '✗'}</span>
+                  )}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GoalsPanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ImportBatch } from '../services/importHistoryService';
+
+interface ImportHistoryProps {
+  batches: ImportBatch[];
+  onRollback: (batch: ImportBatch) => void;
+}
+
+const MAX_LISTED_IDS = 50;
+
+const IdList: React.FC<{ label: string; ids: string[] }> = ({ label, ids }) => (
+  <div>
+    <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-1">{label} ({ids.length})</p>
+    {ids.length === 0 ? (
+      <p className="text-[11px] text-gray-600">None</p>
+    ) : (
+      <p className="text-[11px] font-mono text-gray-400 break-all">
+        {ids.slice(0, MAX_LISTED_IDS).join(', ')}
+        {ids.length > MAX_LISTED_IDS && <span className="text-gray-600"> … {ids.length - MAX_LISTED_IDS} more</span>}
+      </p>
+    )}
+  </div>
+);
+
+const ImportHistory: React.FC<ImportHistoryProps> = ({ batches, onRollback }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (batches.length === 0) {
+    return <div className="text-center text-gray-500 text-sm py-10">No imports recorded yet. Uploads appear here once saved.</div>;
+  }
+
+  return (
+    <div className="bg-[#1c1c1e] rounded-lg border border-white/5 overflow-hidden">
+      <div className="p-4 border-b border-white/5 flex justify-between items-center">
+        <h3 className="text-sm font-bold text-[#fef3c7]">Import History</h3>
+        <p className="text-[11px] text-gray-500">Rolling back deletes the orders a batch inserted and restores the ones it overwrote.</p>
+      </div>
+      <table className="w-full text-left text-xs text-gray-400">
+        <thead className="text-[10px] uppercase bg-[#121212] text-gray-500">
+          <tr>
+            <th className="px-4 py-3">Imported</th>
+            <th className="px-4 py-3">Files</th>
+            <th className="px-4 py-3 text-right">Rows</th>
+            <th className="px-4 py-3 text-right">Rejected</th>
+            <th className="px-4 py-3 text-right">Inserted</th>
+            <th className="px-4 py-3 text-right">Updated</th>
+            <th className="px-4 py-3">Status</th>
+            <th className="px-4 py-3"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5">
+          {batches.map(batch => (
+            <React.Fragment key={batch.id}>
+              <tr
+                className="hover:bg-white/5 cursor-pointer"
+                onClick={() => setExpandedId(expandedId === batch.id ? null : batch.id)}
+              >
+                <td className="px-4 py-2 whitespace-nowrap">{new Date(batch.importedAt).toLocaleString()}</td>
+                <td className="px-4 py-2 text-[#fef3c7] truncate max-w-[260px]">
+                  <span className="text-[10px] uppercase text-gray-500 mr-2">{batch.kind}</span>
+                  {batch.fileNames.join(', ')}
+                </td>
+                <td className="px-4 py-2 text-right">{batch.rowsRead}</td>
+                <td className={`px-4 py-2 text-right ${batch.rowsRejected > 0 ? 'text-red-400' : ''}`}>{batch.rowsRejected}</td>
+                <td className="px-4 py-2 text-right text-emerald-400">{batch.insertedIds.length}</td>
+                <td className="px-4 py-2 text-right text-yellow-400">{batch.updatedIds.length}</td>
+                <td className="px-4 py-2">
+                  {batch.rolledBackAt ? (
+                    <span className="text-gray-500">Rolled back {new Date(batch.rolledBackAt).toLocaleDateString()}</span>
+                  ) : batch.snapshotDropped ? (
+                    <span className="text-yellow-400" title="Overwritten orders were not kept (storage limit)">Active · no rollback</span>
+                  ) : (
+                    <span className="text-emerald-400">Active</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  {!batch.rolledBackAt && !batch.snapshotDropped && (
+                    <button
+                      onClick={e => {
+                        e.stopPropagation();
+                        onRollback(batch);
+                      }}
+                      className="text-[10px] text-red-400 hover:text-red-300 uppercase tracking-wider"
+                    >
+                      Roll back
+                    </button>
+                  )}
+                </td>
+              </tr>
+              {expandedId === batch.id && (
+                <tr className="bg-[#121212]">
+                  <td colSpan={8} className="px-4 py-3 space-y-3">
+                    <IdList label="Inserted order ids" ids={batch.insertedIds} />
+                    <IdList label="Updated order ids" ids={batch.updatedIds} />
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ImportHistory;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { ParseResult, issuesToCsv } from '../services/csvService';
+
+interface ImportReportProps {
+  fileName: string;
+  result: ParseResult;
+  summary: string; // Outcome of the save step, e.g. "12 new, 3 existing updated"
+  failed?: boolean;
+  onClose: () => void;
+}
+
+const MAX_VISIBLE_ISSUES = 200;
+
+const ImportReport: React.FC<ImportReportProps> = ({ fileName, result, summary, failed, onClose }) => {
+  const [filter, setFilter] = useState<'all' | 'error' | 'warning'>('all');
+
+  const errorCount = result.issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = result.issues.length - errorCount;
+  const showFile = result.issues.some(issue => issue.file);
+  const visible = result.issues.filter(issue => filter === 'all' || issue.severity === filter);
+
+  const handleDownload = () => {
+    const blob = new Blob([issuesToCsv(result.issues)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName.replace(/\.csv$/i, '') || 'import'}_issues.csv`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-60 flex items-center justify-center bg-black/60">
+      <div className="w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col bg-[#1c1c1e] border border-white/5 rounded-lg p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-bold text-[#fef3c7]">Import Report</h3>
+            <p className="text-[11px] text-gray-500 mt-1">{fileName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">Close</button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {[
+            { label: 'Rows read', value: result.totalRows, color: 'text-[#fef3c7]' },
+            { label: 'Accepted', value: result.orders.length, color: 'text-emerald-400' },
+            { label: 'Rejected', value: result.rejectedRows, color: 'text-red-400' },
+            { label: 'Warnings', value: warningCount, color: 'text-yellow-400' },
+          ].map(stat => (
+            <div key={stat.label} className="bg-[#121212] p-3 rounded border border-white/5">
+              <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">{stat.label}</p>
+              <p className={`text-xl font-medium mt-1 ${stat.color}`}>{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <p className={`text-xs px-3 py-2 rounded border ${failed ? 'bg-red-900/20 border-red-500/30 text-red-200' : 'bg-emerald-900/20 border-emerald-500/30 text-emerald-200'}`}>
+          {summary}
+        </p>
+
+        {result.issues.length > 0 ? (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="flex gap-2">
+                {(['all', 'error', 'warning'] as const).map(key => (
+                  <button
+                    key={key}
+                    onClick={() => setFilter(key)}
+                    className={`px-3 py-1 rounded text-[10px] font-bold uppercase tracking-wider ${filter === key ? 'bg-orange-600 text-white' : 'text-gray-500 bg-white/5 hover:bg-white/10'}`}
+                  >
+                    {key === 'all' ? `All (${result.issues.length})` : key === 'error' ? `Errors (${errorCount})` : `Warnings (${warningCount})`}
+                  </button>
+                ))}
+              </div>
+              <button onClick={handleDownload} className="text-[10px] text-gray-300 hover:text-gray-100 uppercase tracking-wider">
+                Download issues CSV
+              </button>
+            </div>
+
+            <div className="overflow-auto flex-1 border border-white/5 rounded">
+              <table className="w-full text-left text-xs text-gray-400">
+                <thead className="text-[10px] uppercase bg-[#121212] text-gray-500 sticky top-0">
+                  <tr>
+                    {showFile && <th className="px-3 py-2">File</th>}
+                    <th className="px-3 py-2">Line</th>
+                    <th className="px-3 py-2">Severity</th>
+                    <th className="px-3 py-2">Column</th>
+                    <th className="px-3 py-2">Raw value</th>
+                    <th className="px-3 py-2">Reason</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {visible.slice(0, MAX_VISIBLE_ISSUES).map((issue, idx) => (
+                    <tr key={idx}>
+                      {showFile && <td className="px-3 py-1.5 truncate max-w-[160px]">{issue.file}</td>}
+                      <td className="px-3 py-1.5 font-mono">{issue.line}</td>
+                      <td className={`px-3 py-1.5 uppercase text-[10px] font-bold ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+                        {issue.severity}
+                      </td>
+                      <td className="px-3 py-1.5 text-[#fef3c7]">{issue.column}</td>
+                      <td className="px-3 py-1.5 font-mono truncate max-w-[180px]">{issue.rawValue || '(empty)'}</td>
+                      <td className="px-3 py-1.5">{issue.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {visible.length > MAX_VISIBLE_ISSUES && (
+                <p className="text-[11px] text-gray-500 px-3 py-2">
+                  Showing {MAX_VISIBLE_ISSUES} of {visible.length}. Download the CSV for the full list.
+                </p>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-gray-500">No row-level issues. Every row was imported as-is.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportReport;
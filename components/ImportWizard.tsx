@@ -0,0 +1,257 @@
+import React, { useMemo, useState } from 'react';
+import { OrderSource } from '../types';
+import {
+  CsvTable,
+  ParseResult,
+  mapCsvTable,
+  mapRowsToOrders,
+  resolveImportMapping,
+} from '../services/csvService';
+import {
+  ColumnMapping,
+  IMPORT_ADAPTERS,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  ImportField,
+  REQUIRED_IMPORT_FIELDS,
+  getAdapter,
+  resolveColumns,
+} from '../services/importAdapters';
+import { importMappingService } from '../services/importMappingService';
+
+interface ImportWizardProps {
+  fileName: string;
+  table: CsvTable;
+  remaining?: number; // Further file groups (different header layouts) queued after this one
+  busy?: boolean; // Another upload is still saving
+  onConfirm: (result: ParseResult) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+const VALIDATION_SAMPLE_ROWS = 500; // Rows validated live; the full table is mapped in the worker on import
+const CORE_FIELD_COUNT = 9; // orderId … city; the rest are extended export columns
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ fileName, table, remaining = 0, busy = false, onConfirm, onCancel }) => {
+  const initial = useMemo(() => resolveImportMapping(table.headers), [table]);
+  const [source, setSource] = useState<OrderSource>(initial.adapter.source);
+  const [mapping, setMapping] = useState<ColumnMapping>(initial.mapping);
+  const [remember, setRemember] = useState(true);
+  const [showAllFields, setShowAllFields] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const adapter = getAdapter(source);
+
+  const handleSourceChange = (next: OrderSource) => {
+    setSource(next);
+    setMapping(resolveColumns(getAdapter(next), table.headers));
+  };
+
+  const handleFieldChange = (field: ImportField, idx: number) => {
+    setMapping(prev => ({ ...prev, [field]: idx }));
+  };
+
+  // Validate a sample with the current mapping; errors reject the row, warnings keep it
+  const sample = useMemo<CsvTable>(() => table.rows.length <= VALIDATION_SAMPLE_ROWS ? table : {
+    ...table,
+    rows: table.rows.slice(0, VALIDATION_SAMPLE_ROWS),
+    lines: table.lines.slice(0, VALIDATION_SAMPLE_ROWS),
+  }, [table]);
+  const sampled = sample !== table;
+  const result = useMemo(() => mapRowsToOrders(sample, adapter, mapping), [sample, adapter, mapping]);
+  const warningCount = result.issues.filter(issue => issue.severity === 'warning').length;
+
+  const preview = useMemo(() => {
+    return table.rows.slice(0, PREVIEW_ROWS).map((row, idx) => {
+      const rowResult = mapRowsToOrders({ headers: table.headers, rows: [row], lines: [table.lines[idx]] }, adapter, mapping);
+      const errors = rowResult.issues.filter(issue => issue.severity === 'error');
+      return {
+        order: rowResult.orders[0],
+        errors,
+        badDate: errors.some(issue => /date/i.test(issue.reason)),
+        badAmount: errors.some(issue => /amount/i.test(issue.reason)),
+      };
+    });
+  }, [table, adapter, mapping]);
+
+  const missingRequired = REQUIRED_IMPORT_FIELDS.filter(field => (mapping[field] ?? -1) === -1);
+  const mappedHeaderIdx = new Set(Object.values(mapping).filter(idx => idx !== -1));
+  const visibleFields = showAllFields ? IMPORT_FIELDS : IMPORT_FIELDS.slice(0, CORE_FIELD_COUNT);
+
+  const handleConfirm = async () => {
+    if (remember) {
+      importMappingService.save(table.headers, source, mapping);
+    }
+    setImporting(true);
+    setImportError(null);
+    try {
+      onConfirm(await mapCsvTable(table, source, mapping));
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-60 flex items-center justify-center bg-black/60">
+      <div className="w-full max-w-5xl mx-4 max-h-[90vh] overflow-auto bg-[#1c1c1e] border border-white/5 rounded-lg p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-bold text-[#fef3c7]">Import Wizard</h3>
+            <p className="text-[11px] text-gray-500 mt-1">
+              {fileName} · {table.files ? `${table.files.length} files · ` : ''}{table.rows.length} rows · {table.headers.length} columns
+              {remaining > 0 && <span> · {remaining} more layout{remaining > 1 ? 's' : ''} queued</span>}
+              {initial.saved && <span className="text-emerald-400"> · using saved mapping</span>}
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-white text-sm">Close</button>
+        </div>
+
+        {/* Source + detected headers */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <label className="text-xs text-gray-400">Source</label>
+            <select
+              value={source}
+              onChange={e => handleSourceChange(e.target.value as OrderSource)}
+              className="bg-[#121212] border border-white/10 rounded px-3 py-1.5 text-sm text-[#fef3c7]"
+            >
+              {IMPORT_ADAPTERS.map(a => (
+                <option key={a.source} value={a.source}>{a.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Detected headers</p>
+            <div className="flex flex-wrap gap-1.5">
+              {table.headers.map((header, idx) => (
+                <span
+                  key={idx}
+                  className={`px-2 py-0.5 rounded text-[10px] border ${
+                    mappedHeaderIdx.has(idx)
+                      ? 'border-emerald-500/30 text-emerald-300 bg-emerald-900/20'
+                      : 'border-white/10 text-gray-500'
+                  }`}
+                >
+                  {header || `(column ${idx + 1})`}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Column mapping */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-orange-500">Column mapping</p>
+            <button onClick={() => setShowAllFields(v => !v)} className="text-[10px] text-gray-400 hover:text-gray-200 uppercase tracking-wider">
+              {showAllFields ? 'Core fields only' : `Show all ${IMPORT_FIELDS.length} fields`}
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+            {visibleFields.map(field => (
+              <div key={field} className="flex items-center justify-between gap-3">
+                <label className="text-xs text-gray-400">
+                  {IMPORT_FIELD_LABELS[field]}
+                  {REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-400"> *</span>}
+                </label>
+                <select
+                  value={mapping[field] ?? -1}
+                  onChange={e => handleFieldChange(field, Number(e.target.value))}
+                  className={`w-56 bg-[#121212] border rounded px-2 py-1 text-xs ${
+                    (mapping[field] ?? -1) === -1 ? 'border-white/5 text-gray-600' : 'border-white/10 text-[#fef3c7]'
+                  }`}
+                >
+                  <option value={-1}>— not mapped —</option>
+                  {table.headers.map((header, idx) => (
+                    <option key={idx} value={idx}>{header || `(column ${idx + 1})`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-orange-500 mb-2">
+            Preview (first {Math.min(PREVIEW_ROWS, table.rows.length)} rows)
+          </p>
+          <div className="overflow-auto border border-white/5 rounded">
+            <table className="w-full text-left text-xs text-gray-400">
+              <thead className="text-[10px] uppercase bg-[#121212] text-gray-500">
+                <tr>
+                  <th className="px-3 py-2">Order ID</th>
+                  <th className="px-3 py-2">Placed At</th>
+                  <th className="px-3 py-2">Restaurant</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2 text-right">Amount</th>
+                  <th className="px-3 py-2">Items</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {preview.map(({ order, errors, badDate, badAmount }, idx) => order ? (
+                  <tr key={idx}>
+                    <td className="px-3 py-1.5 font-mono text-gray-300">{order.orderId}</td>
+                    <td className="px-3 py-1.5">{new Date(order.orderPlacedAt).toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-[#fef3c7]">{order.restaurantName}</td>
+                    <td className="px-3 py-1.5">{order.orderStatus}</td>
+                    <td className="px-3 py-1.5 text-right text-emerald-400">₹{order.totalAmount}</td>
+                    <td className="px-3 py-1.5 truncate max-w-[240px]">{order.items}</td>
+                  </tr>
+                ) : (
+                  <tr key={idx} className="text-red-400">
+                    <td className="px-3 py-1.5 font-mono">Line {table.lines[idx]}</td>
+                    <td className="px-3 py-1.5">{badDate ? 'Unparseable date' : '—'}</td>
+                    <td colSpan={2} className="px-3 py-1.5">{errors.map(issue => issue.reason).join('; ')}</td>
+                    <td className="px-3 py-1.5 text-right">{badAmount ? 'Unparseable' : '—'}</td>
+                    <td className="px-3 py-1.5">Row will be rejected</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {(result.rejectedRows > 0 || warningCount > 0 || missingRequired.length > 0) && (
+          <div className="bg-red-900/20 border border-red-500/30 text-red-200 px-3 py-2 rounded-lg text-xs space-y-1">
+            {missingRequired.length > 0 && (
+              <p>Required fields not mapped: {missingRequired.map(f => IMPORT_FIELD_LABELS[f]).join(', ')}.</p>
+            )}
+            {sampled && <p>Checked the first {VALIDATION_SAMPLE_ROWS} of {table.rows.length} rows; the rest are validated on import.</p>}
+            {result.rejectedRows > 0 && <p>{result.rejectedRows} of {result.totalRows} rows will be rejected (unparseable date or amount, or malformed row).</p>}
+            {warningCount > 0 && <p>{warningCount} warnings (missing ids, bad ratings, duplicate ids). Full details are shown after import.</p>}
+          </div>
+        )}
+
+        {importError && (
+          <div className="bg-red-900/20 border border-red-500/30 text-red-200 px-3 py-2 rounded-lg text-xs">{importError}</div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} />
+            Remember this mapping for files with the same headers
+          </label>
+          <div className="flex items-center gap-3">
+            <button onClick={onCancel} className="px-3 py-2 rounded bg-transparent border border-white/10 text-sm">Cancel</button>
+            <button
+              onClick={handleConfirm}
+              disabled={missingRequired.length > 0 || result.orders.length === 0 || importing || busy}
+              className="px-3 py-2 rounded bg-orange-500 text-white text-sm disabled:opacity-40"
+            >
+              {importing
+                ? `Importing ${table.rows.length} rows…`
+                : sampled
+                  ? `Import ${table.rows.length} rows`
+                  : `Import ${result.orders.length} of ${result.totalRows} rows`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
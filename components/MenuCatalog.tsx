@@ -0,0 +1,263 @@
+import React, { useMemo, useState } from 'react';
+import { ZomatoOrder } from '../types';
+import { countItemQuantities } from '../services/orderItems';
+import { DietType, canonicalItemName, menuCatalogService } from '../services/menuCatalogService';
+
+interface MenuCatalogProps {
+  orders: ZomatoOrder[];
+  revision: number; // menuCatalogService revision; bumps re-render after edits
+  onChange: () => void;
+}
+
+const DIET_LABELS: Record<DietType, string> = {
+  veg: 'Veg',
+  'non-veg': 'Non-veg',
+  egg: 'Egg',
+};
+
+const DIET_COLORS: Record<DietType, string> = {
+  veg: 'text-emerald-400',
+  'non-veg': 'text-red-400',
+  egg: 'text-yellow-400',
+};
+
+const MAX_SUGGESTIONS = 8;
+
+const MenuCatalog: React.FC<MenuCatalogProps> = ({ orders, revision, onChange }) => {
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  const soldByName = useMemo(() => {
+    return new Map(countItemQuantities(orders, canonicalItemName).map(entry => [entry.name, entry.quantity]));
+  }, [orders, revision]);
+
+  const items = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return [...menuCatalogService.getItems()]
+      .filter(item => !q || item.name.toLowerCase().includes(q) || item.aliases.some(a => a.toLowerCase().includes(q)) || (item.category || '').toLowerCase().includes(q))
+      .sort((a, b) => (soldByName.get(b.name) || 0) - (soldByName.get(a.name) || 0));
+  }, [search, soldByName, revision]);
+
+  const suggestions = useMemo(() => menuCatalogService.suggestDuplicates().slice(0, MAX_SUGGESTIONS), [revision]);
+  const categories = useMemo(
+    () => Array.from(new Set(menuCatalogService.getItems().map(item => item.category).filter(Boolean) as string[])).sort(),
+    [revision]
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  const handleMerge = (targetId: string, sourceIds: string[]) => {
+    menuCatalogService.mergeItems(targetId, sourceIds);
+    setSelected([]);
+    setMergeTarget('');
+    onChange();
+  };
+
+  const handleUpdate = (id: string, patch: Parameters<typeof menuCatalogService.updateItem>[1]) => {
+    menuCatalogService.updateItem(id, patch);
+    onChange();
+  };
+
+  if (menuCatalogService.getItems().length === 0) {
+    return <div className="text-center text-gray-500 text-sm py-10">No items yet. The catalog builds itself from imported orders.</div>;
+  }
+
+  const selectedItems = menuCatalogService.getItems().filter(item => selected.includes(item.id));
+
+  return (
+    <div className="space-y-6">
+      {suggestions.length > 0 && (
+        <div className="bg-[#1c1c1e] rounded-lg border border-orange-500/20 p-4">
+          <h3 className="text-[10px] font-bold uppercase tracking-widest text-orange-500 mb-3">Possible duplicates</h3>
+          <div className="space-y-2">
+            {suggestions.map(({ keep, merge, similarity }) => (
+              <div key={`${keep.id}-${merge.id}`} className="flex items-center justify-between text-xs">
+                <span className="text-gray-300">
+                  <span className="text-[#fef3c7]">{keep.name}</span>
+                  <span className="text-gray-600"> ↔ </span>
+                  <span className="text-[#fef3c7]">{merge.name}</span>
+                  <span className="text-gray-500"> · {(similarity * 100).toFixed(0)}% similar</span>
+                </span>
+                <button
+                  onClick={() => handleMerge(keep.id, [merge.id])}
+                  className="text-[10px] text-orange-400 hover:text-orange-300 uppercase tracking-wider"
+                >
+                  Merge into "{keep.name}"
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-[#1c1c1e] rounded-lg border border-white/5 overflow-hidden">
+        <div className="p-4 border-b border-white/5 flex flex-wrap gap-3 justify-between items-center">
+          <h3 className="text-sm font-bold text-[#fef3c7]">Menu Catalog ({menuCatalogService.getItems().length} items)</h3>
+          <div className="flex items-center gap-3">
+            {selectedItems.length > 1 && (
+              <>
+                <select
+                  value={mergeTarget}
+                  onChange={e => setMergeTarget(e.target.value)}
+                  className="bg-[#121212] border border-white/10 rounded px-2 py-1 text-xs text-[#fef3c7]"
+                >
+                  <option value="">Merge {selectedItems.length} items into…</option>
+                  {selectedItems.map(item => (
+                    <option key={item.id} value={item.id}>{item.name}</option>
+                  ))}
+                </select>
+                <button
+                  disabled={!mergeTarget}
+                  onClick={() => handleMerge(mergeTarget, selected)}
+                  className="px-3 py-1 rounded bg-orange-500 text-white text-xs disabled:opacity-40"
+                >
+                  Merge
+                </button>
+              </>
+            )}
+            <label className="flex items-center gap-1 text-[10px] text-gray-500" title="Used for items without a food cost">
+              Default food cost
+              <input
+                type="number"
+                min={0}
+                max={100}
+                defaultValue={menuCatalogService.getDefaultFoodCostPercent()}
+                onBlur={e => {
+                  const percent = e.target.value === '' ? undefined : Number(e.target.value);
+                  if (percent === undefined || (Number.isFinite(percent) && percent >= 0 && percent <= 100)) {
+                    menuCatalogService.setDefaultFoodCostPercent(percent);
+                    onChange();
+                  }
+                }}
+                className="w-12 text-right bg-[#121212] border border-white/10 rounded px-1 py-1 text-xs text-[#fef3c7]"
+              />
+              %
+            </label>
+            <input
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search items, aliases, categories"
+              className="w-64 bg-[#121212] border border-white/10 rounded px-3 py-1 text-xs text-[#fef3c7]"
+            />
+          </div>
+        </div>
+
+        <div className="overflow-auto max-h-[600px]">
+          <table className="w-full text-left text-xs text-gray-400">
+            <thead className="text-[10px] uppercase bg-[#121212] text-gray-500 sticky top-0 z-10">
+              <tr>
+                <th className="px-3 py-2"></th>
+                <th className="px-3 py-2">Canonical name</th>
+                <th className="px-3 py-2">Aliases</th>
+                <th className="px-3 py-2">Category</th>
+                <th className="px-3 py-2">Diet</th>
+                <th className="px-3 py-2 text-right">Price (₹)</th>
+                <th className="px-3 py-2 text-right">Food cost (₹)</th>
+                <th className="px-3 py-2 text-right">Sold</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {items.map(item => (
+                <tr key={`${item.id}-${revision}`} className="hover:bg-white/5 align-top">
+                  <td className="px-3 py-2">
+                    <input type="checkbox" checked={selected.includes(item.id)} onChange={() => toggleSelected(item.id)} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      defaultValue={item.name}
+                      onBlur={e => {
+                        const name = e.target.value.trim();
+                        if (name && name !== item.name) handleUpdate(item.id, { name });
+                      }}
+                      className="w-full bg-transparent border border-transparent hover:border-white/10 focus:border-orange-500/50 rounded px-1 py-0.5 text-[#fef3c7]"
+                    />
+                  </td>
+                  <td className="px-3 py-2 max-w-[280px]">
+                    <div className="flex flex-wrap gap-1">
+                      {item.aliases.map(alias => (
+                        <span key={alias} className="px-1.5 py-0.5 rounded border border-white/10 text-[10px] text-gray-400 flex items-center gap-1">
+                          {alias}
+                          {item.aliases.length > 1 && (
+                            <button
+                              title="Split into its own item"
+                              onClick={() => {
+                                menuCatalogService.detachAlias(item.id, alias);
+                                onChange();
+                              }}
+                              className="text-gray-600 hover:text-red-400"
+                            >
+                              ×
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      defaultValue={item.category || ''}
+                      list="menu-categories"
+                      placeholder="—"
+                      onBlur={e => {
+                        const category = e.target.value.trim() || undefined;
+                        if (category !== item.category) handleUpdate(item.id, { category });
+                      }}
+                      className="w-32 bg-transparent border border-transparent hover:border-white/10 focus:border-orange-500/50 rounded px-1 py-0.5"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={item.diet || ''}
+                      onChange={e => handleUpdate(item.id, { diet: (e.target.value || undefined) as DietType | undefined })}
+                      className={`bg-transparent border border-white/5 rounded px-1 py-0.5 ${item.diet ? DIET_COLORS[item.diet] : 'text-gray-600'}`}
+                    >
+                      <option value="">—</option>
+                      {(Object.keys(DIET_LABELS) as DietType[]).map(diet => (
+                        <option key={diet} value={diet}>{DIET_LABELS[diet]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      defaultValue={item.price ?? ''}
+                      onBlur={e => {
+                        const price = e.target.value === '' ? undefined : Number(e.target.value);
+                        if (price !== item.price && (price === undefined || Number.isFinite(price))) handleUpdate(item.id, { price });
+                      }}
+                      className="w-20 text-right bg-transparent border border-transparent hover:border-white/10 focus:border-orange-500/50 rounded px-1 py-0.5 text-emerald-400"
+                    />
+                    {item.priceEstimated && <span className="block text-[9px] text-gray-600 uppercase">estimated</span>}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      defaultValue={item.foodCost ?? ''}
+                      placeholder={item.price !== undefined ? String(Math.round((item.price * menuCatalogService.getDefaultFoodCostPercent()) / 100)) : ''}
+                      onBlur={e => {
+                        const foodCost = e.target.value === '' ? undefined : Number(e.target.value);
+                        if (foodCost !== item.foodCost && (foodCost === undefined || Number.isFinite(foodCost))) handleUpdate(item.id, { foodCost });
+                      }}
+                      className="w-20 text-right bg-transparent border border-transparent hover:border-white/10 focus:border-orange-500/50 rounded px-1 py-0.5 text-red-300 placeholder:text-gray-700"
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-right text-[#fef3c7]">{soldByName.get(item.name) || 0}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <datalist id="menu-categories">
+            {categories.map(category => <option key={category} value={category} />)}
+          </datalist>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MenuCatalog;
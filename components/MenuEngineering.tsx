@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, ReferenceLine, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from 'recharts';
+import { ZomatoOrder } from '../types';
+import { KitchenTimeSettings, addDays, businessDate, businessMonth, formatBusinessDate } from '../services/kitchenTimeService';
+import {
+  MENU_QUADRANT_ACTIONS, MENU_QUADRANT_COLORS, MENU_QUADRANT_LABELS, MenuEngineeringItem, MenuQuadrant, analyzeMenuEngineering
+} from '../services/menuEngineeringService';
+
+interface MenuEngineeringProps {
+  orders: ZomatoOrder[];
+  revision: number; // Menu catalog revision; prices and food costs change the matrix
+  timeSettings: KitchenTimeSettings;
+}
+
+const QUADRANTS = Object.keys(MENU_QUADRANT_LABELS) as MenuQuadrant[];
+const money = (value: number) => `₹${Math.round(value).toLocaleString()}`;
+
+const ItemTooltip: React.FC<{ active?: boolean; payload?: Array<{ payload: MenuEngineeringItem }> }> = ({ active, payload }) => {
+  if (!active || !payload?.length) return null;
+  const item = payload[0].payload;
+  return (
+    <div className="bg-[#121212] border border-[#333] rounded px-3 py-2 text-xs text-[#fef3c7]">
+      <p className="font-medium">{item.item}</p>
+      <p className="text-gray-400">{item.quantity} sold · {money(item.margin)} margin · {MENU_QUADRANT_LABELS[item.quadrant]}</p>
+    </div>
+  );
+};
+
+const MenuEngineering: React.FC<MenuEngineeringProps> = ({ orders, revision, timeSettings }) => {
+  const [restaurant, setRestaurant] = useState<string>('all');
+  const [period, setPeriod] = useState<string>('all');
+
+  const restaurants = useMemo(() => Array.from(new Set(orders.map(o => o.restaurantName))).sort(), [orders]);
+  const months = useMemo(
+    () => Array.from(new Set(orders.map(o => businessMonth(o.orderPlacedAt, timeSettings)))).sort().reverse(),
+    [orders, timeSettings]
+  );
+
+  const report = useMemo(() => {
+    const lastDay = orders.reduce((max, o) => {
+      const day = businessDate(o.orderPlacedAt, timeSettings);
+      return day > max ? day : max;
+    }, '');
+    const from30 = lastDay ? addDays(lastDay, -29) : '';
+    const scoped = orders.filter(o => {
+      if (restaurant !== 'all' && o.restaurantName !== restaurant) return false;
+      if (period === 'all') return true;
+      if (period === '30') return businessDate(o.orderPlacedAt, timeSettings) >= from30;
+      return businessMonth(o.orderPlacedAt, timeSettings) === period;
+    });
+    return analyzeMenuEngineering(scoped);
+  }, [orders, restaurant, period, timeSettings, revision]);
+
+  const quantityThreshold = (report.popularityThreshold / 100) * report.totalQuantity;
+  const costsAssumed = report.items.filter(i => i.costEstimated).length;
+
+  return (
+    <div className="bg-[#1c1c1e] rounded-lg border border-white/5 p-4 space-y-6">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div>
+          <h3 className="text-sm font-bold text-[#fef3c7]">Menu Engineering</h3>
+          <p className="text-[11px] text-gray-500 mt-1">
+            Popularity (share of portions sold) against contribution margin (price − food cost).
+            {costsAssumed > 0 && ` ${costsAssumed} of ${report.items.length} items use the default food cost %; enter costs above for a sharper picture.`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {restaurants.length > 1 && (
+            <select
+              value={restaurant}
+              onChange={e => setRestaurant(e.target.value)}
+              className="bg-[#0b1220] border border-white/10 rounded px-2 py-1 text-xs text-gray-300"
+            >
+              <option value="all">All restaurants</option>
+              {restaurants.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          )}
+          <select
+            value={period}
+            onChange={e => setPeriod(e.target.value)}
+            className="bg-[#0b1220] border border-white/10 rounded px-2 py-1 text-xs text-gray-300"
+          >
+            <option value="all">All time</option>
+            <option value="30">Last 30 days of data</option>
+            {months.map(month => (
+              <option key={month} value={month}>{formatBusinessDate(`${month}-01`, { month: 'long', year: 'numeric' })}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {report.items.length === 0 ? (
+        <p className="text-[11px] text-gray-600">No priced items sold in this selection. Set menu prices in the catalog above.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {QUADRANTS.map(quadrant => (
+              <div key={quadrant} className="bg-[#121212] p-3 rounded border border-white/5">
+                <p className="text-[10px] font-bold uppercase tracking-widest" style={{ color: MENU_QUADRANT_COLORS[quadrant] }}>
+                  {MENU_QUADRANT_LABELS[quadrant]}s
+                </p>
+                <p className="text-xl font-medium text-[#fef3c7] mt-1">{report.quadrantCounts[quadrant]}</p>
+                <p className="text-[11px] text-gray-500 mt-0.5">{MENU_QUADRANT_ACTIONS[quadrant]}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.1} stroke="#fff" />
+                <XAxis type="number" dataKey="quantity" name="Sold" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                <YAxis type="number" dataKey="margin" name="Margin" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(val) => `₹${val}`} />
+                <Tooltip content={<ItemTooltip />} cursor={{ strokeDasharray: '3 3' }} />
+                <ReferenceLine x={quantityThreshold} stroke="#525252" strokeDasharray="4 4" />
+                <ReferenceLine y={report.avgMargin} stroke="#525252" strokeDasharray="4 4" />
+                {QUADRANTS.map(quadrant => (
+                  <Scatter
+                    key={quadrant}
+                    name={MENU_QUADRANT_LABELS[quadrant]}
+                    data={report.items.filter(i => i.quadrant === quadrant)}
+                    fill={MENU_QUADRANT_COLORS[quadrant]}
+                  />
+                ))}
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-auto max-h-[400px]">
+            <table className="w-full text-left text-xs text-gray-400">
+              <thead className="text-[10px] uppercase text-gray-500 sticky top-0 bg-[#1c1c1e]">
+                <tr>
+                  <th className="py-1.5">Item</th>
+                  <th className="py-1.5 text-right">Sold</th>
+                  <th className="py-1.5 text-right">Mix</th>
+                  <th className="py-1.5 text-right">Price</th>
+                  <th className="py-1.5 text-right">Food cost</th>
+                  <th className="py-1.5 text-right">Margin</th>
+                  <th className="py-1.5 text-right">Contribution</th>
+                  <th className="py-1.5 pl-4">Class</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {report.items.map(item => (
+                  <tr key={item.item}>
+                    <td className="py-1.5 text-[#fef3c7]">{item.item}</td>
+                    <td className="py-1.5 text-right">{item.quantity}</td>
+                    <td className="py-1.5 text-right">{item.mixShare.toFixed(1)}%</td>
+                    <td className="py-1.5 text-right">{money(item.price)}{item.priceEstimated && <span className="text-gray-600">*</span>}</td>
+                    <td className="py-1.5 text-right">{money(item.foodCost)}{item.costEstimated && <span className="text-gray-600">*</span>}</td>
+                    <td className="py-1.5 text-right">{money(item.margin)}</td>
+                    <td className="py-1.5 text-right text-emerald-400">{money(item.totalContribution)}</td>
+                    <td className="py-1.5 pl-4" style={{ color: MENU_QUADRANT_COLORS[item.quadrant] }} title={MENU_QUADRANT_ACTIONS[item.quadrant]}>
+                      {MENU_QUADRANT_LABELS[item.quadrant]}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-[10px] text-gray-600 mt-2">
+              * estimated. Popular = at least {report.popularityThreshold.toFixed(1)}% of portions; profitable = margin of at least {money(report.avgMargin)} (sales-weighted average).
+              {report.unpriced.length > 0 && ` Not classified (no price): ${report.unpriced.map(u => u.item).join(', ')}.`}
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MenuEngineering;
@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import { ZomatoOrder } from '../types';
+import { RateCard } from '../services/payoutService';
+import { KitchenTimeSettings, formatBusinessDate } from '../services/kitchenTimeService';
+import { PROMOTION_KIND_LABELS, analyzePromotions, analyzePromotionsByRestaurant } from '../services/promotionService';
+
+interface PromotionsAnalysisProps {
+  orders: ZomatoOrder[];
+  rateCards: RateCard[];
+  timeSettings: KitchenTimeSettings;
+}
+
+const money = (value: number) => `₹${Math.round(value).toLocaleString()}`;
+const signedMoney = (value: number) => `${value < 0 ? '-' : '+'}${money(Math.abs(value))}`;
+
+const Verdict: React.FC<{ paid: boolean | null }> = ({ paid }) => {
+  if (paid === null) return <span className="text-gray-500" title="Ran on every day in range; no days without it to compare against">No baseline</span>;
+  return paid
+    ? <span className="text-emerald-400">Paid off</span>
+    : <span className="text-red-400">Lost money</span>;
+};
+
+const PromotionsAnalysis: React.FC<PromotionsAnalysisProps> = ({ orders, rateCards, timeSettings }) => {
+  const [restaurant, setRestaurant] = useState<string>('all');
+  const [weekFilter, setWeekFilter] = useState<string>('all');
+
+  const byRestaurant = useMemo(
+    () => analyzePromotionsByRestaurant(orders, rateCards, timeSettings),
+    [orders, rateCards, timeSettings]
+  );
+  const report = useMemo(() => {
+    if (restaurant === 'all') return analyzePromotions(orders, rateCards, timeSettings);
+    return byRestaurant.find(r => r.restaurant === restaurant)?.report ?? analyzePromotions([], rateCards, timeSettings);
+  }, [orders, rateCards, timeSettings, restaurant, byRestaurant]);
+
+  const weekly = report.weekly.filter(w => weekFilter === 'all' || w.key === weekFilter);
+  const paidOff = report.promotions.filter(p => p.paidForItself).length;
+
+  if (report.deliveredOrders === 0 && restaurant === 'all') {
+    return <div className="text-center text-gray-500 text-sm py-10">No delivered orders to analyse yet.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-[#1c1c1e] rounded-lg border border-white/5 p-4 flex flex-wrap gap-4 justify-between items-center">
+        <div>
+          <h3 className="text-sm font-bold text-[#fef3c7]">Promotion ROI</h3>
+          <p className="text-[11px] text-gray-500 mt-1">
+            Offers are compared with full-price orders, and their run window (first to last redemption) with the same weekdays outside it; net payout uses your rate cards.
+          </p>
+        </div>
+        {byRestaurant.length > 1 && (
+          <select
+            value={restaurant}
+            onChange={e => { setRestaurant(e.target.value); setWeekFilter('all'); }}
+            className="bg-[#0b1220] border border-white/10 rounded px-3 py-1.5 text-xs text-gray-300"
+          >
+            <option value="all">All restaurants</option>
+            {byRestaurant.map(r => <option key={r.restaurant} value={r.restaurant}>{r.restaurant}</option>)}
+          </select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: 'Discounted orders', value: `${report.discountedShare.toFixed(1)}%`, sub: `of ${report.deliveredOrders} delivered` },
+          { label: 'Restaurant-funded cost', value: money(report.totalRestaurantCost), sub: 'Promo, flat-off & brand-pack' },
+          { label: 'Full-price basket', value: money(report.baseline.avgBasket), sub: `${report.baseline.orders} orders without an offer` },
+          { label: 'Offers that paid off', value: `${paidOff} / ${report.promotions.length}`, sub: 'Incremental net payout > 0' },
+        ].map(stat => (
+          <div key={stat.label} className="bg-[#1c1c1e] p-4 rounded-lg border border-white/5">
+            <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">{stat.label}</p>
+            <p className="text-xl font-medium text-[#fef3c7] mt-1">{stat.value}</p>
+            <p className="text-[11px] text-gray-500 mt-0.5">{stat.sub}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-[#1c1c1e] rounded-lg border border-white/5 overflow-auto">
+        <table className="w-full text-left text-xs text-gray-400">
+          <thead className="text-[10px] uppercase bg-[#121212] text-gray-500">
+            <tr>
+              <th className="px-4 py-2">Offer</th>
+              <th className="px-4 py-2 text-right">Orders</th>
+              <th className="px-4 py-2 text-right">Days</th>
+              <th className="px-4 py-2 text-right">Avg basket</th>
+              <th className="px-4 py-2 text-right">vs full price</th>
+              <th className="px-4 py-2 text-right">Cost</th>
+              <th className="px-4 py-2 text-right">Extra orders</th>
+              <th className="px-4 py-2 text-right">Extra net payout</th>
+              <th className="px-4 py-2 text-right">ROI</th>
+              <th className="px-4 py-2">Verdict</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {report.promotions.map(p => (
+              <tr key={p.key} className="hover:bg-white/5">
+                <td className="px-4 py-2 text-[#fef3c7]">
+                  {p.label}
+                  <span className="ml-2 text-[9px] uppercase tracking-wider text-gray-500">{PROMOTION_KIND_LABELS[p.kind]}</span>
+                </td>
+                <td className="px-4 py-2 text-right">{p.orders} <span className="text-gray-600">({p.orderShare.toFixed(0)}%)</span></td>
+                <td className="px-4 py-2 text-right" title="Days redeemed / days from first to last redemption">{p.activeDays}<span className="text-gray-600"> / {p.runDays}</span></td>
+                <td className="px-4 py-2 text-right">{money(p.avgBasket)}</td>
+                <td className="px-4 py-2 text-right">{p.basketLiftPercent === null ? '-' : `${p.basketLiftPercent >= 0 ? '+' : ''}${p.basketLiftPercent.toFixed(0)}%`}</td>
+                <td className="px-4 py-2 text-right">
+                  {money(p.restaurantCost)}
+                  {p.platformFunded > 0 && <span className="block text-[10px] text-gray-600">+{money(p.platformFunded)} platform</span>}
+                </td>
+                <td className="px-4 py-2 text-right">{p.incrementalOrders === null ? '-' : p.incrementalOrders.toFixed(1)}</td>
+                <td className="px-4 py-2 text-right">{p.incrementalNetPayout === null ? '-' : signedMoney(p.incrementalNetPayout)}</td>
+                <td className="px-4 py-2 text-right">{p.roiPercent === null ? '-' : `${p.roiPercent.toFixed(0)}%`}</td>
+                <td className="px-4 py-2"><Verdict paid={p.paidForItself} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {report.promotions.length === 0 && <p className="text-center text-gray-500 text-sm py-8">No discounted orders.</p>}
+      </div>
+
+      {restaurant === 'all' && byRestaurant.length > 1 && (
+        <div className="bg-[#1c1c1e] rounded-lg border border-white/5 overflow-auto">
+          <div className="p-4 border-b border-white/5">
+            <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">By restaurant</h4>
+          </div>
+          <table className="w-full text-left text-xs text-gray-400">
+            <thead className="text-[10px] uppercase bg-[#121212] text-gray-500">
+              <tr>
+                <th className="px-4 py-2">Restaurant</th>
+                <th className="px-4 py-2 text-right">Discounted</th>
+                <th className="px-4 py-2 text-right">Cost</th>
+                <th className="px-4 py-2">Offers that paid off</th>
+                <th className="px-4 py-2">Offers that lost money</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {byRestaurant.map(({ restaurant: name, report: r }) => (
+                <tr key={name} className="hover:bg-white/5 cursor-pointer" onClick={() => setRestaurant(name)}>
+                  <td className="px-4 py-2 text-[#fef3c7]">{name}</td>
+                  <td className="px-4 py-2 text-right">{r.discountedShare.toFixed(0)}%</td>
+                  <td className="px-4 py-2 text-right">{money(r.totalRestaurantCost)}</td>
+                  <td className="px-4 py-2 text-emerald-400">{r.promotions.filter(p => p.paidForItself).map(p => p.label).join(', ') || '-'}</td>
+                  <td className="px-4 py-2 text-red-400">{r.promotions.filter(p => p.paidForItself === false).map(p => p.label).join(', ') || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {report.weekly.length > 0 && (
+        <div className="bg-[#1c1c1e] rounded-lg border border-white/5 overflow-hidden">
+          <div className="p-4 border-b border-white/5 flex flex-wrap gap-3 justify-between items-center">
+            <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">By week</h4>
+            <select
+              value={weekFilter}
+              onChange={e => setWeekFilter(e.target.value)}
+              className="bg-[#0b1220] border border-white/10 rounded px-2 py-1 text-xs text-gray-300"
+            >
+              <option value="all">All offers</option>
+              {report.promotions.map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+            </select>
+          </div>
+          <div className="overflow-auto max-h-[400px]">
+            <table className="w-full text-left text-xs text-gray-400">
+              <thead className="text-[10px] uppercase bg-[#121212] text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2">Week of</th>
+                  <th className="px-4 py-2">Offer</th>
+                  <th className="px-4 py-2 text-right">Orders</th>
+                  <th className="px-4 py-2 text-right">Cost</th>
+                  <th className="px-4 py-2 text-right">Net payout</th>
+                  <th className="px-4 py-2 text-right">Extra net payout</th>
+                  <th className="px-4 py-2">Verdict</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {weekly.map(w => (
+                  <tr key={`${w.week}-${w.key}`} className="hover:bg-white/5">
+                    <td className="px-4 py-2 whitespace-nowrap">{formatBusinessDate(w.week)}</td>
+                    <td className="px-4 py-2 text-[#fef3c7]">{w.label}</td>
+                    <td className="px-4 py-2 text-right">{w.orders}</td>
+                    <td className="px-4 py-2 text-right">{money(w.restaurantCost)}</td>
+                    <td className="px-4 py-2 text-right">{money(w.netPayout)}</td>
+                    <td className="px-4 py-2 text-right">{w.incrementalNetPayout === null ? '-' : signedMoney(w.incrementalNetPayout)}</td>
+                    <td className="px-4 py-2"><Verdict paid={w.paidForItself} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromotionsAnalysis;
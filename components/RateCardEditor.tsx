@@ -0,0 +1,126 @@
+import React from 'react';
+import { OrderSource } from '../types';
+import { ORDER_SOURCES, ORDER_SOURCE_LABELS } from '../services/channelService';
+import { CommissionSlab, DEFAULT_RATE_CARDS, RateCard, createRateCard } from '../services/payoutService';
+
+interface RateCardEditorProps {
+  cards: RateCard[];
+  restaurants: string[];
+  onChange: (cards: RateCard[]) => void;
+}
+
+const inputClass = 'w-full bg-[#0b1220] border border-white/5 rounded px-2 py-1 text-xs';
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; onChange: (value: number) => void }> = ({ label, value, step = 0.01, onChange }) => (
+  <label className="block">
+    <span className="block text-[10px] text-gray-500 mb-0.5">{label}</span>
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={value}
+      onChange={e => onChange(Number(e.target.value) || 0)}
+      className={inputClass}
+    />
+  </label>
+);
+
+const RateCardEditor: React.FC<RateCardEditorProps> = ({ cards, restaurants, onChange }) => {
+  const update = (id: string, patch: Partial<RateCard>) => {
+    onChange(cards.map(card => (card.id === id ? { ...card, ...patch } : card)));
+  };
+
+  const updateSlab = (card: RateCard, index: number, patch: Partial<CommissionSlab>) => {
+    update(card.id, { slabs: (card.slabs ?? []).map((slab, i) => (i === index ? { ...slab, ...patch } : slab)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {cards.length === 0 && (
+        <p className="text-[11px] text-gray-500">
+          No rate cards yet. Aggregator orders use typical terms: {DEFAULT_RATE_CARDS.map(card => `${card.label.split(' ')[0]} ${card.commissionPercent}% + ${card.gstOnCommissionPercent}% GST, ${card.paymentGatewayPercent}% gateway`).join('; ')}.
+        </p>
+      )}
+
+      {cards.map(card => (
+        <div key={card.id} className="border border-white/5 rounded p-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="block text-[10px] text-gray-500 mb-0.5">Label</span>
+              <input value={card.label} onChange={e => update(card.id, { label: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="block text-[10px] text-gray-500 mb-0.5">Channel</span>
+              <select value={card.source} onChange={e => update(card.id, { source: e.target.value as OrderSource })} className={inputClass}>
+                {ORDER_SOURCES.map(source => <option key={source} value={source}>{ORDER_SOURCE_LABELS[source]}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-[10px] text-gray-500 mb-0.5">Restaurant (blank = all)</span>
+              <input
+                value={card.restaurant ?? ''}
+                list="rate-card-restaurants"
+                onChange={e => update(card.id, { restaurant: e.target.value || undefined })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-[10px] text-gray-500 mb-0.5">Effective from</span>
+              <input type="date" value={card.effectiveFrom} onChange={e => e.target.value && update(card.id, { effectiveFrom: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            <NumberField label="Commission %" value={card.commissionPercent} onChange={value => update(card.id, { commissionPercent: value })} />
+            <NumberField label="GST on commission %" value={card.gstOnCommissionPercent} onChange={value => update(card.id, { gstOnCommissionPercent: value })} />
+            <NumberField label="Gateway fee %" value={card.paymentGatewayPercent} onChange={value => update(card.id, { paymentGatewayPercent: value })} />
+            <NumberField label="Fixed fee / order ₹" value={card.fixedFeePerOrder} step={1} onChange={value => update(card.id, { fixedFeePerOrder: value })} />
+          </div>
+
+          {(card.slabs ?? []).map((slab, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+              <NumberField label="Orders from ₹" value={slab.minSubtotal} step={1} onChange={value => updateSlab(card, index, { minSubtotal: value })} />
+              <NumberField label="Commission %" value={slab.commissionPercent} onChange={value => updateSlab(card, index, { commissionPercent: value })} />
+              <button
+                onClick={() => update(card.id, { slabs: (card.slabs ?? []).filter((_, i) => i !== index) })}
+                className="text-[10px] text-gray-500 hover:text-red-400 pb-1.5"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-[11px] text-gray-400">
+              <input type="checkbox" checked={card.commissionOnPackaging} onChange={e => update(card.id, { commissionOnPackaging: e.target.checked })} />
+              Commission on packaging charges
+            </label>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => update(card.id, { slabs: [...(card.slabs ?? []), { minSubtotal: 500, commissionPercent: card.commissionPercent }] })}
+                className="text-[10px] text-orange-400 hover:text-orange-300 uppercase tracking-wider"
+              >
+                + Slab
+              </button>
+              <button
+                onClick={() => onChange(cards.filter(c => c.id !== card.id))}
+                className="text-[10px] text-red-400 hover:text-red-300 uppercase tracking-wider"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button onClick={() => onChange([...cards, createRateCard()])} className="px-3 py-1.5 rounded border border-white/10 text-xs">
+        Add rate card
+      </button>
+      <datalist id="rate-card-restaurants">
+        {restaurants.map(name => <option key={name} value={name} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default RateCardEditor;
@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ZomatoOrder } from '../types';
+import { readCsvTable } from '../services/csvService';
+import { RateCard } from '../services/payoutService';
+import { ORDER_SOURCE_LABELS } from '../services/channelService';
+import {
+  DISCREPANCY_LABELS,
+  DiscrepancyKind,
+  SettlementStatement,
+  discrepanciesToCsv,
+  parseSettlementTable,
+  reconcileSettlements,
+  settlementService,
+} from '../services/settlementService';
+
+interface ReconciliationProps {
+  orders: ZomatoOrder[];
+  rateCards: RateCard[];
+  userId: string;
+}
+
+const MAX_VISIBLE_ROWS = 300;
+
+const KIND_COLORS: Record<DiscrepancyKind, string> = {
+  missing_order: 'text-red-400',
+  unsettled: 'text-red-400',
+  amount_mismatch: 'text-yellow-400',
+  unexplained_deduction: 'text-orange-400',
+  penalty: 'text-orange-400',
+};
+
+const formatMoney = (value: number) => `₹${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const Reconciliation: React.FC<ReconciliationProps> = ({ orders, rateCards, userId }) => {
+  const [statements, setStatements] = useState<SettlementStatement[]>(() => settlementService.list(userId));
+  const [filter, setFilter] = useState<DiscrepancyKind | 'all'>('all');
+  const [isReading, setIsReading] = useState(false);
+
+  useEffect(() => {
+    setStatements(settlementService.list(userId));
+  }, [userId]);
+
+  const result = useMemo(() => reconcileSettlements(statements, orders, rateCards), [statements, orders, rateCards]);
+  const counts = useMemo(() => {
+    const byKind = {} as Record<DiscrepancyKind, number>;
+    result.rows.forEach(row => {
+      byKind[row.kind] = (byKind[row.kind] || 0) + 1;
+    });
+    return byKind;
+  }, [result]);
+  const visible = result.rows.filter(row => filter === 'all' || row.kind === filter);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+    if (files.length === 0) return;
+
+    setIsReading(true);
+    const problems: string[] = [];
+    try {
+      for (const file of files) {
+        const table = await readCsvTable(file);
+        const { lines, issues, source } = parseSettlementTable(table);
+        if (issues.length > 0) {
+          problems.push(`${file.name}: ${issues.length} row(s) skipped (${issues[0].reason}, line ${issues[0].line})`);
+        }
+        if (lines.length > 0) {
+          const saved = settlementService.add(userId, { fileName: file.name, source, lines });
+          if (!saved.some(statement => statement.lines === lines)) {
+            problems.push(`${file.name}: not saved, browser storage is full. Remove older statements and try again.`);
+          }
+          setStatements(saved);
+        }
+      }
+    } catch (err) {
+      problems.push(err instanceof Error ? err.message : 'Failed to read settlement file');
+    } finally {
+      setIsReading(false);
+    }
+    if (problems.length > 0) alert(problems.join('\n'));
+  };
+
+  const handleRemove = (statement: SettlementStatement) => {
+    if (!window.confirm(`Remove settlement statement ${statement.fileName}?`)) return;
+    setStatements(settlementService.remove(userId, statement.id));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([discrepanciesToCsv(result.rows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `settlement_discrepancies_${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-[#1c1c1e] rounded-lg border border-white/5 p-4 flex flex-wrap gap-4 justify-between items-center">
+        <div>
+          <h3 className="text-sm font-bold text-[#fef3c7]">Settlement Reconciliation</h3>
+          <p className="text-[11px] text-gray-500 mt-1">
+            Upload aggregator settlement CSVs; each line is matched to your orders by order id and checked against your payout rate cards.
+          </p>
+        </div>
+        <label className={`px-4 py-2 rounded text-xs font-bold uppercase tracking-widest cursor-pointer ${isReading ? 'bg-gray-700 text-gray-400' : 'bg-orange-500 text-white hover:bg-orange-600'}`}>
+          {isReading ? 'Reading…' : 'Upload Settlement CSV'}
+          <input type="file" accept=".csv" multiple className="hidden" disabled={isReading} onChange={handleUpload} />
+        </label>
+      </div>
+
+      {statements.length === 0 ? (
+        <div className="text-center text-gray-500 text-sm py-10">No settlement statements yet.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: 'Settled', value: formatMoney(result.settledTotal), color: 'text-emerald-400' },
+              { label: 'Expected (matched orders)', value: formatMoney(result.expectedTotal), color: 'text-[#fef3c7]' },
+              { label: 'Clean lines', value: result.matched, color: 'text-blue-400' },
+              { label: 'Discrepancies', value: result.rows.length, color: result.rows.length > 0 ? 'text-red-400' : 'text-emerald-400' },
+            ].map(stat => (
+              <div key={stat.label} className="bg-[#1c1c1e] p-4 rounded-lg border border-white/5">
+                <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">{stat.label}</p>
+                <p className={`text-xl font-medium mt-1 ${stat.color}`}>{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-[#1c1c1e] rounded-lg border border-white/5 overflow-hidden">
+            <div className="p-4 border-b border-white/5">
+              <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Statements</h4>
+            </div>
+            <table className="w-full text-left text-xs text-gray-400">
+              <tbody className="divide-y divide-white/5">
+                {statements.map(statement => (
+                  <tr key={statement.id}>
+                    <td className="px-4 py-2 text-[#fef3c7]">{statement.fileName}</td>
+                    <td className="px-4 py-2">{ORDER_SOURCE_LABELS[statement.source]}</td>
+                    <td className="px-4 py-2">{statement.lines.length} lines</td>
+                    <td className="px-4 py-2">{formatMoney(statement.lines.reduce((sum, line) => sum + line.netPayout, 0))}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">Imported {new Date(statement.importedAt).toLocaleDateString()}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button onClick={() => handleRemove(statement)} className="text-[10px] text-red-400 hover:text-red-300 uppercase tracking-wider">
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-[#1c1c1e] rounded-lg border border-white/5 overflow-hidden">
+            <div className="p-4 border-b border-white/5 flex flex-wrap gap-3 justify-between items-center">
+              <div className="flex flex-wrap gap-2">
+                {(['all', ...Object.keys(DISCREPANCY_LABELS)] as Array<DiscrepancyKind | 'all'>).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => setFilter(kind)}
+                    className={`px-3 py-1 rounded text-[10px] uppercase tracking-wider border ${filter === kind ? 'border-orange-500 text-orange-400' : 'border-white/10 text-gray-500 hover:text-gray-300'}`}
+                  >
+                    {kind === 'all' ? `All (${result.rows.length})` : `${DISCREPANCY_LABELS[kind]} (${counts[kind] || 0})`}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleExport}
+                disabled={result.rows.length === 0}
+                className="px-3 py-1.5 rounded border border-white/10 text-xs disabled:opacity-40"
+              >
+                Export discrepancies CSV
+              </button>
+            </div>
+
+            {visible.length === 0 ? (
+              <p className="text-center text-gray-500 text-sm py-8">Nothing to dispute here.</p>
+            ) : (
+              <div className="overflow-auto max-h-[500px]">
+                <table className="w-full text-left text-xs text-gray-400">
+                  <thead className="text-[10px] uppercase bg-[#121212] text-gray-500 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2">Type</th>
+                      <th className="px-4 py-2">Order ID</th>
+                      <th className="px-4 py-2 text-right">Expected</th>
+                      <th className="px-4 py-2 text-right">Settled</th>
+                      <th className="px-4 py-2 text-right">Difference</th>
+                      <th className="px-4 py-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {visible.slice(0, MAX_VISIBLE_ROWS).map((row, i) => (
+                      <tr key={`${row.kind}-${row.orderId}-${i}`} className="hover:bg-white/5">
+                        <td className={`px-4 py-2 whitespace-nowrap ${KIND_COLORS[row.kind]}`}>{DISCREPANCY_LABELS[row.kind]}</td>
+                        <td className="px-4 py-2 font-mono text-[#fef3c7]">{row.orderId}</td>
+                        <td className="px-4 py-2 text-right">{row.expected !== undefined ? formatMoney(row.expected) : '—'}</td>
+                        <td className="px-4 py-2 text-right">{row.settled !== undefined ? formatMoney(row.settled) : '—'}</td>
+                        <td className={`px-4 py-2 text-right ${row.difference < 0 ? 'text-red-400' : 'text-emerald-400'}`}>{formatMoney(row.difference)}</td>
+                        <td className="px-4 py-2">{row.details}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {visible.length > MAX_VISIBLE_ROWS && (
+                  <p className="text-[11px] text-gray-500 px-4 py-2">Showing {MAX_VISIBLE_ROWS} of {visible.length}; export the CSV for the full list.</p>
+                )}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Reconciliation;
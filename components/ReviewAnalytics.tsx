@@ -0,0 +1,262 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { ZomatoOrder } from '../types';
+import { KitchenTimeSettings, formatBusinessDate } from '../services/kitchenTimeService';
+import {
+  ComplaintTagGroup, KeywordCount, REVIEW_ASPECT_LABELS, REVIEW_SENTIMENT_COLORS, analyzeReviews
+} from '../services/reviewAnalyticsService';
+
+interface ReviewAnalyticsProps {
+  orders: ZomatoOrder[];
+  revision: number; // Menu catalog revision; complaint tags are grouped by canonical item
+  timeSettings: KitchenTimeSettings;
+  onOpenOrder: (orderId: string) => void; // Show the order in Raw Data
+}
+
+const TAG_COLORS = ['#ef4444', '#f97316', '#eab308', '#a855f7', '#3b82f6', '#64748b'];
+const TOP_GROUPS = 10;
+const tooltipStyle = { backgroundColor: '#121212', border: '1px solid #333', color: '#fef3c7' };
+
+const Keywords: React.FC<{ title: string; words: KeywordCount[]; color: string }> = ({ title, words, color }) => (
+  <div>
+    <p className="text-[10px] text-gray-500 uppercase tracking-widest mb-2">{title}</p>
+    {words.length === 0 ? (
+      <p className="text-[11px] text-gray-600">None yet</p>
+    ) : (
+      <div className="flex flex-wrap gap-1.5">
+        {words.map(w => (
+          <span key={w.word} className="px-2 py-0.5 rounded bg-white/5 text-[11px]" style={{ color }}>
+            {w.word} <span className="text-gray-600">{w.count}</span>
+          </span>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+/** Weekly complaint counts as a row of small bars. */
+const WeeklyBars: React.FC<{ weekly: number[]; max: number }> = ({ weekly, max }) => (
+  <div className="flex items-end gap-px h-4">
+    {weekly.map((count, i) => (
+      <div
+        key={i}
+        className={count > 0 ? 'bg-red-500/70 w-1.5' : 'bg-white/5 w-1.5'}
+        style={{ height: `${count > 0 ? Math.max(25, (count / (max || 1)) * 100) : 15}%` }}
+      />
+    ))}
+  </div>
+);
+
+const ComplaintTable: React.FC<{ title: string; groups: ComplaintTagGroup[] }> = ({ title, groups }) => {
+  const max = Math.max(0, ...groups.flatMap(g => g.weekly));
+  return (
+    <div>
+      <p className="text-[10px] text-gray-500 uppercase tracking-widest mb-2">{title}</p>
+      <table className="w-full text-left text-xs text-gray-400">
+        <thead className="text-[10px] uppercase text-gray-500">
+          <tr>
+            <th className="py-1.5"></th>
+            <th className="py-1.5 text-right">Complaints</th>
+            <th className="py-1.5 text-right">Of orders</th>
+            <th className="py-1.5 pl-4">By week</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5">
+          {groups.slice(0, TOP_GROUPS).map(g => (
+            <tr key={g.key} title={Object.entries(g.byTag).map(([tag, count]) => `${tag}: ${count}`).join('\n')}>
+              <td className="py-1.5 text-[#fef3c7]">{g.key}</td>
+              <td className="py-1.5 text-right">{g.complaints}</td>
+              <td className="py-1.5 text-right">{g.complaintRate.toFixed(1)}%</td>
+              <td className="py-1.5 pl-4"><WeeklyBars weekly={g.weekly} max={max} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const ReviewAnalytics: React.FC<ReviewAnalyticsProps> = ({ orders, revision, timeSettings, onOpenOrder }) => {
+  const [restaurant, setRestaurant] = useState<string>('all');
+
+  const restaurants = useMemo(() => Array.from(new Set(orders.map(o => o.restaurantName))).sort(), [orders]);
+  const report = useMemo(
+    () => analyzeReviews(restaurant === 'all' ? orders : orders.filter(o => o.restaurantName === restaurant), timeSettings),
+    [orders, restaurant, timeSettings, revision]
+  );
+
+  const tagTrend = useMemo(() => {
+    const tags = report.complaints.byTag.slice(0, TAG_COLORS.length).map(t => t.tag);
+    return {
+      tags,
+      data: report.complaints.trend.map(({ week, counts }) => ({
+        week: formatBusinessDate(week),
+        ...Object.fromEntries(tags.map(tag => [tag, counts[tag] || 0])),
+      })),
+    };
+  }, [report]);
+
+  if (report.reviewed === 0 && report.complaints.total === 0) {
+    return (
+      <div className="text-center text-gray-500 text-sm py-10">
+        No reviews or complaint tags in the loaded orders. Import order history exports that include the "Review" and "Customer complaint tag" columns.
+      </div>
+    );
+  }
+
+  const aspects = report.aspects.filter(a => a.mentions > 0);
+
+  return (
+    <div className="space-y-6 pb-10">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <p className="text-[11px] text-gray-500">
+          Sentiment and complaint themes are scored on this device from a word list, so they work without the AI service.
+        </p>
+        {restaurants.length > 1 && (
+          <select
+            value={restaurant}
+            onChange={e => setRestaurant(e.target.value)}
+            className="bg-[#0b1220] border border-white/10 rounded px-2 py-1 text-xs text-gray-300"
+          >
+            <option value="all">All restaurants</option>
+            {restaurants.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: 'Written reviews', value: report.reviewed.toLocaleString(), sub: `${report.sentimentCounts.neutral} neutral` },
+          {
+            label: 'Positive',
+            value: report.sentimentCounts.positive.toLocaleString(),
+            sub: report.reviewed > 0 ? `${((report.sentimentCounts.positive / report.reviewed) * 100).toFixed(0)}% of reviews` : '-',
+          },
+          {
+            label: 'Negative',
+            value: report.sentimentCounts.negative.toLocaleString(),
+            sub: report.reviewed > 0 ? `${((report.sentimentCounts.negative / report.reviewed) * 100).toFixed(0)}% of reviews` : '-',
+          },
+          { label: 'Complaint tags', value: report.complaints.total.toLocaleString(), sub: report.complaints.byTag[0]?.tag ?? 'None' },
+        ].map(stat => (
+          <div key={stat.label} className="bg-[#1c1c1e] p-4 rounded-lg border border-white/5">
+            <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">{stat.label}</p>
+            <p className="text-xl font-medium text-[#fef3c7] mt-1">{stat.value}</p>
+            <p className="text-[11px] text-gray-500 mt-0.5 truncate">{stat.sub}</p>
+          </div>
+        ))}
+      </div>
+
+      {report.reviewed > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 h-80">
+            <h3 className="text-xs font-bold text-orange-500 mb-4 uppercase tracking-widest">What Reviews Mention</h3>
+            {aspects.length === 0 ? (
+              <p className="text-[11px] text-gray-600">No taste, quantity, packaging, delivery or temperature mentions yet.</p>
+            ) : (
+              <ResponsiveContainer width="100%" height="85%">
+                <BarChart data={aspects.map(a => ({ aspect: REVIEW_ASPECT_LABELS[a.aspect], negative: a.negative, other: a.mentions - a.negative }))} layout="vertical" margin={{ left: 0, right: 20 }}>
+                  <XAxis type="number" hide allowDecimals={false} />
+                  <YAxis dataKey="aspect" type="category" width={140} tick={{ fontSize: 10, fill: '#a3a3a3' }} axisLine={false} tickLine={false} />
+                  <Tooltip cursor={{ fill: 'rgba(255,255,255,0.05)' }} contentStyle={tooltipStyle} />
+                  <Bar dataKey="negative" name="Negative" stackId="a" fill={REVIEW_SENTIMENT_COLORS.negative} barSize={18} />
+                  <Bar dataKey="other" name="Positive / neutral" stackId="a" fill={REVIEW_SENTIMENT_COLORS.positive} radius={[0, 4, 4, 0]} barSize={18} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+
+          <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 h-80">
+            <h3 className="text-xs font-bold text-orange-500 mb-4 uppercase tracking-widest">Review Sentiment by Week</h3>
+            <ResponsiveContainer width="100%" height="85%">
+              <BarChart data={report.sentimentTrend.map(t => ({ ...t, week: formatBusinessDate(t.week) }))}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
+                <XAxis dataKey="week" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} allowDecimals={false} />
+                <Tooltip cursor={{ fill: 'rgba(255,255,255,0.05)' }} contentStyle={tooltipStyle} />
+                <Legend wrapperStyle={{ fontSize: '11px', color: '#a3a3a3' }} />
+                {(['negative', 'neutral', 'positive'] as const).map(sentiment => (
+                  <Bar key={sentiment} dataKey={sentiment} name={sentiment[0].toUpperCase() + sentiment.slice(1)} stackId="s" fill={REVIEW_SENTIMENT_COLORS[sentiment]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {report.reviewed > 0 && (
+        <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Keywords title="Words in negative reviews" words={report.negativeKeywords} color="#fca5a5" />
+          <Keywords title="Words in positive reviews" words={report.positiveKeywords} color="#6ee7b7" />
+        </div>
+      )}
+
+      {report.complaints.total > 0 && (
+        <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5 space-y-6">
+          <div className="flex items-baseline justify-between">
+            <h3 className="text-xs font-bold text-orange-500 uppercase tracking-widest">Complaint Tags</h3>
+            <span className="text-[10px] text-gray-500">
+              {report.complaints.byTag.map(t => `${t.tag} ${t.count}`).join(' · ')}
+            </span>
+          </div>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={tagTrend.data}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.1} stroke="#fff" />
+                <XAxis dataKey="week" stroke="#525252" fontSize={10} tickLine={false} axisLine={false} />
+                <YAxis stroke="#525252" fontSize={10} tickLine={false} axisLine={false} allowDecimals={false} />
+                <Tooltip cursor={{ fill: 'rgba(255,255,255,0.05)' }} contentStyle={tooltipStyle} />
+                <Legend wrapperStyle={{ fontSize: '11px', color: '#a3a3a3' }} />
+                {tagTrend.tags.map((tag, i) => (
+                  <Bar key={tag} dataKey={tag} stackId="t" fill={TAG_COLORS[i]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ComplaintTable title="By item" groups={report.complaints.byItem} />
+            <ComplaintTable title="By restaurant" groups={report.complaints.byRestaurant} />
+          </div>
+          <p className="text-[10px] text-gray-600">
+            An order with several items counts toward each of them. Bars run from the week of {formatBusinessDate(report.complaints.weeks[0])} to the week of {formatBusinessDate(report.complaints.weeks[report.complaints.weeks.length - 1])}.
+          </p>
+        </div>
+      )}
+
+      {report.negativeReviews.length > 0 && (
+        <div className="bg-[#1c1c1e] p-6 rounded-xl border border-white/5">
+          <h3 className="text-xs font-bold text-orange-500 mb-4 uppercase tracking-widest">Negative Reviews ({report.negativeReviews.length})</h3>
+          <div className="divide-y divide-white/5 max-h-[480px] overflow-auto">
+            {report.negativeReviews.map(r => (
+              <div key={r.orderId} className="py-3 flex gap-4 items-start">
+                <div className="w-28 shrink-0 text-[11px] text-gray-500">
+                  <p>{formatBusinessDate(r.date)}</p>
+                  <p className="text-yellow-400/80">{r.rating ? `${r.rating} ★` : 'No rating'}</p>
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-xs text-[#fef3c7] break-words">{r.review}</p>
+                  <div className="flex flex-wrap gap-1.5 text-[10px]">
+                    {r.aspects.map(aspect => (
+                      <span key={aspect} className="px-1.5 py-0.5 rounded bg-red-900/30 text-red-300">{REVIEW_ASPECT_LABELS[aspect]}</span>
+                    ))}
+                    {r.complaintTag && <span className="px-1.5 py-0.5 rounded bg-white/5 text-gray-400">{r.complaintTag}</span>}
+                    {restaurants.length > 1 && <span className="text-gray-600">{r.restaurantName}</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onOpenOrder(r.orderId)}
+                  className="shrink-0 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded bg-white/5 text-gray-400 hover:text-[#fef3c7]"
+                  title="Show this order in Raw Data"
+                >
+                  {r.orderId}
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewAnalytics;
@@ -1,7 +1,31 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { OrderStatus, ZomatoOrder } from '../types';
+import { KitchenTimeSettings, isValidTimeZone } from '../services/kitchenTimeService';
+import { RateCard } from '../services/payoutService';
+import RateCardEditor from './RateCardEditor';
+import { ORDER_STATUS_LABELS, StatusMapping, defaultOrderStatus, summarizeRawStatuses } from '../services/orderStatusService';
 
 type Props = {
   onClose: () => void;
+  timeSettings: KitchenTimeSettings;
+  onSaveTimeSettings: (settings: KitchenTimeSettings) => void;
+  orders: ZomatoOrder[];
+  statusMapping: StatusMapping;
+  onSaveStatusMapping: (mapping: StatusMapping) => void;
+  rateCards: RateCard[];
+  onSaveRateCards: (cards: RateCard[]) => void;
+};
+
+const COMMON_TIME_ZONES = ['Asia/Kolkata', 'Asia/Dubai', 'Asia/Singapore', 'Europe/London', 'America/New_York', 'UTC'];
+
+const listTimeZones = (current: string): string[] => {
+  let zones = COMMON_TIME_ZONES;
+  try {
+    zones = Intl.supportedValuesOf('timeZone');
+  } catch {
+    // Older browsers: fall back to the short list
+  }
+  return zones.includes(current) ? zones : [current, ...zones];
 };
 
 const ls = {
@@ -9,10 +33,26 @@ const ls = {
   set: (k: string, v: string) => localStorage.setItem(k, v),
 };
 
-const Settings: React.FC<Props> = ({ onClose }) => {
+const Settings: React.FC<Props> = ({ onClose, timeSettings, onSaveTimeSettings, orders, statusMapping, onSaveStatusMapping, rateCards, onSaveRateCards }) => {
   const [url, setUrl] = useState('');
   const [exact, setExact] = useState('');
   const [model, setModel] = useState('');
+  const [timeZone, setTimeZone] = useState(timeSettings.timeZone);
+  const [dayStartHour, setDayStartHour] = useState(timeSettings.businessDayStartHour);
+  const [statusDraft, setStatusDraft] = useState<StatusMapping>(statusMapping);
+  const [rateCardsDraft, setRateCardsDraft] = useState<RateCard[]>(rateCards);
+  const restaurants = useMemo(() => Array.from(new Set(orders.map(o => o.restaurantName))).sort(), [orders]);
+  const rawStatuses = useMemo(() => summarizeRawStatuses(orders, statusDraft), [orders, statusDraft]);
+
+  // Only values that differ from the built-in rules are kept as overrides.
+  const setStatusOverride = (key: string, raw: string, status: OrderStatus) => {
+    setStatusDraft(prev => {
+      const next = { ...prev };
+      if (status === defaultOrderStatus(raw)) delete next[key];
+      else next[key] = status;
+      return next;
+    });
+  };
 
   useEffect(() => {
     setUrl(ls.get('localAi.url') || 'http://localhost:11434');
@@ -24,6 +64,15 @@ const Settings: React.FC<Props> = ({ onClose }) => {
     ls.set('localAi.url', url);
     ls.set('localAi.exactUrl', exact);
     ls.set('localAi.model', model);
+    if (isValidTimeZone(timeZone)) {
+      onSaveTimeSettings({ timeZone, businessDayStartHour: dayStartHour });
+    }
+    if (JSON.stringify(statusDraft) !== JSON.stringify(statusMapping)) {
+      onSaveStatusMapping(statusDraft);
+    }
+    if (JSON.stringify(rateCardsDraft) !== JSON.stringify(rateCards)) {
+      onSaveRateCards(rateCardsDraft);
+    }
     alert('Settings saved. Reload the app if needed.');
     onClose();
   };
@@ -92,7 +141,7 @@ const Settings: React.FC<Props> = ({ onClose }) => {
 
   return (
     <div className="fixed inset-0 z-60 flex items-center justify-center bg-black/60">
-      <div className="w-full max-w-xl mx-4 bg-[#0f1724] border border-white/5 rounded-lg p-6">
+      <div className="w-full max-w-xl mx-4 max-h-[90vh] overflow-auto bg-[#0f1724] border border-white/5 rounded-lg p-6">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-sm font-bold">AI / Local LLM Settings</h3>
           <button onClick={onClose} className="text-gray-400 hover:text-white">Close</button>
@@ -117,6 +166,64 @@ const Settings: React.FC<Props> = ({ onClose }) => {
             <p className="text-[11px] text-gray-500 mt-1">Example: <code>llama3</code> or <code>phi-3mini</code></p>
           </div>
 
+          <div className="border-t border-white/5 pt-4">
+            <h4 className="text-xs font-bold mb-3">Kitchen Clock</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Timezone</label>
+                <select value={timeZone} onChange={e => setTimeZone(e.target.value)} className="w-full bg-[#0b1220] border border-white/5 rounded px-3 py-2 text-sm">
+                  {listTimeZones(timeZone).map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Business day starts at</label>
+                <select value={dayStartHour} onChange={e => setDayStartHour(Number(e.target.value))} className="w-full bg-[#0b1220] border border-white/5 rounded px-3 py-2 text-sm">
+                  {Array.from({ length: 12 }, (_, h) => <option key={h} value={h}>{`${String(h).padStart(2, '0')}:00`}</option>)}
+                </select>
+              </div>
+            </div>
+            <p className="text-[11px] text-gray-500 mt-1">
+              Orders before the start hour count towards the previous day. Applies to dashboards and AI summaries now, and to CSV timestamps on the next import.
+            </p>
+          </div>
+
+          <div className="border-t border-white/5 pt-4">
+            <h4 className="text-xs font-bold mb-3">Order Statuses</h4>
+            {rawStatuses.length === 0 ? (
+              <p className="text-[11px] text-gray-500">Statuses from your imports appear here once orders are loaded.</p>
+            ) : (
+              <div className="max-h-48 overflow-auto space-y-1.5 pr-1">
+                {rawStatuses.map(entry => (
+                  <div key={entry.key} className="flex items-center justify-between gap-3">
+                    <span className="text-xs text-gray-300 truncate">
+                      {entry.raw} <span className="text-gray-600">({entry.count})</span>
+                    </span>
+                    <select
+                      value={entry.status}
+                      onChange={e => setStatusOverride(entry.key, entry.raw, e.target.value as OrderStatus)}
+                      className={`w-48 bg-[#0b1220] border rounded px-2 py-1 text-xs ${entry.overridden ? 'border-orange-500/40' : 'border-white/5'}`}
+                    >
+                      {Object.values(OrderStatus).map(status => (
+                        <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-[11px] text-gray-500 mt-1">
+              How each exported status counts in metrics. Highlighted rows override the built-in rules.
+            </p>
+          </div>
+
+          <div className="border-t border-white/5 pt-4">
+            <h4 className="text-xs font-bold mb-3">Payout Rate Cards</h4>
+            <RateCardEditor cards={rateCardsDraft} restaurants={restaurants} onChange={setRateCardsDraft} />
+            <p className="text-[11px] text-gray-500 mt-1">
+              Contract terms used for net payout. The latest card effective on an order's business day applies; restaurant-specific cards win over channel-wide ones.
+            </p>
+          </div>
+
           <div className="flex flex-col gap-3">
             <div className="flex items-center justify-between gap-3">
               <div className="flex items-center gap-2">
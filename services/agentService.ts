@@ -1,4 +1,5 @@
 import { ZomatoOrder, InsightResponse } from '../types';
+import { countItemQuantities } from './orderItems';
 
 /**
  * agentService — attempts to call a local model (Ollama / phi-3mini) running on the user's machine.
@@ -28,17 +29,7 @@ async function tryFetchJson(url: string, body: any) {
 function buildPrompt(orders: ZomatoOrder[], userName: string) {
   const totalRevenue = orders.reduce((sum, o) => sum + (o.totalAmount || 0), 0);
   const totalOrders = orders.length;
-  const itemsMap: Record<string, number> = {};
-  orders.forEach(o => {
-    if (o.items) {
-      const parts = o.items.split(',');
-      parts.forEach(p => {
-        const name = p.replace(/^\d+\s*[xX]\s*/, '').trim();
-        itemsMap[name] = (itemsMap[name] || 0) + 1;
-      });
-    }
-  });
-  const topItems = Object.entries(itemsMap).sort((a,b)=>b[1]-a[1]).slice(0,5).map(x=>x[0]).join(', ');
+  const topItems = countItemQuantities(orders).slice(0,5).map(x=>x.name).join(', ');
 
   return `You are KitchenOS AI, an agentic analytics assistant for a cloud kitchen owned by ${userName}.\n\n`+
     `DATA_SUMMARY:\n- GrossRevenue: ₹${totalRevenue.toFixed(2)}\n- TotalOrders: ${totalOrders}\n- TopItems: ${topItems}\n\n`+
@@ -0,0 +1,373 @@
+import { ZomatoOrder } from "../types";
+import {
+  KitchenTimeSettings, addDays, businessDate, formatBusinessDate, kitchenMinuteOfDay, kitchenTimeService
+} from "./kitchenTimeService";
+import { ORDER_SOURCE_LABELS, getOrderSource } from "./channelService";
+import { isDelivered, isFailedOrder } from "./orderStatusService";
+
+/**
+ * Anomaly detection on daily KPIs.
+ *
+ * Each business day is compared with the same weekday over the previous
+ * BASELINE_WEEKS weeks. The baseline is the median of those days and the
+ * spread their median absolute deviation (scaled to a standard deviation),
+ * so one earlier bad day doesn't hide the next. Small baselines get a
+ * per-metric minimum spread; rate and average metrics skip days with too
+ * few orders to mean anything.
+ *
+ * The latest day in an upload is often a partial export. Unless it has ended
+ * (a later business day has begun) and its last order came no earlier than
+ * usual for that weekday, totals (orders, revenue) aren't scored for it;
+ * rates and averages still are.
+ *
+ * Flagged days are broken down by city, restaurant and channel: each
+ * segment's deviation from its own weekday baseline, weighted by its volume
+ * that day, shows where the change came from.
+ *
+ * Acknowledge / snooze state is kept per user in localStorage.
+ */
+
+export type AnomalyMetric = 'orders' | 'revenue' | 'cancellation_rate' | 'avg_rating' | 'avg_kpt';
+export type AlertSeverity = 'critical' | 'warning' | 'info';
+export type BreakdownDimension = 'city' | 'restaurant' | 'channel';
+
+export const ALERT_SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  critical: '#ef4444',
+  warning: '#f97316',
+  info: '#3b82f6',
+};
+
+export const BREAKDOWN_DIMENSION_LABELS: Record<BreakdownDimension, string> = {
+  city: 'City',
+  restaurant: 'Restaurant',
+  channel: 'Channel',
+};
+
+export interface AlertContribution {
+  dimension: BreakdownDimension;
+  segment: string;
+  value: number;
+  baseline: number;
+  share: number; // % of the day's deviation in the alert's direction
+}
+
+export interface AnomalyAlert {
+  id: string; // `${date}:${metric}`, stable across reloads
+  date: string; // Business date, YYYY-MM-DD
+  metric: AnomalyMetric;
+  label: string;
+  value: number;
+  baseline: number;
+  zScore: number;
+  direction: 'up' | 'down';
+  severity: AlertSeverity;
+  message: string;
+  breakdown: AlertContribution[]; // Largest share first
+}
+
+export interface AlertStateEntry {
+  acknowledgedAt?: number;
+  snoozedUntil?: number;
+}
+
+export type AlertState = Record<string, AlertStateEntry>;
+
+interface Measurement {
+  value: number;
+  count: number; // Orders (or rated / timed orders) behind the value
+}
+
+interface MetricDefinition {
+  label: string;
+  goodDirection: 'up' | 'down';
+  total: boolean; // Sum-like: a day without orders counts as zero
+  minCount: number; // Fewest data points before a day is scored
+  minScale: (baseline: number) => number;
+  measure: (orders: ZomatoOrder[]) => Measurement | null;
+  format: (value: number) => string;
+}
+
+const average = (values: number[]): Measurement | null =>
+  values.length > 0 ? { value: values.reduce((a, b) => a + b, 0) / values.length, count: values.length } : null;
+
+export const ANOMALY_METRICS: Record<AnomalyMetric, MetricDefinition> = {
+  orders: {
+    label: 'Orders',
+    goodDirection: 'up',
+    total: true,
+    minCount: 0,
+    minScale: (baseline) => Math.max(1, baseline * 0.1),
+    measure: (orders) => ({ value: orders.length, count: orders.length }),
+    format: (value) => `${Math.round(value)}`,
+  },
+  revenue: {
+    label: 'Delivered revenue',
+    goodDirection: 'up',
+    total: true,
+    minCount: 0,
+    minScale: (baseline) => Math.max(100, baseline * 0.1),
+    measure: (orders) => {
+      const delivered = orders.filter(isDelivered);
+      return { value: delivered.reduce((sum, o) => sum + o.totalAmount, 0), count: delivered.length };
+    },
+    format: (value) => `₹${Math.round(value).toLocaleString()}`,
+  },
+  cancellation_rate: {
+    label: 'Cancellation rate',
+    goodDirection: 'down',
+    total: false,
+    minCount: 5,
+    minScale: () => 5,
+    measure: (orders) =>
+      orders.length > 0 ? { value: (orders.filter(isFailedOrder).length / orders.length) * 100, count: orders.length } : null,
+    format: (value) => `${value.toFixed(1)}%`,
+  },
+  avg_rating: {
+    label: 'Average rating',
+    goodDirection: 'up',
+    total: false,
+    minCount: 3,
+    minScale: () => 0.2,
+    measure: (orders) => average(orders.map((o) => o.rating).filter((r): r is number => typeof r === 'number' && r > 0)),
+    format: (value) => value.toFixed(2),
+  },
+  avg_kpt: {
+    label: 'Average KPT',
+    goodDirection: 'down',
+    total: false,
+    minCount: 3,
+    minScale: () => 2,
+    measure: (orders) =>
+      average(orders.map((o) => o.kptMinutes).filter((m): m is number => typeof m === 'number' && Number.isFinite(m) && m >= 0)),
+    format: (value) => `${value.toFixed(1)} min`,
+  },
+};
+
+const BASELINE_WEEKS = 8;
+const MIN_BASELINE_DAYS = 3;
+const ALERT_WINDOW_DAYS = 28; // Only the most recent days of data are scored
+const WARNING_Z = 3;
+const CRITICAL_Z = 5;
+const MAD_TO_SD = 1.4826;
+const MAX_CONTRIBUTIONS = 5;
+const PARTIAL_DAY_SLACK_MINUTES = 60; // Last order this much earlier than usual marks a cut-off export
+const ALERT_STATE_KEY_PREFIX = 'klos_alert_state_';
+
+const DIMENSIONS: Record<BreakdownDimension, (order: ZomatoOrder) => string> = {
+  city: (order) => order.city?.trim() || 'Unknown city',
+  restaurant: (order) => order.restaurantName || 'Unknown restaurant',
+  channel: (order) => ORDER_SOURCE_LABELS[getOrderSource(order)],
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/** Day value for a metric, or null when the day has too little data to score. */
+function measureDay(definition: MetricDefinition, orders: ZomatoOrder[]): Measurement | null {
+  const measurement = definition.measure(orders);
+  if (!measurement) return definition.total ? { value: 0, count: 0 } : null;
+  return measurement.count >= definition.minCount ? measurement : null;
+}
+
+/** Same weekday over the previous weeks, most recent first. */
+const baselineDates = (date: string) =>
+  Array.from({ length: BASELINE_WEEKS }, (_, i) => addDays(date, -7 * (i + 1)));
+
+function explain(
+  definition: MetricDefinition,
+  baseDates: string[],
+  dayOrders: ZomatoOrder[],
+  ordersByDate: Map<string, ZomatoOrder[]>,
+  direction: 'up' | 'down'
+): AlertContribution[] {
+  const sign = direction === 'up' ? 1 : -1;
+  const contributions: AlertContribution[] = [];
+
+  (Object.keys(DIMENSIONS) as BreakdownDimension[]).forEach((dimension) => {
+    const segmentOf = DIMENSIONS[dimension];
+    const segments = new Set(dayOrders.map(segmentOf));
+    baseDates.forEach((d) => (ordersByDate.get(d) ?? []).forEach((o) => segments.add(segmentOf(o))));
+    if (segments.size < 2) return;
+
+    const rows = Array.from(segments).map((segment) => {
+      const today = measureDay(definition, dayOrders.filter((o) => segmentOf(o) === segment));
+      const history = baseDates
+        .map((d) => measureDay(definition, (ordersByDate.get(d) ?? []).filter((o) => segmentOf(o) === segment)))
+        .filter((m): m is Measurement => m !== null);
+      if (!today || history.length === 0) return null;
+      const baseline = median(history.map((m) => m.value));
+      const weight = definition.total ? 1 : today.count;
+      return { segment, value: today.value, baseline, contribution: sign * (today.value - baseline) * weight };
+    }).filter((row): row is NonNullable<typeof row> => row !== null && row.contribution > 0);
+
+    const total = rows.reduce((sum, row) => sum + row.contribution, 0);
+    rows.forEach((row) => contributions.push({
+      dimension,
+      segment: row.segment,
+      value: row.value,
+      baseline: row.baseline,
+      share: total > 0 ? (row.contribution / total) * 100 : 0,
+    }));
+  });
+
+  return contributions.sort((a, b) => b.share - a.share).slice(0, MAX_CONTRIBUTIONS);
+}
+
+/** Minutes since the business day started. */
+const businessMinute = (ms: number, settings: KitchenTimeSettings) =>
+  (kitchenMinuteOfDay(ms, settings) - settings.businessDayStartHour * 60 + 1440) % 1440;
+
+const lastOrderMinute = (orders: ZomatoOrder[], settings: KitchenTimeSettings) =>
+  orders.reduce((latest, o) => Math.max(latest, businessMinute(o.orderPlacedAt, settings)), 0);
+
+/** Whether the latest day in the data is over, rather than cut off mid-service. */
+function isDayComplete(
+  date: string,
+  ordersByDate: Map<string, ZomatoOrder[]>,
+  firstDate: string,
+  settings: KitchenTimeSettings,
+  now: number
+): boolean {
+  if (date >= businessDate(now, settings)) return false;
+  const usual = baselineDates(date)
+    .filter((d) => d >= firstDate)
+    .map((d) => ordersByDate.get(d) ?? [])
+    .filter((list) => list.length > 0)
+    .map((list) => lastOrderMinute(list, settings));
+  if (usual.length < MIN_BASELINE_DAYS) return true;
+  return lastOrderMinute(ordersByDate.get(date) ?? [], settings) >= median(usual) - PARTIAL_DAY_SLACK_MINUTES;
+}
+
+/** Unusual days across the KPIs, newest first and most severe first within a day. */
+export function detectAnomalies(
+  orders: ZomatoOrder[],
+  settings: KitchenTimeSettings = kitchenTimeService.getActive(),
+  now: number = Date.now()
+): AnomalyAlert[] {
+  const ordersByDate = new Map<string, ZomatoOrder[]>();
+  orders.forEach((order) => {
+    const date = businessDate(order.orderPlacedAt, settings);
+    const list = ordersByDate.get(date) ?? [];
+    list.push(order);
+    ordersByDate.set(date, list);
+  });
+  if (ordersByDate.size === 0) return [];
+
+  const dates = Array.from(ordersByDate.keys()).sort();
+  const firstDate = dates[0];
+  const lastDate = dates[dates.length - 1];
+  const windowStart = addDays(lastDate, -(ALERT_WINDOW_DAYS - 1));
+  const lastDayComplete = isDayComplete(lastDate, ordersByDate, firstDate, settings, now);
+
+  const alerts: AnomalyAlert[] = [];
+  for (let date = windowStart < firstDate ? firstDate : windowStart; date <= lastDate; date = addDays(date, 1)) {
+    const dayOrders = ordersByDate.get(date) ?? [];
+    // Days before the first upload aren't zero-order days
+    const baseDates = baselineDates(date).filter((d) => d >= firstDate);
+
+    (Object.keys(ANOMALY_METRICS) as AnomalyMetric[]).forEach((metric) => {
+      const definition = ANOMALY_METRICS[metric];
+      if (definition.total && date === lastDate && !lastDayComplete) return;
+      const today = measureDay(definition, dayOrders);
+      if (!today) return;
+      const history = baseDates
+        .map((d) => measureDay(definition, ordersByDate.get(d) ?? []))
+        .filter((m): m is Measurement => m !== null)
+        .map((m) => m.value);
+      if (history.length < MIN_BASELINE_DAYS) return;
+
+      const baseline = median(history);
+      const spread = Math.max(MAD_TO_SD * median(history.map((v) => Math.abs(v - baseline))), definition.minScale(baseline));
+      const zScore = (today.value - baseline) / spread;
+      if (Math.abs(zScore) < WARNING_Z) return;
+
+      const direction = zScore > 0 ? 'up' : 'down';
+      const severity: AlertSeverity = direction === definition.goodDirection
+        ? 'info'
+        : Math.abs(zScore) >= CRITICAL_Z ? 'critical' : 'warning';
+      const breakdown = explain(definition, baseDates, dayOrders, ordersByDate, direction);
+      const weekday = formatBusinessDate(date, { weekday: 'long' });
+      const top = breakdown[0];
+      alerts.push({
+        id: `${date}:${metric}`,
+        date,
+        metric,
+        label: definition.label,
+        value: today.value,
+        baseline,
+        zScore,
+        direction,
+        severity,
+        message: `${definition.label} ${direction === 'up' ? 'rose' : 'fell'} to ${definition.format(today.value)} on ${formatBusinessDate(date)} ` +
+          `vs a usual ${definition.format(baseline)} for ${weekday}s` +
+          (top && top.share >= 50 ? `, mostly ${top.segment} (${definition.format(top.value)} vs ${definition.format(top.baseline)})` : ''),
+        breakdown,
+      });
+    });
+  }
+
+  const rank: Record<AlertSeverity, number> = { critical: 0, warning: 1, info: 2 };
+  return alerts.sort((a, b) => b.date.localeCompare(a.date) || rank[a.severity] - rank[b.severity] || Math.abs(b.zScore) - Math.abs(a.zScore));
+}
+
+/** Not acknowledged and not snoozed at `now`. */
+export const isAlertActive = (alert: AnomalyAlert, state: AlertState, now = Date.now()): boolean => {
+  const entry = state[alert.id];
+  return !entry?.acknowledgedAt && !(entry?.snoozedUntil && entry.snoozedUntil > now);
+};
+
+export const alertStateService = {
+  load(userId: string): AlertState {
+    try {
+      const raw = localStorage.getItem(`${ALERT_STATE_KEY_PREFIX}${userId}`);
+      const parsed = raw ? JSON.parse(raw) : {};
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (err) {
+      console.warn('Failed to read alert state:', err);
+      return {};
+    }
+  },
+
+  /**
+   * Set or clear one alert's state. Entries that can no longer matter are
+   * dropped on the way: expired snoozes, and alerts dated more than the
+   * detection window before this one (which is inside the window, so they
+   * have left it). Returns the saved state, unchanged when storage is full.
+   */
+  update(userId: string, alertId: string, entry: AlertStateEntry | null): AlertState {
+    const current = alertStateService.load(userId);
+    const oldest = addDays(alertId.split(':')[0], -(ALERT_WINDOW_DAYS - 1));
+    const now = Date.now();
+    const next: AlertState = {};
+    Object.entries(current).forEach(([id, state]) => {
+      if (id.split(':')[0] < oldest) return;
+      if (!state.acknowledgedAt && !(state.snoozedUntil && state.snoozedUntil > now)) return;
+      next[id] = state;
+    });
+    if (entry) next[alertId] = entry;
+    else delete next[alertId];
+    try {
+      localStorage.setItem(`${ALERT_STATE_KEY_PREFIX}${userId}`, JSON.stringify(next));
+      return next;
+    } catch (err) {
+      console.warn('Failed to save alert state:', err);
+      return current;
+    }
+  },
+
+  acknowledge(userId: string, alertId: string): AlertState {
+    return alertStateService.update(userId, alertId, { acknowledgedAt: Date.now() });
+  },
+
+  snooze(userId: string, alertId: string, days: number): AlertState {
+    return alertStateService.update(userId, alertId, { snoozedUntil: Date.now() + days * 24 * 60 * 60 * 1000 });
+  },
+
+  /** Put an acknowledged or snoozed alert back in the feed. */
+  restore(userId: string, alertId: string): AlertState {
+    return alertStateService.update(userId, alertId, null);
+  },
+};
@@ -0,0 +1,164 @@
+import { ZomatoOrder } from "../types";
+import { getOrderItems } from "./orderItems";
+import { canonicalItemName, menuCatalogService } from "./menuCatalogService";
+import { isDelivered } from "./orderStatusService";
+
+/**
+ * Market-basket analysis: which menu items are ordered together.
+ *
+ * Each delivered order is a basket of distinct canonical item names
+ * (quantities don't matter). Pairs and triples bought together in at least
+ * `minOrders` baskets are kept, with:
+ *   support    – share of all baskets containing the set
+ *   confidence – P(consequent | antecedent) for a rule
+ *   lift       – how much more often the set occurs than if items were
+ *                independent (> 1 means they attract each other)
+ *
+ * Bundle candidates are co-occurring sets with lift above 1, priced from the
+ * menu catalog at BUNDLE_DISCOUNT off the items' combined price.
+ */
+
+export interface ItemSet {
+  items: string[];
+  orders: number;
+  support: number; // % of baskets
+  lift: number;
+}
+
+export interface AssociationRule {
+  antecedent: string[];
+  consequent: string;
+  orders: number;
+  support: number; // %
+  confidence: number; // %
+  lift: number;
+}
+
+export interface BundleCandidate {
+  items: string[];
+  orders: number;
+  lift: number;
+  confidence: number; // % of the strongest rule inside the set
+  itemsPrice?: number; // Sum of menu prices; undefined when an item has no price
+  suggestedPrice?: number;
+  priceEstimated: boolean; // Some item price is an estimate from order history
+}
+
+export interface BasketReport {
+  baskets: number;
+  multiItemBaskets: number;
+  pairs: ItemSet[]; // Highest lift first
+  triples: ItemSet[];
+  rules: AssociationRule[]; // Highest confidence first
+  bundles: BundleCandidate[]; // Best first
+}
+
+export const BUNDLE_DISCOUNT = 0.1;
+const DEFAULT_MIN_ORDERS = 2;
+const MAX_ITEMS_PER_BASKET = 12; // Caps triple enumeration on unusually large orders
+
+const setKey = (items: string[]) => items.join('\u0000');
+
+function combinations(items: string[], size: number): string[][] {
+  if (size === 1) return items.map((item) => [item]);
+  const result: string[][] = [];
+  items.forEach((item, i) => {
+    combinations(items.slice(i + 1), size - 1).forEach((rest) => result.push([item, ...rest]));
+  });
+  return result;
+}
+
+export function analyzeBaskets(orders: ZomatoOrder[], minOrders = DEFAULT_MIN_ORDERS): BasketReport {
+  const baskets = orders
+    .filter(isDelivered)
+    .map((order) => Array.from(new Set(getOrderItems(order).map(canonicalItemName))).sort())
+    .filter((items) => items.length > 0);
+
+  const counts = new Map<string, number>();
+  const bump = (items: string[]) => counts.set(setKey(items), (counts.get(setKey(items)) ?? 0) + 1);
+  let multiItemBaskets = 0;
+  baskets.forEach((items) => {
+    items.forEach((item) => bump([item]));
+    if (items.length < 2) return;
+    multiItemBaskets += 1;
+    combinations(items, 2).forEach(bump);
+    if (items.length <= MAX_ITEMS_PER_BASKET) combinations(items, 3).forEach(bump);
+  });
+
+  const total = baskets.length;
+  const support = (items: string[]) => (counts.get(setKey(items)) ?? 0) / total;
+  const frequent = (size: number): ItemSet[] =>
+    Array.from(counts.entries())
+      .map(([key, count]) => ({ items: key.split('\u0000'), count }))
+      .filter(({ items, count }) => items.length === size && count >= minOrders)
+      .map(({ items, count }) => ({
+        items,
+        orders: count,
+        support: (count / total) * 100,
+        lift: (count / total) / items.reduce((product, item) => product * support([item]), 1),
+      }))
+      .sort((a, b) => b.lift - a.lift || b.orders - a.orders);
+
+  const pairs = frequent(2);
+  const triples = frequent(3);
+
+  const rules: AssociationRule[] = [];
+  [...pairs, ...triples].forEach((set) => {
+    set.items.forEach((consequent) => {
+      const antecedent = set.items.filter((item) => item !== consequent);
+      const confidence = (set.orders / total) / support(antecedent);
+      rules.push({
+        antecedent,
+        consequent,
+        orders: set.orders,
+        support: set.support,
+        confidence: confidence * 100,
+        lift: confidence / support([consequent]),
+      });
+    });
+  });
+  rules.sort((a, b) => b.confidence - a.confidence || b.lift - a.lift);
+
+  const bundles = [...pairs, ...triples]
+    .filter((set) => set.lift > 1)
+    .map((set) => {
+      const confidence = Math.max(...set.items.map((item) => (set.orders / total) / support(set.items.filter((other) => other !== item))));
+      const menuItems = set.items.map((name) => menuCatalogService.findItem(name));
+      const priced = menuItems.every((item) => item?.price !== undefined);
+      const itemsPrice = priced ? menuItems.reduce((sum, item) => sum + (item?.price ?? 0), 0) : undefined;
+      return {
+        items: set.items,
+        orders: set.orders,
+        lift: set.lift,
+        confidence: confidence * 100,
+        itemsPrice,
+        suggestedPrice: itemsPrice !== undefined ? Math.round((itemsPrice * (1 - BUNDLE_DISCOUNT)) / 5) * 5 : undefined,
+        priceEstimated: menuItems.some((item) => item?.priceEstimated),
+      };
+    })
+    // Frequent sets first, then the stronger attraction
+    .sort((a, b) => b.orders * Math.log2(1 + b.lift) - a.orders * Math.log2(1 + a.lift));
+
+  return { baskets: total, multiItemBaskets, pairs, triples, rules, bundles };
+}
+
+/** Basket analysis per restaurant, busiest first. */
+export function analyzeBasketsByRestaurant(orders: ZomatoOrder[], minOrders = DEFAULT_MIN_ORDERS): Array<{ restaurant: string; report: BasketReport }> {
+  const byRestaurant = new Map<string, ZomatoOrder[]>();
+  orders.forEach((order) => {
+    const list = byRestaurant.get(order.restaurantName) ?? [];
+    list.push(order);
+    byRestaurant.set(order.restaurantName, list);
+  });
+  return Array.from(byRestaurant.entries())
+    .map(([restaurant, list]) => ({ restaurant, report: analyzeBaskets(list, minOrders) }))
+    .sort((a, b) => b.report.baskets - a.report.baskets);
+}
+
+/** Bundle candidates as one line for AI prompts. */
+export function formatBundles(bundles: BundleCandidate[], limit = 3): string {
+  if (bundles.length === 0) return 'No items are regularly ordered together yet';
+  return bundles.slice(0, limit)
+    .map((b) => `${b.items.join(' + ')} (${b.orders} orders, lift ${b.lift.toFixed(1)}${b.suggestedPrice !== undefined ? `, combo ~₹${b.suggestedPrice}` : ''})`)
+    .join('; ');
+}
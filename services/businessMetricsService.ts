@@ -1,4 +1,15 @@
 import { ZomatoOrder } from '../types';
+import { summarizeChannels, ChannelSummary } from './channelService';
+import { KitchenTimeSettings, businessWeekStart, kitchenHour } from './kitchenTimeService';
+import { getOrderItems } from './orderItems';
+import { canonicalItemName } from './menuCatalogService';
+import { PayoutSummary, summarizePayouts } from './payoutService';
+import { KitchenOpsReport, analyzeKitchenOps } from './kitchenOpsService';
+import { GeoReport, analyzeGeo } from './geoService';
+import { getCancellationReason } from './cancellationReasonService';
+import { forecastDemand, sumForecast } from './forecastService';
+import { ComparisonMode, DateRange, comparisonRange, filterByRange, percentChange } from './periodService';
+import { ORDER_STATUS_LABELS, getOrderStatus, isDelivered, isFailedOrder, isRestaurantRejection } from './orderStatusService';
 
 export interface BusinessMetrics {
   totalOrders: number;
@@ -16,14 +27,36 @@ export interface BusinessMetrics {
   statusDistribution: { [key: string]: number };
   revenueByCity: { [key: string]: number };
   revenueByRestaurant: { [key: string]: number };
-  estimatedProfit: number;
-  zomatoCommission: number;
+  channelBreakdown: ChannelSummary[];
+  payout: PayoutSummary; // Rate-card payout breakdown
+  estimatedProfit: number; // Net payout after commission, GST, fees, discounts and penalties
+  zomatoCommission: number; // Aggregator commission incl. GST on it
+  kitchenOps: KitchenOpsReport; // KPT, rider wait and ready-marking analytics
+  geo: GeoReport; // Per subzone and delivery-distance band
+}
+
+export interface ReasonBreakdown {
+  reason: string;
+  controllable: boolean;
+  orders: number;
+  lostRevenue: number; // Order value that was never earned
+  penalties: number; // Charged by the aggregator
+  compensation: number; // Paid out by the aggregator
+  netImpact: number; // compensation - penalties; negative = cash out
 }
 
 export interface RejectionAnalysis {
-  totalRejected: number;
+  totalRejected: number; // Restaurant rejections and timeouts
   rejectionRate: number;
-  estimatedLoss: number;
+  failedOrders: number; // Every undelivered order, whoever cancelled it
+  lostRevenue: number;
+  penaltiesPaid: number;
+  compensationReceived: number;
+  netImpact: number; // compensationReceived - penaltiesPaid
+  estimatedLoss: number; // Unrecovered order value: lostRevenue - compensation + penalties
+  controllableLoss: number; // estimatedLoss from kitchen-controllable reasons
+  byReason: ReasonBreakdown[]; // Largest estimated loss first
+  reasonTrend: Array<{ week: string; counts: { [reason: string]: number } }>; // Business weeks, oldest first
   byCity: { [key: string]: number };
   byRestaurant: { [key: string]: number };
   byTimeOfDay: { [key: string]: number };
@@ -33,7 +66,21 @@ export interface InventoryInsight {
   topItems: Array<{ item: string; frequency: number; trend: 'up' | 'down' | 'stable' }>;
   recommendedStock: { [key: string]: number };
   byCity: { [key: string]: string[] };
-  predictedDemand: number;
+  predictedDemand: number; // Orders forecast for the next 7 days
+}
+
+export type ComparedMetric = 'totalOrders' | 'totalRevenue' | 'avgOrderValue' | 'avgRating' | 'completionRate' | 'rejectionRate' | 'estimatedProfit';
+
+// Rates compare in percentage points; everything else in % change
+const POINT_METRICS: ComparedMetric[] = ['completionRate', 'rejectionRate'];
+const COMPARED_METRICS: ComparedMetric[] = ['totalOrders', 'totalRevenue', 'avgOrderValue', 'avgRating', 'completionRate', 'rejectionRate', 'estimatedProfit'];
+
+export interface MetricsComparison {
+  range: DateRange;
+  compareRange: DateRange | null;
+  current: BusinessMetrics;
+  previous: BusinessMetrics | null; // null with ComparisonMode 'none'
+  deltas: Record<ComparedMetric, number | null>; // null when the previous period has no orders
 }
 
 class BusinessMetricsService {
@@ -46,9 +93,10 @@ class BusinessMetricsService {
     }
 
     const totalRevenue = orders.reduce((sum, o) => sum + o.totalAmount, 0);
-    const completedOrders = orders.filter(o => o.orderStatus === 'Completed').length;
-    const rejectedOrders = orders.filter(o => o.orderStatus === 'Rejected').length;
+    const completedOrders = orders.filter(isDelivered).length;
+    const rejectedOrders = orders.filter(isRestaurantRejection).length;
     const ratedOrders = orders.filter(o => o.rating !== undefined && o.rating !== null);
+    const payout = summarizePayouts(orders);
 
     return {
       totalOrders: orders.length,
@@ -68,18 +116,27 @@ class BusinessMetricsService {
       statusDistribution: this.getStatusDistribution(orders),
       revenueByCity: this.getRevenueByCity(orders),
       revenueByRestaurant: this.getRevenueByRestaurant(orders),
-      estimatedProfit: (totalRevenue * 0.65),
-      zomatoCommission: (totalRevenue * 0.35)
+      channelBreakdown: summarizeChannels(orders),
+      payout,
+      estimatedProfit: payout.netPayout,
+      zomatoCommission: payout.commission + payout.gstOnCommission,
+      kitchenOps: analyzeKitchenOps(orders),
+      geo: analyzeGeo(orders)
     };
   }
 
   /**
-   * Analyze rejection patterns
+   * Analyze rejection patterns and what failed orders cost, by reason
    */
   analyzeRejections(orders: ZomatoOrder[]): RejectionAnalysis {
-    const rejectedOrders = orders.filter(o => o.orderStatus === 'Rejected');
+    const rejectedOrders = orders.filter(isRestaurantRejection);
     const totalRejected = rejectedOrders.length;
-    const estimatedLoss = rejectedOrders.reduce((sum, o) => sum + o.totalAmount, 0);
+    const failedOrders = orders.filter(isFailedOrder);
+    const byReason = this.getLossesByReason(failedOrders);
+    const lostRevenue = byReason.reduce((sum, r) => sum + r.lostRevenue, 0);
+    const penaltiesPaid = byReason.reduce((sum, r) => sum + r.penalties, 0);
+    const compensationReceived = byReason.reduce((sum, r) => sum + r.compensation, 0);
+    const lossOf = (r: ReasonBreakdown) => r.lostRevenue - r.netImpact;
 
     const byCity: { [key: string]: number } = {};
     const byRestaurant: { [key: string]: number } = {};
@@ -95,15 +152,23 @@ class BusinessMetricsService {
       byRestaurant[order.restaurantName] = (byRestaurant[order.restaurantName] || 0) + 1;
 
       // By Time of Day
-      const hour = new Date(order.orderPlacedAt).getHours();
+      const hour = kitchenHour(order.orderPlacedAt);
       const timeSlot = this.getTimeSlot(hour);
       byTimeOfDay[timeSlot] = (byTimeOfDay[timeSlot] || 0) + 1;
     });
 
     return {
       totalRejected,
-      rejectionRate: (totalRejected / orders.length) * 100,
-      estimatedLoss,
+      rejectionRate: orders.length > 0 ? (totalRejected / orders.length) * 100 : 0,
+      failedOrders: failedOrders.length,
+      lostRevenue,
+      penaltiesPaid,
+      compensationReceived,
+      netImpact: compensationReceived - penaltiesPaid,
+      estimatedLoss: byReason.reduce((sum, r) => sum + lossOf(r), 0),
+      controllableLoss: byReason.filter(r => r.controllable).reduce((sum, r) => sum + lossOf(r), 0),
+      byReason,
+      reasonTrend: this.getReasonTrend(failedOrders),
       byCity,
       byRestaurant,
       byTimeOfDay
@@ -128,11 +193,12 @@ class BusinessMetricsService {
     // By city analysis
     const byCity: { [key: string]: string[] } = {};
     orders.forEach(order => {
-      if (order.city && order.items) {
+      const lineItems = getOrderItems(order);
+      if (order.city && lineItems.length > 0) {
         if (!byCity[order.city]) {
           byCity[order.city] = [];
         }
-        byCity[order.city].push(order.items);
+        byCity[order.city].push(...lineItems.map(item => item.name));
       }
     });
 
@@ -156,7 +222,7 @@ class BusinessMetricsService {
       topItems: trendComparison.slice(0, 10),
       recommendedStock,
       byCity,
-      predictedDemand: Math.ceil((orders.length / 30) * 1.1) // Monthly average + 10%
+      predictedDemand: Math.round(sumForecast(forecastDemand(orders, 7).daily.points).total)
     };
   }
 
@@ -164,8 +230,8 @@ class BusinessMetricsService {
    * Calculate pricing optimization
    */
   calculatePricingOptimization(orders: ZomatoOrder[]) {
-    const completed = orders.filter(o => o.orderStatus === 'Completed');
-    const abandoned = orders.filter(o => o.orderStatus === 'Rejected' || o.orderStatus === 'Cancelled');
+    const completed = orders.filter(isDelivered);
+    const abandoned = orders.filter(isFailedOrder);
 
     const completedAvg = completed.length > 0 
       ? completed.reduce((sum, o) => sum + o.totalAmount, 0) / completed.length
@@ -190,7 +256,7 @@ class BusinessMetricsService {
    */
   analyzeSatisfactionTrends(orders: ZomatoOrder[]) {
     const ratedOrders = orders.filter(o => o.rating !== undefined && o.rating !== null);
-    const completed = orders.filter(o => o.orderStatus === 'Completed');
+    const completed = orders.filter(isDelivered);
 
     const avgRating = ratedOrders.length > 0
       ? ratedOrders.reduce((sum, o) => sum + (o.rating || 0), 0) / ratedOrders.length
@@ -219,6 +285,29 @@ class BusinessMetricsService {
     };
   }
 
+  /**
+   * Metrics for a date range alongside the period it's compared with
+   * (see periodService for the comparison modes).
+   */
+  compareMetrics(orders: ZomatoOrder[], range: DateRange, mode: ComparisonMode, settings?: KitchenTimeSettings): MetricsComparison {
+    const current = this.calculateMetrics(filterByRange(orders, range, settings));
+    const compareRange = comparisonRange(range, mode);
+    const previous = compareRange ? this.calculateMetrics(filterByRange(orders, compareRange, settings)) : null;
+
+    const deltas = {} as Record<ComparedMetric, number | null>;
+    COMPARED_METRICS.forEach(metric => {
+      if (!previous || previous.totalOrders === 0) {
+        deltas[metric] = null;
+      } else if (POINT_METRICS.includes(metric)) {
+        deltas[metric] = current[metric] - previous[metric];
+      } else {
+        deltas[metric] = percentChange(current[metric], previous[metric]);
+      }
+    });
+
+    return { range, compareRange, current, previous, deltas };
+  }
+
   // ---- Private helpers ----
 
   private getEmptyMetrics(): BusinessMetrics {
@@ -238,8 +327,12 @@ class BusinessMetricsService {
       statusDistribution: {},
       revenueByCity: {},
       revenueByRestaurant: {},
+      channelBreakdown: [],
+      payout: summarizePayouts([]),
       estimatedProfit: 0,
-      zomatoCommission: 0
+      zomatoCommission: 0,
+      kitchenOps: analyzeKitchenOps([]),
+      geo: analyzeGeo([])
     };
   }
 
@@ -290,19 +383,19 @@ class BusinessMetricsService {
   private getPopularItems(orders: ZomatoOrder[], limit = 15) {
     const items: { [key: string]: { frequency: number; ratings: number[] } } = {};
 
+    // frequency = quantity sold across orders, per canonical menu item
     orders.forEach(order => {
-      if (order.items) {
-        const itemList = order.items.split(',').map(i => i.trim());
-        itemList.forEach(item => {
-          if (!items[item]) {
-            items[item] = { frequency: 0, ratings: [] };
-          }
-          items[item].frequency++;
-          if (order.rating) {
-            items[item].ratings.push(order.rating);
-          }
-        });
-      }
+      getOrderItems(order).forEach(lineItem => {
+        const name = canonicalItemName(lineItem);
+        const quantity = lineItem.quantity;
+        if (!items[name]) {
+          items[name] = { frequency: 0, ratings: [] };
+        }
+        items[name].frequency += quantity;
+        if (order.rating) {
+          items[name].ratings.push(order.rating);
+        }
+      });
     });
 
     return Object.entries(items)
@@ -330,7 +423,8 @@ class BusinessMetricsService {
   private getStatusDistribution(orders: ZomatoOrder[]) {
     const dist: { [key: string]: number } = {};
     orders.forEach(order => {
-      dist[order.orderStatus] = (dist[order.orderStatus] || 0) + 1;
+      const label = ORDER_STATUS_LABELS[getOrderStatus(order)];
+      dist[label] = (dist[label] || 0) + 1;
     });
     return dist;
   }
@@ -353,6 +447,43 @@ class BusinessMetricsService {
     return revenue;
   }
 
+  private getLossesByReason(failedOrders: ZomatoOrder[]): ReasonBreakdown[] {
+    const reasons = new Map<string, ReasonBreakdown>();
+    failedOrders.forEach(order => {
+      const { key, label, controllable } = getCancellationReason(order);
+      const entry = reasons.get(key) ?? {
+        reason: label, controllable, orders: 0, lostRevenue: 0, penalties: 0, compensation: 0, netImpact: 0
+      };
+      entry.orders++;
+      entry.lostRevenue += order.totalAmount;
+      entry.penalties += order.restaurantPenalty ?? 0;
+      entry.compensation += order.restaurantCompensation ?? 0;
+      entry.netImpact = entry.compensation - entry.penalties;
+      reasons.set(key, entry);
+    });
+
+    return Array.from(reasons.values())
+      .sort((a, b) => (b.lostRevenue - b.netImpact) - (a.lostRevenue - a.netImpact));
+  }
+
+  private getReasonTrend(failedOrders: ZomatoOrder[]) {
+    const weeks = new Map<string, { [reason: string]: number }>();
+    const labels = new Map<string, string>(); // First spelling seen, as in getLossesByReason
+    failedOrders.forEach(order => {
+      const week = businessWeekStart(order.orderPlacedAt);
+      const counts = weeks.get(week) ?? {};
+      const { key, label: spelling } = getCancellationReason(order);
+      const label = labels.get(key) ?? spelling;
+      labels.set(key, label);
+      counts[label] = (counts[label] || 0) + 1;
+      weeks.set(week, counts);
+    });
+
+    return Array.from(weeks.entries())
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([week, counts]) => ({ week, counts }));
+  }
+
   private getTimeSlot(hour: number): string {
     if (hour < 6) return 'Night (12am-6am)';
     if (hour < 12) return 'Morning (6am-12pm)';
@@ -406,11 +537,11 @@ class BusinessMetricsService {
     if ((lowRatings1 + lowRatings2) / totalOrders > 0.1) {
       areas.push('Quality consistency needs improvement');
     }
-    const rejectionRate = orders.filter(o => o.orderStatus === 'Rejected').length / totalOrders;
+    const rejectionRate = orders.filter(isRestaurantRejection).length / totalOrders;
     if (rejectionRate > 0.15) {
       areas.push('High rejection rate affecting ratings');
     }
-    if (orders.filter(o => o.orderStatus === 'Completed').length < totalOrders * 0.85) {
+    if (orders.filter(isDelivered).length < totalOrders * 0.85) {
       areas.push('Order fulfillment completion rate too low');
     }
 
@@ -0,0 +1,58 @@
+import { ZomatoOrder } from "../types";
+import { ORDER_STATUS_LABELS, getOrderStatus, isRestaurantRejection } from "./orderStatusService";
+
+/**
+ * Cancellation / rejection reasons from the "Cancellation / Rejection reason"
+ * column, grouped by spelling and tagged with whether the kitchen could have
+ * prevented them.
+ *
+ * The reason text wins over the status: Zomato files orders the customer
+ * cancelled under "Rejected", with "Cancelled by Customer" as the reason.
+ * Orders without a reason are grouped under their canonical status label.
+ */
+
+export interface CancellationReason {
+  key: string; // Lowercased, whitespace-collapsed reason
+  label: string;
+  controllable: boolean; // Stock, prep, acceptance and handover problems the kitchen owns
+}
+
+// First match wins. Rider and weather causes come first so "rider not
+// available" or "rider arrived late" don't read as stock or prep problems,
+// then the customer's own unavailability, payment or address, and platform
+// cancellations, so "customer not available" isn't read as a stock-out.
+// Other kitchen-side causes are listed before the generic "customer" rule
+// so e.g. "customer cancelled due to delay" still counts against the kitchen.
+const REASON_RULES: Array<{ pattern: RegExp; controllable: boolean }> = [
+  { pattern: /rider|delivery (partner|executive|boy|agent)|valet|weather|\brain/, controllable: false },
+  { pattern: /customer (is )?(un|not )(available|reachable|responsive)|unreachable|\baddress\b|payment|fraud/, controllable: false },
+  { pattern: /\b(zomato|swiggy|platform)\b/, controllable: false },
+  { pattern: /out of stock|sold out|ran out|\b(items?|dish(es)?|products?)\b.*\b(unavailable|not available)\b/, controllable: true },
+  { pattern: /kitchen|closed|busy|capacity|rush|shut/, controllable: true },
+  { pattern: /time ?out|timed out|not accepted|no response|didn.?t accept/, controllable: true },
+  { pattern: /delay|\blate\b|too long|\bprep(aration|aring|ared)?\b|not ready/, controllable: true },
+  { pattern: /wrong|missing|quality|spill|packag|damaged/, controllable: true },
+  { pattern: /customer|by user/, controllable: false },
+];
+
+const collapse = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+export function classifyCancellationReason(raw: string | undefined, order: ZomatoOrder): CancellationReason {
+  const text = collapse(raw ?? '');
+  if (!text) {
+    const label = ORDER_STATUS_LABELS[getOrderStatus(order)];
+    return { key: `status:${label.toLowerCase()}`, label, controllable: isRestaurantRejection(order) };
+  }
+
+  const key = text.toLowerCase();
+  const rule = REASON_RULES.find((r) => r.pattern.test(key));
+  return {
+    key,
+    label: text.charAt(0).toUpperCase() + text.slice(1),
+    controllable: rule ? rule.controllable : isRestaurantRejection(order),
+  };
+}
+
+export function getCancellationReason(order: ZomatoOrder): CancellationReason {
+  return classifyCancellationReason(order.cancellationReason, order);
+}
@@ -0,0 +1,93 @@
+import { OrderSource, ZomatoOrder } from "../types";
+
+/**
+ * Sales-channel helpers shared by the Dashboard, metrics and AI prompts.
+ * Orders without a `source` predate multi-channel import and are Zomato exports.
+ */
+
+export const ORDER_SOURCES: OrderSource[] = ['zomato', 'swiggy', 'direct'];
+
+export const ORDER_SOURCE_LABELS: Record<OrderSource, string> = {
+  zomato: 'Zomato',
+  swiggy: 'Swiggy',
+  direct: 'Website / POS',
+};
+
+export const ORDER_SOURCE_COLORS: Record<OrderSource, string> = {
+  zomato: '#ef4444',
+  swiggy: '#f97316',
+  direct: '#3b82f6',
+};
+
+/** The order fields channel summaries read; lets components with slimmer order shapes reuse them. */
+export type ChannelOrder = Pick<ZomatoOrder, 'source' | 'totalAmount' | 'rating'>;
+
+export interface ChannelSummary {
+  source: OrderSource;
+  label: string;
+  orders: number;
+  revenue: number;
+  avgOrderValue: number;
+  avgRating: number;
+  orderShare: number; // % of all orders
+}
+
+export function isOrderSource(value: unknown): value is OrderSource {
+  return typeof value === 'string' && (ORDER_SOURCES as string[]).includes(value);
+}
+
+/**
+ * Read a free-text channel cell (e.g. a POS "Channel" column) into a source.
+ */
+export function parseOrderSource(raw: string): OrderSource | undefined {
+  const value = raw.trim().toLowerCase();
+  if (!value) return undefined;
+  if (value.includes('zomato')) return 'zomato';
+  if (value.includes('swiggy')) return 'swiggy';
+  if (['website', 'web', 'online', 'app', 'pos', 'direct', 'dine', 'takeaway', 'phone'].some(k => value.includes(k))) return 'direct';
+  return undefined;
+}
+
+export function getOrderSource(order: ChannelOrder): OrderSource {
+  return order.source ?? 'zomato';
+}
+
+/**
+ * Per-channel volume, revenue, AOV and rating, largest channel first.
+ */
+export function summarizeChannels(orders: ChannelOrder[]): ChannelSummary[] {
+  const groups = new Map<OrderSource, ChannelOrder[]>();
+  orders.forEach(order => {
+    const source = getOrderSource(order);
+    if (!groups.has(source)) groups.set(source, []);
+    groups.get(source)!.push(order);
+  });
+
+  return Array.from(groups.entries())
+    .map(([source, channelOrders]) => {
+      const revenue = channelOrders.reduce((sum, o) => sum + (o.totalAmount || 0), 0);
+      const rated = channelOrders.filter(o => typeof o.rating === 'number');
+      return {
+        source,
+        label: ORDER_SOURCE_LABELS[source],
+        orders: channelOrders.length,
+        revenue,
+        avgOrderValue: channelOrders.length ? revenue / channelOrders.length : 0,
+        avgRating: rated.length ? rated.reduce((sum, o) => sum + (o.rating || 0), 0) / rated.length : 0,
+        orderShare: orders.length ? (channelOrders.length / orders.length) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.orders - a.orders);
+}
+
+/**
+ * One-line channel mix for LLM prompts, e.g.
+ * "Zomato 120 orders (80.0%), ₹30000.00, AOV ₹250.00; Swiggy 30 orders ..."
+ */
+export function formatChannelMix(orders: ChannelOrder[]): string {
+  const channels = summarizeChannels(orders);
+  if (channels.length === 0) return 'N/A';
+  return channels
+    .map(c => `${c.label} ${c.orders} orders (${c.orderShare.toFixed(1)}%), ₹${c.revenue.toFixed(2)}, AOV ₹${c.avgOrderValue.toFixed(2)}`)
+    .join('; ');
+}
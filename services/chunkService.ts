@@ -10,13 +10,21 @@
  *   3. City/month        — geographic demand patterns
  */
 
+import { OrderItem, OrderStatus } from "../types";
+import { addDays, businessDate, businessMonth, businessWeekStart } from "./kitchenTimeService";
+import { countItemQuantities } from "./orderItems";
+import { canonicalItemName } from "./menuCatalogService";
+import { isDelivered, isFailedOrder } from "./orderStatusService";
+
 export interface Order {
   orderId: string;
   restaurantName: string;
   orderPlacedAt: number; // Unix ms timestamp
   orderStatus: string;
+  status?: OrderStatus;
   totalAmount: number;
   items: string;
+  lineItems?: OrderItem[];
   city: string;
 }
 
@@ -53,25 +61,14 @@ function countBy<T>(items: T[], key: (item: T) => string): Record<string, number
   }, {} as Record<string, number>);
 }
 
-function isoDate(ms: number): string {
-  return new Date(ms).toISOString().split("T")[0];
-}
-
-function monthKey(ms: number): string {
-  const d = new Date(ms);
-  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
-}
-
-function weekStart(ms: number): string {
-  const date = new Date(ms);
-  const day = date.getDay();
-  const monday = new Date(date);
-  monday.setDate(date.getDate() - (day === 0 ? 6 : day - 1));
-  return monday.toISOString().split("T")[0];
-}
+// Day/week/month keys follow the kitchen's timezone and business-day start, not UTC.
+const isoDate = (ms: number): string => businessDate(ms);
+const monthKey = (ms: number): string => businessMonth(ms);
+const weekStart = (ms: number): string => businessWeekStart(ms);
 
-function stripQuantity(items: string): string {
-  return items.replace(/^\d+ x /, "").trim();
+/** Quantity sold per canonical menu item. */
+function itemQuantities(orders: Order[]): Record<string, number> {
+  return Object.fromEntries(countItemQuantities(orders, canonicalItemName).map((item) => [item.name, item.quantity]));
 }
 
 // ── Chunk Builders ────────────────────────────────────────────────────────────
@@ -85,11 +82,11 @@ function dailyChunks(orders: Order[]): OrderChunk[] {
   }
 
   return Object.entries(groups).map(([day, dayOrders]) => {
-    const delivered = dayOrders.filter((order) => order.orderStatus === "Delivered");
-    const cancelled = dayOrders.filter((order) => order.orderStatus === "Cancelled");
+    const delivered = dayOrders.filter(isDelivered);
+    const cancelled = dayOrders.filter(isFailedOrder);
     const revenue = delivered.reduce((sum, order) => sum + order.totalAmount, 0);
 
-    const itemMap = countBy(dayOrders, (order) => stripQuantity(order.items));
+    const itemMap = itemQuantities(dayOrders);
     const cityMap = countBy(dayOrders, (order) => order.city);
     const restaurantMap = countBy(dayOrders, (order) => order.restaurantName);
 
@@ -101,7 +98,7 @@ function dailyChunks(orders: Order[]): OrderChunk[] {
       id: `day-${day}`,
       text: [
         `Day ${day}:`,
-        `Total orders ${dayOrders.length}, Delivered ${delivered.length}, Cancelled ${cancelled.length}.`,
+        `Total orders ${dayOrders.length}, Delivered ${delivered.length}, Cancelled/Rejected ${cancelled.length}.`,
         `Revenue ₹${revenue.toFixed(2)}.`,
         `Top items: ${topItems}.`,
         `Top cities: ${topCities}.`,
@@ -127,13 +124,13 @@ function weeklyChunks(orders: Order[]): OrderChunk[] {
   }
 
   return Object.entries(groups).map(([start, weekOrders]) => {
-    const delivered = weekOrders.filter((o) => o.orderStatus === "Delivered");
-    const cancelled = weekOrders.filter((o) => o.orderStatus === "Cancelled");
+    const delivered = weekOrders.filter(isDelivered);
+    const cancelled = weekOrders.filter(isFailedOrder);
     const revenue = delivered.reduce((s, o) => s + o.totalAmount, 0);
     const avgOrder = delivered.length ? revenue / delivered.length : 0;
     const cancelRate = (cancelled.length / weekOrders.length) * 100;
 
-    const itemMap = countBy(weekOrders, (o) => stripQuantity(o.items));
+    const itemMap = itemQuantities(weekOrders);
     const cityMap = countBy(weekOrders, (o) => o.city);
     const restaurantMap = countBy(weekOrders, (o) => o.restaurantName);
 
@@ -141,13 +138,11 @@ function weeklyChunks(orders: Order[]): OrderChunk[] {
     const topCities = topN(cityMap, 4).map(([c, n]) => `${c} (${n})`).join(", ");
     const topRestaurants = topN(restaurantMap, 3).map(([r, n]) => `${r} (${n})`).join(", ");
 
-    const endDate = new Date(start);
-    endDate.setDate(endDate.getDate() + 6);
-    const end = endDate.toISOString().split("T")[0];
+    const end = addDays(start, 6);
 
     const text = [
       `Week ${start} to ${end}:`,
-      `Total orders ${weekOrders.length}, Delivered ${delivered.length}, Cancelled ${cancelled.length}.`,
+      `Total orders ${weekOrders.length}, Delivered ${delivered.length}, Cancelled/Rejected ${cancelled.length}.`,
       `Revenue ₹${revenue.toFixed(2)}, Avg order value ₹${avgOrder.toFixed(2)}.`,
       `Cancellation rate ${cancelRate.toFixed(1)}%.`,
       `Top items: ${topItems}.`,
@@ -179,20 +174,20 @@ function restaurantMonthChunks(orders: Order[]): OrderChunk[] {
 
   return Object.entries(groups).map(([key, rOrders]) => {
     const [restaurant, month] = key.split("::");
-    const delivered = rOrders.filter((o) => o.orderStatus === "Delivered");
-    const cancelled = rOrders.filter((o) => o.orderStatus === "Cancelled");
+    const delivered = rOrders.filter(isDelivered);
+    const cancelled = rOrders.filter(isFailedOrder);
     const revenue = delivered.reduce((s, o) => s + o.totalAmount, 0);
     const avgOrder = delivered.length ? revenue / delivered.length : 0;
     const cancelRate = (cancelled.length / rOrders.length) * 100;
 
-    const itemMap = countBy(rOrders, (o) => stripQuantity(o.items));
+    const itemMap = itemQuantities(rOrders);
     const cityMap = countBy(rOrders, (o) => o.city);
     const topItems = topN(itemMap, 3).map(([n, c]) => `${n} (${c})`).join(", ");
     const topCities = topN(cityMap, 3).map(([c, n]) => `${c} (${n})`).join(", ");
 
     const text = [
       `Restaurant "${restaurant}" in ${month}:`,
-      `Total orders ${rOrders.length}, Delivered ${delivered.length}, Cancelled ${cancelled.length}.`,
+      `Total orders ${rOrders.length}, Delivered ${delivered.length}, Cancelled/Rejected ${cancelled.length}.`,
       `Revenue ₹${revenue.toFixed(2)}, Avg order ₹${avgOrder.toFixed(2)}.`,
       `Cancellation rate ${cancelRate.toFixed(1)}%.`,
       `Top items: ${topItems}.`,
@@ -224,19 +219,19 @@ function cityMonthChunks(orders: Order[]): OrderChunk[] {
 
   return Object.entries(groups).map(([key, cOrders]) => {
     const [city, month] = key.split("::");
-    const delivered = cOrders.filter((o) => o.orderStatus === "Delivered");
-    const cancelled = cOrders.filter((o) => o.orderStatus === "Cancelled");
+    const delivered = cOrders.filter(isDelivered);
+    const cancelled = cOrders.filter(isFailedOrder);
     const revenue = delivered.reduce((s, o) => s + o.totalAmount, 0);
     const cancelRate = (cancelled.length / cOrders.length) * 100;
 
     const restaurantMap = countBy(cOrders, (o) => o.restaurantName);
-    const itemMap = countBy(cOrders, (o) => stripQuantity(o.items));
+    const itemMap = itemQuantities(cOrders);
     const topRestaurants = topN(restaurantMap, 3).map(([r, n]) => `${r} (${n})`).join(", ");
     const topItems = topN(itemMap, 3).map(([n, c]) => `${n} (${c})`).join(", ");
 
     const text = [
       `City "${city}" in ${month}:`,
-      `Total orders ${cOrders.length}, Delivered ${delivered.length}, Cancelled ${cancelled.length}.`,
+      `Total orders ${cOrders.length}, Delivered ${delivered.length}, Cancelled/Rejected ${cancelled.length}.`,
       `Revenue ₹${revenue.toFixed(2)}.`,
       `Cancellation rate ${cancelRate.toFixed(1)}%.`,
       `Top restaurants: ${topRestaurants}.`,
@@ -1,162 +1,455 @@
 
-import { ZomatoOrder, ItemSales } from "../types";
+import { ZomatoOrder, ItemSales, OrderSource, OrderStatus } from "../types";
+import {
+  ORDER_DETAIL_NUMBER_FIELDS,
+  ORDER_DETAIL_STRING_FIELDS,
+  pickOrderDetails,
+} from "./orderFields";
+import {
+  ColumnMapping,
+  IMPORT_FIELD_LABELS,
+  ImportAdapter,
+  ImportField,
+  detectAdapter,
+  getAdapter,
+  resolveColumns,
+} from "./importAdapters";
+import { StatusMapping, classifyOrderStatus, orderStatusService } from "./orderStatusService";
+import { headerSignature, importMappingService } from "./importMappingService";
+import { tokenizeCsvFile } from "./csvTokenizer";
+import type { CsvWorkerMessage, CsvWorkerRequest } from "./csvWorker";
+import { parseOrderSource } from "./channelService";
+import { kitchenTimeService, zonedTimeToUtc } from "./kitchenTimeService";
+import { countItemQuantities, parseOrderItems } from "./orderItems";
+import { canonicalItemName } from "./menuCatalogService";
 
-export const parseCSV = async (file: File): Promise<ZomatoOrder[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (event) => {
+export interface CsvTable {
+  headers: string[]; // As written in the file (trimmed), original casing
+  rows: string[][];
+  lines: number[]; // 1-based file line each row starts on (header is line 1)
+  files?: { name: string; firstRow: number }[]; // Set when rows from several files were combined
+}
+
+export interface ImportIssue {
+  severity: 'error' | 'warning'; // errors reject the row, warnings keep it
+  file?: string; // Source file, for multi-file imports
+  line: number;
+  column: string;
+  rawValue: string;
+  reason: string;
+}
+
+export interface ParseResult {
+  orders: ZomatoOrder[];
+  issues: ImportIssue[];
+  totalRows: number;
+  rejectedRows: number;
+}
+
+export interface CsvReadProgress {
+  fileIndex: number;
+  fileCount: number;
+  fileName: string;
+  percent: number; // 0-100 across all files, by bytes
+}
+
+export interface NamedCsvTable {
+  fileName: string;
+  table: CsvTable;
+}
+
+/**
+ * Account settings row mapping reads. The worker has no access to the main
+ * thread's active settings, so they travel with the request.
+ */
+export interface RowMappingContext {
+  timeZone: string;
+  statusMapping: StatusMapping;
+}
+
+const activeMappingContext = (): RowMappingContext => ({
+  timeZone: kitchenTimeService.getActive().timeZone,
+  statusMapping: orderStatusService.getActive(),
+});
+
+const startCsvWorker = () => new Worker(new URL('./csvWorker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Read CSV files into tables, one per file, in input order.
+ *
+ * Files are streamed through the RFC-4180 tokenizer in a Web Worker so large
+ * exports don't block the UI; where workers are unavailable the same
+ * tokenizer runs on the main thread.
+ */
+export const readCsvFiles = async (files: File[], onProgress?: (progress: CsvReadProgress) => void): Promise<NamedCsvTable[]> => {
+  const totalBytes = files.reduce((sum, f) => sum + f.size, 0) || 1;
+  const offsets = files.map((_, idx) => files.slice(0, idx).reduce((sum, f) => sum + f.size, 0));
+  const report = (fileIndex: number, bytesRead: number) => {
+    onProgress?.({
+      fileIndex,
+      fileCount: files.length,
+      fileName: files[fileIndex].name,
+      percent: Math.min(100, Math.round(((offsets[fileIndex] + bytesRead) / totalBytes) * 100)),
+    });
+  };
+  const readError = (fileIndex: number, message: string) =>
+    new Error(`Unable to read ${files[fileIndex].name}: ${message}. The file may be locked, corrupted, or unsupported.`);
+
+  if (typeof Worker === 'undefined') {
+    const tables: NamedCsvTable[] = [];
+    for (let idx = 0; idx < files.length; idx++) {
       try {
-        const text = event.target?.result as string;
-        if (!text) {
-          resolve([]);
-          return;
-        }
-
-        const lines = text.split(/\r\n|\n/);
-        
-        // CSV Parsing Helper: Handles quoted strings with commas
-        const parseLine = (line: string) => {
-          const result = [];
-          let start = 0;
-          let inQuotes = false;
-          for (let i = 0; i < line.length; i++) {
-            if (line[i] === '"') {
-              inQuotes = !inQuotes;
-            } else if (line[i] === ',' && !inQuotes) {
-              result.push(line.substring(start, i).trim().replace(/^"|"$/g, '').replace(/""/g, '"'));
-              start = i + 1;
-            }
-          }
-          result.push(line.substring(start).trim().replace(/^"|"$/g, '').replace(/""/g, '"'));
-          return result;
-        };
-
-        if (lines.length < 2) {
-            resolve([]);
-            return;
-        }
-
-        const headers = parseLine(lines[0]).map(h => h.toLowerCase().trim());
-
-        // Helper to find column index by loose name matching
-        const findCol = (possibleNames: string[]) => {
-            return headers.findIndex(h => possibleNames.some(name => h === name.toLowerCase()));
-        };
-
-        const idxMap = {
-          orderId: findCol(['order id', 'orderid']),
-          restaurantName: findCol(['restaurant name', 'restaurant']),
-          orderPlacedAt: findCol(['order placed at', 'date', 'created at']),
-          orderStatus: findCol(['order status', 'status']),
-          total: findCol(['total', 'grand total', 'final amount']), 
-          rating: findCol(['rating']),
-          items: findCol(['items in order', 'items']),
-          city: findCol(['city'])
-        };
-
-        const orders: ZomatoOrder[] = [];
-
-        for (let i = 1; i < lines.length; i++) {
-          const line = lines[i];
-          if (!line.trim()) continue;
-
-          const row = parseLine(line);
-          if (row.length < headers.length * 0.5) continue; // Skip empty/malformed rows
-
-          const getVal = (idx: number) => (idx !== -1 && row[idx]) ? row[idx] : '';
-
-          // 1. Parse Date
-          const dateStr = getVal(idxMap.orderPlacedAt);
-          let timestamp = 0;
-          
-          if (dateStr) {
-             let parsed = Date.parse(dateStr);
-             if (isNaN(parsed)) {
-                 const parts = dateStr.match(/(\d{1,2}:\d{2}\s?[APap][Mm]),\s?(.+)/);
-                 if (parts && parts.length === 3) {
-                     const fixedDateString = `${parts[2]} ${parts[1]}`;
-                     parsed = Date.parse(fixedDateString);
-                 }
-             }
-             if (!isNaN(parsed)) timestamp = parsed;
-             else {
-                 const simple = dateStr.replace(/,/g, '');
-                 timestamp = Date.parse(simple) || 0;
-             }
-          }
-          if (timestamp === 0) timestamp = Date.now(); 
-
-          // 2. Parse Amount
-          const amountRaw = getVal(idxMap.total);
-          const amountClean = amountRaw.replace(/[^0-9.-]/g, '');
-          const amount = parseFloat(amountClean) || 0;
-
-          // 3. Parse Rating
-          const ratingRaw = getVal(idxMap.rating);
-          const ratingVal = parseFloat(ratingRaw);
-          
-          const rawId = getVal(idxMap.orderId);
-          const orderId = rawId || `GEN-${timestamp}-${i}-${Math.random().toString(36).substr(2, 9)}`;
-
-          orders.push({
-            orderId: orderId,
-            restaurantName: getVal(idxMap.restaurantName) || 'Unknown',
-            orderPlacedAt: timestamp,
-            orderStatus: getVal(idxMap.orderStatus) || 'Unknown',
-            totalAmount: amount,
-            rating: !isNaN(ratingVal) ? ratingVal : undefined,
-            items: getVal(idxMap.items),
-            city: getVal(idxMap.city)
-          });
-        }
-
-        resolve(orders);
+        const table = await tokenizeCsvFile(files[idx], (bytesRead) => report(idx, bytesRead));
+        tables.push({ fileName: files[idx].name, table });
       } catch (err) {
-        console.error("CSV Parse logic error", err);
-        reject(err);
+        throw readError(idx, err instanceof Error ? err.message : String(err));
+      }
+    }
+    return tables;
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = startCsvWorker();
+    const tables: NamedCsvTable[] = [];
+
+    worker.onmessage = (event: MessageEvent<CsvWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        report(message.fileIndex, message.bytesRead);
+      } else if (message.type === 'file') {
+        tables[message.fileIndex] = { fileName: files[message.fileIndex].name, table: message.table };
+      } else if (message.type === 'error') {
+        worker.terminate();
+        reject(readError(message.fileIndex, message.message));
+      } else if (message.type === 'done') {
+        worker.terminate();
+        resolve(tables);
       }
     };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(`CSV worker failed: ${event.message || 'unknown error'}`));
+    };
 
-    reader.onerror = () => reject(new Error('Unable to read CSV file. The file may be locked, corrupted, or unsupported.'));
-    reader.readAsText(file);
+    const request: CsvWorkerRequest = { type: 'read', files };
+    worker.postMessage(request);
   });
 };
 
 /**
- * Parses the "Items in order" string (e.g., "1 x Item A, 2 x Item B") 
- * and aggregates sales count per item.
+ * Read a single CSV file into a header row plus data rows.
  */
-export const extractTopItems = (orders: ZomatoOrder[]): ItemSales[] => {
-  const itemCounts = new Map<string, number>();
-
-  orders.forEach(order => {
-    if (!order.items) return;
-
-    // Split by comma (assuming comma separates items, need to be careful with commas in names)
-    // Zomato format often: "1 x Butter Chicken, 2 x Naan"
-    const parts = order.items.split(','); 
-    
-    parts.forEach(part => {
-      const trimmed = part.trim();
-      // Regex to find Quantity x Name
-      const match = trimmed.match(/^(\d+)\s*[xX]\s*(.+)$/);
-      
-      if (match) {
-        const qty = parseInt(match[1]);
-        const name = match[2].trim();
-        itemCounts.set(name, (itemCounts.get(name) || 0) + qty);
+export const readCsvTable = async (file: File, onProgress?: (progress: CsvReadProgress) => void): Promise<CsvTable> => {
+  const [named] = await readCsvFiles([file], onProgress);
+  return named.table;
+};
+
+/**
+ * Concatenate files that share a header row (e.g. a folder of monthly
+ * order_history_*.csv exports) so they go through the wizard once.
+ * Files with a different layout stay separate, in first-seen order.
+ */
+export const combineCsvTables = (tables: NamedCsvTable[]): NamedCsvTable[] => {
+  const groups = new Map<string, NamedCsvTable[]>();
+  tables
+    .filter(({ table }) => table.rows.length > 0)
+    .forEach((named) => {
+      const key = headerSignature(named.table.headers);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(named);
+    });
+
+  return Array.from(groups.values()).map((group) => {
+    if (group.length === 1) return group[0];
+    const combined: CsvTable = { headers: group[0].table.headers, rows: [], lines: [], files: [] };
+    group.forEach(({ fileName, table }) => {
+      combined.files!.push({ name: fileName, firstRow: combined.rows.length });
+      combined.rows.push(...table.rows);
+      combined.lines.push(...table.lines);
+    });
+    return { fileName: `${group[0].fileName} + ${group.length - 1} more`, table: combined };
+  });
+};
+
+/** Source file name for a row of a combined table. */
+const fileForRow = (table: CsvTable, rowIndex: number): string | undefined => {
+  if (!table.files) return undefined;
+  let name: string | undefined;
+  for (const segment of table.files) {
+    if (segment.firstRow > rowIndex) break;
+    name = segment.name;
+  }
+  return name;
+};
+
+// Timestamps that name their own zone ("...Z", "+05:30", "GMT") are taken as-is.
+const EXPLICIT_ZONE = /(?:Z|[+-]\d{2}:?\d{2}|\b(?:GMT|UTC)(?:[+-]\d{1,4})?)$/i;
+
+/**
+ * Parse an order timestamp. Handles ISO-ish strings and Zomato's
+ * "01:49 PM, November 27 2025" form. Returns null when unparseable.
+ *
+ * Exports carry wall-clock times without a zone; those are read in the
+ * kitchen's timezone (see kitchenTimeService), not the browser's.
+ */
+export const parseOrderDate = (dateStr: string, timeZone?: string): number | null => {
+  if (!dateStr) return null;
+
+  let parsed = Date.parse(dateStr);
+  if (isNaN(parsed)) {
+      const parts = dateStr.match(/(\d{1,2}:\d{2}\s?[APap][Mm]),\s?(.+)/);
+      if (parts && parts.length === 3) {
+          const fixedDateString = `${parts[2]} ${parts[1]}`;
+          parsed = Date.parse(fixedDateString);
+      }
+  }
+  if (isNaN(parsed)) {
+      parsed = Date.parse(dateStr.replace(/,/g, ''));
+  }
+  if (isNaN(parsed)) return null;
+  if (EXPLICIT_ZONE.test(dateStr.trim())) return parsed;
+
+  // Date.parse read the wall clock in the browser zone (date-only ISO strings in UTC); re-read it in the kitchen zone.
+  const wall = new Date(parsed);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr.trim())) {
+    return zonedTimeToUtc(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(), 0, 0, 0, timeZone);
+  }
+  return zonedTimeToUtc(
+    wall.getFullYear(),
+    wall.getMonth(),
+    wall.getDate(),
+    wall.getHours(),
+    wall.getMinutes(),
+    wall.getSeconds(),
+    timeZone
+  );
+};
+
+/**
+ * Parse a money value, ignoring currency symbols and thousands separators.
+ * Returns null when no number can be read.
+ */
+export const parseAmount = (raw: string): number | null => {
+  const clean = raw.replace(/[^0-9.-]/g, '');
+  if (!clean) return null;
+  const amount = parseFloat(clean);
+  return isNaN(amount) ? null : amount;
+};
+
+/** Read one mapped cell; '' when the field is unmapped or the cell is empty. */
+export const getMappedValue = (row: string[], mapping: ColumnMapping, field: ImportField): string => {
+  const idx = mapping[field];
+  return (idx !== undefined && idx !== -1 && row[idx]) ? row[idx] : '';
+};
+
+/** Raw date text for a row, joining a separate time column when one is mapped. */
+export const getMappedDate = (row: string[], mapping: ColumnMapping): string => {
+  const timeStr = getMappedValue(row, mapping, 'orderTime');
+  const dateStr = getMappedValue(row, mapping, 'orderPlacedAt');
+  return timeStr ? `${dateStr} ${timeStr}`.trim() : dateStr;
+};
+
+/**
+ * Convert table rows into orders using an adapter and a column mapping.
+ *
+ * Nothing is substituted silently: rows with too few columns, an unparseable
+ * date or an unparseable total are rejected with an error; recoverable
+ * problems (missing order id, bad rating, bad extended numbers, duplicate ids)
+ * are kept and reported as warnings.
+ */
+export const mapRowsToOrders = (
+  table: CsvTable,
+  adapter: ImportAdapter,
+  mapping: ColumnMapping,
+  context: RowMappingContext = activeMappingContext()
+): ParseResult => {
+  const orders: ZomatoOrder[] = [];
+  const issues: ImportIssue[] = [];
+  const seenIds = new Map<string, string>(); // order id -> where it was first seen
+  let rejectedRows = 0;
+
+  const columnName = (field: ImportField) => {
+    const idx = mapping[field] ?? -1;
+    return idx !== -1 && table.headers[idx] ? table.headers[idx] : IMPORT_FIELD_LABELS[field];
+  };
+
+  table.rows.forEach((row, index) => {
+    const line = table.lines[index] ?? index + 2;
+    const file = fileForRow(table, index);
+    const getVal = (field: ImportField) => getMappedValue(row, mapping, field);
+    const rowIssues: ImportIssue[] = [];
+    const flag = (severity: ImportIssue['severity'], field: ImportField, rawValue: string, reason: string) => {
+      rowIssues.push({ severity, file, line, column: columnName(field), rawValue, reason });
+    };
+
+    if (row.length < table.headers.length * 0.5) {
+      issues.push({
+        severity: 'error',
+        file,
+        line,
+        column: '(row)',
+        rawValue: row.join(',').slice(0, 120),
+        reason: `Row has ${row.length} columns, expected ${table.headers.length}`,
+      });
+      rejectedRows++;
+      return;
+    }
+
+    // 1. Parse Date
+    const dateStr = getMappedDate(row, mapping);
+    const timestamp = parseOrderDate(dateStr, context.timeZone);
+    if (timestamp === null) {
+      flag('error', 'orderPlacedAt', dateStr, dateStr ? 'Unparseable date' : 'Missing date');
+    }
+
+    // 2. Parse Amount
+    const amountRaw = getVal('totalAmount');
+    const amount = parseAmount(amountRaw);
+    if (amount === null) {
+      flag('error', 'totalAmount', amountRaw, amountRaw ? 'Unparseable amount' : 'Missing amount');
+    }
+
+    // 3. Parse Rating
+    const ratingRaw = getVal('rating');
+    let rating: number | undefined;
+    if (ratingRaw) {
+      const ratingVal = parseFloat(ratingRaw);
+      if (isNaN(ratingVal) || ratingVal < 0 || ratingVal > 5) {
+        flag('warning', 'rating', ratingRaw, 'Rating is not a number between 0 and 5; ignored');
       } else {
-        // Fallback: assume quantity 1 if pattern doesn't match but text exists
-        if (trimmed.length > 2) {
-           itemCounts.set(trimmed, (itemCounts.get(trimmed) || 0) + 1);
-        }
+        rating = ratingVal;
+      }
+    }
+
+    // 4. Extended columns (numbers are stripped of currency symbols before coercion)
+    const rawDetails: Record<string, unknown> = {};
+    ORDER_DETAIL_STRING_FIELDS.forEach(field => {
+      rawDetails[field] = getVal(field);
+    });
+    ORDER_DETAIL_NUMBER_FIELDS.forEach(field => {
+      const raw = getVal(field);
+      const num = raw ? parseAmount(raw) : null;
+      if (raw && num === null) {
+        flag('warning', field, raw, 'Not a number; ignored');
       }
+      rawDetails[field] = num ?? '';
+    });
+
+    if (rowIssues.some(issue => issue.severity === 'error')) {
+      issues.push(...rowIssues);
+      rejectedRows++;
+      return;
+    }
+
+    const rawId = getVal('orderId');
+    const orderId = rawId || `GEN-${timestamp}-${line}-${Math.random().toString(36).substr(2, 9)}`;
+    if (!rawId) {
+      flag('warning', 'orderId', '', `Missing order id; generated ${orderId}. Re-importing this file will duplicate the order`);
+    } else if (seenIds.has(rawId)) {
+      flag('warning', 'orderId', rawId, `Duplicate order id (also on ${seenIds.get(rawId)}); the later row wins`);
+    }
+    if (rawId) seenIds.set(rawId, file ? `${file} line ${line}` : `line ${line}`);
+
+    const rawStatus = getVal('orderStatus');
+    const orderStatus = (adapter.normalizeStatus && rawStatus ? adapter.normalizeStatus(rawStatus) : rawStatus) || 'Unknown';
+    const status = classifyOrderStatus(orderStatus, context.statusMapping, getVal('cancellationReason'));
+    if (rawStatus && status === OrderStatus.Unknown) {
+      flag('warning', 'orderStatus', rawStatus, 'Unrecognized status; counted as Unknown until mapped in Settings');
+    }
+    const rawItems = getVal('items');
+    const items = adapter.normalizeItems && rawItems ? adapter.normalizeItems(rawItems) : rawItems;
+
+    issues.push(...rowIssues);
+    orders.push({
+      orderId: orderId,
+      restaurantName: getVal('restaurantName') || 'Unknown',
+      orderPlacedAt: timestamp as number,
+      orderStatus,
+      status,
+      totalAmount: amount as number,
+      rating,
+      items,
+      city: getVal('city'),
+      ...pickOrderDetails(rawDetails),
+      lineItems: parseOrderItems(items),
+      source: parseOrderSource(getVal('source')) ?? adapter.source
     });
   });
 
-  return Array.from(itemCounts.entries())
-    .map(([itemName, quantity]) => ({ itemName, quantity }))
-    .sort((a, b) => b.quantity - a.quantity)
-    .slice(0, 5);
+  return { orders, issues, totalRows: table.rows.length, rejectedRows };
+};
+
+/**
+ * mapRowsToOrders for a whole table, run in the CSV worker so a folder of
+ * multi-month exports doesn't freeze the tab. Falls back to the main thread
+ * where workers are unavailable.
+ */
+export const mapCsvTable = async (table: CsvTable, source: OrderSource, mapping: ColumnMapping): Promise<ParseResult> => {
+  const context = activeMappingContext();
+  if (typeof Worker === 'undefined') return mapRowsToOrders(table, getAdapter(source), mapping, context);
+
+  return new Promise((resolve, reject) => {
+    const worker = startCsvWorker();
+    worker.onmessage = (event: MessageEvent<CsvWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'mapped') {
+        worker.terminate();
+        resolve(message.result);
+      } else if (message.type === 'failed') {
+        worker.terminate();
+        reject(new Error(`Unable to map rows: ${message.message}`));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(`CSV worker failed: ${event.message || 'unknown error'}`));
+    };
+
+    const request: CsvWorkerRequest = { type: 'map', table, source, mapping, context };
+    worker.postMessage(request);
+  });
+};
+
+/**
+ * Pick the adapter and column mapping for a table: a mapping saved for this
+ * exact header signature wins, otherwise the auto-detected adapter's aliases.
+ */
+export const resolveImportMapping = (headers: string[]): { adapter: ImportAdapter; mapping: ColumnMapping; saved: boolean } => {
+  const saved = importMappingService.load(headers);
+  if (saved) return { ...saved, saved: true };
+
+  const adapter = detectAdapter(headers);
+  return { adapter, mapping: resolveColumns(adapter, headers), saved: false };
+};
+
+export const parseCSV = async (file: File): Promise<ParseResult> => {
+  const table = await readCsvTable(file);
+  if (table.rows.length === 0) return { orders: [], issues: [], totalRows: 0, rejectedRows: 0 };
+
+  const { adapter, mapping } = resolveImportMapping(table.headers);
+  return mapCsvTable(table, adapter.source, mapping);
+};
+
+/**
+ * Top 5 items by quantity sold, by menu-catalog canonical name.
+ */
+export const extractTopItems = (orders: ZomatoOrder[]): ItemSales[] => {
+  return countItemQuantities(orders, canonicalItemName)
+    .slice(0, 5)
+    .map(({ name, quantity }) => ({ itemName: name, quantity }));
+};
+
+/**
+ * Serialize import issues as CSV so they can be fixed against the source file.
+ */
+export const issuesToCsv = (issues: ImportIssue[]): string => {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const header = ['Severity', 'File', 'Line', 'Column', 'Raw value', 'Reason'].join(',');
+  const rows = issues.map(issue =>
+    [issue.severity, issue.file ?? '', issue.line, issue.column, issue.rawValue, issue.reason].map(escape).join(',')
+  );
+  return [header, ...rows].join('\n');
 };
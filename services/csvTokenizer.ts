@@ -0,0 +1,139 @@
+/**
+ * Incremental RFC-4180 CSV tokenizer.
+ *
+ * Text is fed in arbitrary chunks (a chunk boundary may fall inside a quoted
+ * field or between "\r" and "\n"); complete records are handed to `onRow`
+ * together with the 1-based line they start on. Quoted fields may contain
+ * commas, doubled quotes and line breaks — Zomato's Instructions and Review
+ * columns regularly do.
+ *
+ * No DOM or worker APIs are used, so the same code runs inside csvWorker and
+ * on the main thread as a fallback.
+ */
+export class CsvTokenizer {
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  private quoteInQuoted = false; // Saw a '"' inside a quoted field; next char decides escape vs close
+  private pendingCR = false;
+  private fieldQuoted = false;
+  private line = 1;
+  private rowStartLine = 1;
+  private started = false;
+
+  constructor(private onRow: (row: string[], line: number) => void) {}
+
+  push(chunk: string) {
+    let text = chunk;
+    if (!this.started) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1); // UTF-8 BOM from Excel exports
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (ch === '\n') {
+          // Second half of "\r\n": the line was already counted (and the record ended, outside quotes)
+          if (this.inQuotes) this.field += ch;
+          continue;
+        }
+      }
+
+      if (this.inQuotes) {
+        if (this.quoteInQuoted) {
+          this.quoteInQuoted = false;
+          if (ch === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false; // Closing quote; fall through to handle ch unquoted
+        } else if (ch === '"') {
+          this.quoteInQuoted = true;
+          continue;
+        } else {
+          if (ch === '\n' || ch === '\r') this.line++;
+          if (ch === '\r') this.pendingCR = true;
+          this.field += ch;
+          continue;
+        }
+      }
+
+      if (ch === ',') {
+        this.endField();
+      } else if (ch === '\n' || ch === '\r') {
+        this.endRow();
+        this.line++;
+        this.rowStartLine = this.line;
+        if (ch === '\r') this.pendingCR = true;
+      } else if (ch === '"' && !this.fieldQuoted && this.field.trim() === '') {
+        this.field = '';
+        this.fieldQuoted = true;
+        this.inQuotes = true;
+      } else {
+        this.field += ch; // Stray quotes inside unquoted fields are kept literally
+      }
+    }
+  }
+
+  /** Flush the last record (files without a trailing newline). */
+  end() {
+    this.quoteInQuoted = false;
+    this.inQuotes = false; // An unterminated quote keeps what was read so far
+    this.endRow();
+  }
+
+  private endField() {
+    this.row.push(this.field.trim());
+    this.field = '';
+    this.fieldQuoted = false;
+  }
+
+  private endRow() {
+    this.endField();
+    const row = this.row;
+    this.row = [];
+    if (row.length === 1 && row[0] === '') return; // Blank line
+    this.onRow(row, this.rowStartLine);
+  }
+}
+
+export interface TokenizedCsv {
+  headers: string[];
+  rows: string[][];
+  lines: number[]; // 1-based line each row starts on
+}
+
+/**
+ * Stream a file through the tokenizer, reporting bytes read after each chunk.
+ * The first record is the header row.
+ */
+export async function tokenizeCsvFile(file: Blob, onProgress?: (bytesRead: number) => void): Promise<TokenizedCsv> {
+  const result: TokenizedCsv = { headers: [], rows: [], lines: [] };
+  let sawHeader = false;
+  const tokenizer = new CsvTokenizer((row, line) => {
+    if (!sawHeader) {
+      sawHeader = true;
+      result.headers = row;
+      return;
+    }
+    result.rows.push(row);
+    result.lines.push(line);
+  });
+
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder('utf-8');
+  let bytesRead = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    tokenizer.push(decoder.decode(value, { stream: true }));
+    onProgress?.(bytesRead);
+  }
+  tokenizer.push(decoder.decode());
+  tokenizer.end();
+  return result;
+}
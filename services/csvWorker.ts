@@ -0,0 +1,62 @@
+import { OrderSource } from "../types";
+import { TokenizedCsv, tokenizeCsvFile } from "./csvTokenizer";
+import { CsvTable, ParseResult, RowMappingContext, mapRowsToOrders } from "./csvService";
+import { ColumnMapping, getAdapter } from "./importAdapters";
+
+/**
+ * Off-main-thread CSV work, so a folder of multi-month exports doesn't
+ * freeze the tab.
+ *
+ * 'read' streams each file through the tokenizer and posts progress plus one
+ * table per file. 'map' turns a confirmed table into orders with the
+ * wizard's mapping (date, amount, item and status parsing for every row).
+ */
+
+export type CsvWorkerRequest =
+  | { type: 'read'; files: File[] }
+  | { type: 'map'; table: CsvTable; source: OrderSource; mapping: ColumnMapping; context: RowMappingContext };
+
+export type CsvWorkerMessage =
+  | { type: 'progress'; fileIndex: number; bytesRead: number }
+  | { type: 'file'; fileIndex: number; table: TokenizedCsv }
+  | { type: 'error'; fileIndex: number; message: string }
+  | { type: 'done' }
+  | { type: 'mapped'; result: ParseResult }
+  | { type: 'failed'; message: string };
+
+const PROGRESS_STEP_BYTES = 256 * 1024;
+
+const post = (message: CsvWorkerMessage) => self.postMessage(message);
+
+const readFiles = async (files: File[]) => {
+  for (let fileIndex = 0; fileIndex < files.length; fileIndex++) {
+    let lastReported = 0;
+    try {
+      const table = await tokenizeCsvFile(files[fileIndex], (bytesRead) => {
+        if (bytesRead - lastReported < PROGRESS_STEP_BYTES) return;
+        lastReported = bytesRead;
+        post({ type: 'progress', fileIndex, bytesRead });
+      });
+      post({ type: 'progress', fileIndex, bytesRead: files[fileIndex].size });
+      post({ type: 'file', fileIndex, table });
+    } catch (err) {
+      post({ type: 'error', fileIndex, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  post({ type: 'done' });
+};
+
+self.onmessage = async (event: MessageEvent<CsvWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'read') {
+    await readFiles(request.files);
+    return;
+  }
+
+  try {
+    const result = mapRowsToOrders(request.table, getAdapter(request.source), request.mapping, request.context);
+    post({ type: 'mapped', result });
+  } catch (err) {
+    post({ type: 'failed', message: err instanceof Error ? err.message : String(err) });
+  }
+};
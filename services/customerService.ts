@@ -0,0 +1,259 @@
+import { ZomatoOrder } from "../types";
+import { KitchenTimeSettings, businessDate, businessMonth, businessWeekStart } from "./kitchenTimeService";
+import { RateCard, calculateOrderPayout } from "./payoutService";
+import { isDelivered } from "./orderStatusService";
+
+/**
+ * Customer analytics keyed on the export's hashed "Customer ID".
+ *
+ * Only delivered orders count as purchases; orders without a customer id are
+ * left out. Recency is measured from the last business day in the data rather
+ * than today, so a stale upload doesn't turn every customer into "lost".
+ *
+ * RFM scores (1-5) use fixed thresholds for recency and frequency, which suit
+ * a single kitchen's order volumes better than quintiles (most customers
+ * order once), and quintiles for monetary value.
+ */
+
+export type CustomerSegment = 'champions' | 'loyal' | 'new' | 'promising' | 'at_risk' | 'hibernating' | 'lost';
+
+export const CUSTOMER_SEGMENT_LABELS: Record<CustomerSegment, string> = {
+  champions: 'Champions',
+  loyal: 'Loyal',
+  new: 'New',
+  promising: 'Promising',
+  at_risk: 'At risk',
+  hibernating: 'Hibernating',
+  lost: 'Lost',
+};
+
+export const CUSTOMER_SEGMENT_COLORS: Record<CustomerSegment, string> = {
+  champions: '#10b981',
+  loyal: '#3b82f6',
+  new: '#a855f7',
+  promising: '#14b8a6',
+  at_risk: '#f97316',
+  hibernating: '#eab308',
+  lost: '#ef4444',
+};
+
+export type CohortPeriod = 'week' | 'month';
+
+export interface CustomerProfile {
+  id: string;
+  orders: number;
+  firstOrderAt: number;
+  lastOrderAt: number;
+  daysSinceLastOrder: number; // From the last business day in the data
+  lifetimeValue: number; // Customer spend across delivered orders
+  netLifetimeValue: number; // Net payout from those orders
+  avgOrderValue: number;
+  avgDaysBetween: number | null; // null for one-time customers
+  restaurants: string[];
+  rfm: { recency: number; frequency: number; monetary: number };
+  segment: CustomerSegment;
+}
+
+export interface CohortRow {
+  cohort: string; // Week start (YYYY-MM-DD) or month (YYYY-MM) of the first order
+  size: number;
+  retention: number[]; // % of the cohort ordering in period 0, 1, 2…
+}
+
+export interface CustomerReport {
+  customers: number;
+  identifiedOrders: number;
+  unidentifiedOrders: number; // Delivered orders without a customer id
+  repeatRate: number; // % of customers with 2+ orders
+  ordersPerCustomer: number;
+  avgLifetimeValue: number;
+  avgNetLifetimeValue: number;
+  daysBetweenOrders: { median: number; avg: number; buckets: Array<{ label: string; count: number }> };
+  segments: Array<{ segment: CustomerSegment; label: string; customers: number; lifetimeValue: number; share: number }>;
+  profiles: CustomerProfile[]; // Highest lifetime value first
+  topByRestaurant: Array<{ restaurant: string; customers: Array<{ id: string; orders: number; spend: number }> }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GAP_BUCKETS: Array<{ label: string; max: number }> = [
+  { label: '≤ 7 days', max: 7 },
+  { label: '8-14 days', max: 14 },
+  { label: '15-30 days', max: 30 },
+  { label: '31-60 days', max: 60 },
+  { label: '60+ days', max: Infinity },
+];
+
+export const getCustomerId = (order: Pick<ZomatoOrder, 'customerId'>): string | undefined =>
+  order.customerId?.trim() || undefined;
+
+/** Short form of a hashed id for display. */
+export const formatCustomerId = (id: string): string => (id.length > 10 ? `${id.slice(0, 8)}…` : id);
+
+const dayNumber = (isoDate: string) => Math.round(Date.parse(`${isoDate}T00:00:00Z`) / DAY_MS);
+
+function groupByCustomer(orders: ZomatoOrder[]): Map<string, ZomatoOrder[]> {
+  const customers = new Map<string, ZomatoOrder[]>();
+  orders.forEach((order) => {
+    const id = getCustomerId(order);
+    if (!id || !isDelivered(order)) return;
+    const list = customers.get(id) ?? [];
+    list.push(order);
+    customers.set(id, list);
+  });
+  customers.forEach((list) => list.sort((a, b) => a.orderPlacedAt - b.orderPlacedAt));
+  return customers;
+}
+
+const recencyScore = (days: number) => (days <= 7 ? 5 : days <= 14 ? 4 : days <= 30 ? 3 : days <= 60 ? 2 : 1);
+const frequencyScore = (orders: number) => (orders >= 6 ? 5 : orders >= 4 ? 4 : orders);
+
+function segmentFor(recency: number, frequency: number): CustomerSegment {
+  if (recency >= 4 && frequency >= 4) return 'champions';
+  if (recency >= 3 && frequency >= 3) return 'loyal';
+  if (recency >= 4 && frequency === 1) return 'new';
+  if (recency >= 3) return 'promising';
+  if (frequency >= 3) return 'at_risk';
+  return recency === 2 ? 'hibernating' : 'lost';
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export function analyzeCustomers(orders: ZomatoOrder[], cards?: RateCard[], settings?: KitchenTimeSettings): CustomerReport {
+  const customers = groupByCustomer(orders);
+  const delivered = orders.filter(isDelivered);
+  const identifiedOrders = Array.from(customers.values()).reduce((sum, list) => sum + list.length, 0);
+  const lastDay = delivered.reduce((max, o) => Math.max(max, dayNumber(businessDate(o.orderPlacedAt, settings))), -Infinity);
+
+  const gaps: number[] = [];
+  const profiles: CustomerProfile[] = Array.from(customers.entries()).map(([id, list]) => {
+    const days = list.map((o) => dayNumber(businessDate(o.orderPlacedAt, settings)));
+    const customerGaps = days.slice(1).map((day, i) => day - days[i]);
+    gaps.push(...customerGaps);
+    const lifetimeValue = list.reduce((sum, o) => sum + o.totalAmount, 0);
+    const daysSinceLastOrder = lastDay - days[days.length - 1];
+    return {
+      id,
+      orders: list.length,
+      firstOrderAt: list[0].orderPlacedAt,
+      lastOrderAt: list[list.length - 1].orderPlacedAt,
+      daysSinceLastOrder,
+      lifetimeValue,
+      netLifetimeValue: list.reduce((sum, o) => sum + calculateOrderPayout(o, cards).netPayout, 0),
+      avgOrderValue: lifetimeValue / list.length,
+      avgDaysBetween: customerGaps.length > 0 ? customerGaps.reduce((a, b) => a + b, 0) / customerGaps.length : null,
+      restaurants: Array.from(new Set(list.map((o) => o.restaurantName))),
+      rfm: { recency: recencyScore(daysSinceLastOrder), frequency: frequencyScore(list.length), monetary: 1 },
+      segment: 'lost' as CustomerSegment,
+    };
+  });
+
+  // Monetary quintiles, then segments
+  const byValue = [...profiles].sort((a, b) => a.lifetimeValue - b.lifetimeValue);
+  byValue.forEach((profile, i) => {
+    profile.rfm.monetary = Math.min(5, Math.floor((i / byValue.length) * 5) + 1);
+    profile.segment = segmentFor(profile.rfm.recency, profile.rfm.frequency);
+  });
+  profiles.sort((a, b) => b.lifetimeValue - a.lifetimeValue);
+
+  const segments = (Object.keys(CUSTOMER_SEGMENT_LABELS) as CustomerSegment[]).map((segment) => {
+    const members = profiles.filter((p) => p.segment === segment);
+    return {
+      segment,
+      label: CUSTOMER_SEGMENT_LABELS[segment],
+      customers: members.length,
+      lifetimeValue: members.reduce((sum, p) => sum + p.lifetimeValue, 0),
+      share: profiles.length > 0 ? (members.length / profiles.length) * 100 : 0,
+    };
+  });
+
+  const perRestaurant = new Map<string, Map<string, { orders: number; spend: number }>>();
+  customers.forEach((list, id) => {
+    list.forEach((order) => {
+      const restaurant = perRestaurant.get(order.restaurantName) ?? new Map();
+      const entry = restaurant.get(id) ?? { orders: 0, spend: 0 };
+      entry.orders += 1;
+      entry.spend += order.totalAmount;
+      restaurant.set(id, entry);
+      perRestaurant.set(order.restaurantName, restaurant);
+    });
+  });
+
+  const count = profiles.length;
+  return {
+    customers: count,
+    identifiedOrders,
+    unidentifiedOrders: delivered.length - identifiedOrders,
+    repeatRate: count > 0 ? (profiles.filter((p) => p.orders > 1).length / count) * 100 : 0,
+    ordersPerCustomer: count > 0 ? identifiedOrders / count : 0,
+    avgLifetimeValue: count > 0 ? profiles.reduce((sum, p) => sum + p.lifetimeValue, 0) / count : 0,
+    avgNetLifetimeValue: count > 0 ? profiles.reduce((sum, p) => sum + p.netLifetimeValue, 0) / count : 0,
+    daysBetweenOrders: {
+      median: median(gaps),
+      avg: gaps.length > 0 ? gaps.reduce((a, b) => a + b, 0) / gaps.length : 0,
+      buckets: GAP_BUCKETS.map((bucket, i) => ({
+        label: bucket.label,
+        count: gaps.filter((g) => g <= bucket.max && (i === 0 || g > GAP_BUCKETS[i - 1].max)).length,
+      })),
+    },
+    segments,
+    profiles,
+    topByRestaurant: Array.from(perRestaurant.entries())
+      .map(([restaurant, map]) => ({
+        restaurant,
+        customers: Array.from(map.entries())
+          .map(([id, entry]) => ({ id, ...entry }))
+          .sort((a, b) => b.spend - a.spend)
+          .slice(0, 10),
+      }))
+      .sort((a, b) => a.restaurant.localeCompare(b.restaurant)),
+  };
+}
+
+const periodKey = (ms: number, period: CohortPeriod, settings?: KitchenTimeSettings) =>
+  period === 'week' ? businessWeekStart(ms, settings) : businessMonth(ms, settings);
+
+function periodOffset(from: string, to: string, period: CohortPeriod): number {
+  if (period === 'week') return Math.round((dayNumber(to) - dayNumber(from)) / 7);
+  const [fy, fm] = from.split('-').map(Number);
+  const [ty, tm] = to.split('-').map(Number);
+  return (ty - fy) * 12 + (tm - fm);
+}
+
+/**
+ * First-order cohorts with the share of each cohort ordering again in each
+ * following period, oldest cohort first. Period 0 is always 100%.
+ */
+export function buildCohorts(orders: ZomatoOrder[], period: CohortPeriod, settings?: KitchenTimeSettings): CohortRow[] {
+  const customers = groupByCustomer(orders);
+  const allPeriods = orders.filter(isDelivered).map((o) => periodKey(o.orderPlacedAt, period, settings)).sort();
+  if (allPeriods.length === 0) return [];
+  const lastPeriod = allPeriods[allPeriods.length - 1];
+
+  const cohorts = new Map<string, Array<Set<number>>>();
+  customers.forEach((list) => {
+    const cohort = periodKey(list[0].orderPlacedAt, period, settings);
+    const offsets = new Set(list.map((o) => periodOffset(cohort, periodKey(o.orderPlacedAt, period, settings), period)));
+    const members = cohorts.get(cohort) ?? [];
+    members.push(offsets);
+    cohorts.set(cohort, members);
+  });
+
+  return Array.from(cohorts.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([cohort, members]) => {
+      const periods = periodOffset(cohort, lastPeriod, period) + 1; // Only periods the data covers
+      return {
+        cohort,
+        size: members.length,
+        retention: Array.from({ length: periods }, (_, offset) =>
+          (members.filter((offsets) => offsets.has(offset)).length / members.length) * 100
+        ),
+      };
+    });
+}
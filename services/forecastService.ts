@@ -0,0 +1,311 @@
+import { ZomatoOrder } from "../types";
+import { KitchenTimeSettings, addDays, businessDate, kitchenHour } from "./kitchenTimeService";
+import { getOrderItems } from "./orderItems";
+import { canonicalItemName } from "./menuCatalogService";
+
+/**
+ * Demand forecasting on the order history.
+ *
+ * Demand is every order placed (cancelled and rejected included), counted per
+ * business day with missing days filled as zero. Two models with weekly
+ * seasonality are fitted:
+ *   seasonal naive – next Monday looks like last Monday
+ *   Holt-Winters   – additive level, trend and weekday terms; smoothing
+ *                    parameters are grid-searched on one-step errors
+ * Each model is backtested by refitting without the last `horizon` days
+ * (at least a week) and scoring the held-out days with MAPE; the better one
+ * produces the forecast. Prediction intervals come from the spread of the
+ * in-sample one-step errors, widened with the horizon.
+ *
+ * Hourly forecasts split each day's forecast by that weekday's historical
+ * hour profile. Item forecasts fit the same models to each item's daily
+ * quantity series.
+ */
+
+export type ForecastModel = 'holt_winters' | 'seasonal_naive' | 'exponential_smoothing';
+
+export const FORECAST_MODEL_LABELS: Record<ForecastModel, string> = {
+  holt_winters: 'Holt-Winters',
+  seasonal_naive: 'Seasonal naive',
+  exponential_smoothing: 'Exponential smoothing',
+};
+
+export interface ForecastPoint {
+  date: string; // Business date, YYYY-MM-DD
+  forecast: number;
+  lower: number; // 95% prediction interval
+  upper: number;
+}
+
+export interface SeriesForecast {
+  model: ForecastModel;
+  mape: number | null; // Backtest %, null when the history is too short
+  modelMapes: Partial<Record<ForecastModel, number>>;
+  history: Array<{ date: string; actual: number }>;
+  backtest: ForecastPoint[]; // Held-out days as the chosen model predicted them
+  points: ForecastPoint[];
+}
+
+export interface ItemForecast {
+  item: string;
+  model: ForecastModel;
+  mape: number | null;
+  total: number; // Quantity over the horizon
+  lower: number;
+  upper: number;
+  points: ForecastPoint[];
+}
+
+export interface DemandForecast {
+  horizon: number;
+  daily: SeriesForecast;
+  hourly: Array<{ date: string; hours: number[] }>; // 24 expected order counts per forecast day
+  byHour: Array<{ hour: number; orders: number }>; // Summed over the horizon
+  byItem: ItemForecast[]; // Largest forecast first
+}
+
+const SEASON = 7;
+const Z_95 = 1.96;
+const MIN_BACKTEST_DAYS = 7;
+const MAX_ITEMS = 10;
+const MIN_WEEKDAY_ORDERS = 10; // Below this a weekday uses the overall hour profile
+
+const ALPHAS = [0.1, 0.2, 0.3, 0.5, 0.7];
+const BETAS = [0, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+interface Fit {
+  model: ForecastModel;
+  predict: (h: number) => number; // h = 1, 2, … days past the series
+  sigma: (h: number) => number;
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+const rms = (errors: number[]) => Math.sqrt(mean(errors.map((e) => e * e)));
+
+function fitExponentialSmoothing(series: number[]): Fit {
+  let best = { sse: Infinity, alpha: ALPHAS[0], level: series[0] ?? 0, errors: [] as number[] };
+  ALPHAS.forEach((alpha) => {
+    let level = series[0] ?? 0;
+    const errors: number[] = [];
+    series.slice(1).forEach((y) => {
+      errors.push(y - level);
+      level = alpha * y + (1 - alpha) * level;
+    });
+    const sse = errors.reduce((sum, e) => sum + e * e, 0);
+    if (sse < best.sse) best = { sse, alpha, level, errors };
+  });
+  const sd = rms(best.errors);
+  return {
+    model: 'exponential_smoothing',
+    predict: () => best.level,
+    sigma: (h) => sd * Math.sqrt(1 + (h - 1) * best.alpha * best.alpha),
+  };
+}
+
+function fitSeasonalNaive(series: number[]): Fit {
+  const n = series.length;
+  const errors = series.slice(SEASON).map((y, i) => y - series[i]);
+  const sd = rms(errors);
+  return {
+    model: 'seasonal_naive',
+    predict: (h) => series[n - SEASON + ((h - 1) % SEASON)],
+    sigma: (h) => sd * Math.sqrt(Math.floor((h - 1) / SEASON) + 1),
+  };
+}
+
+function runHoltWinters(series: number[], alpha: number, beta: number, gamma: number) {
+  let level = mean(series.slice(0, SEASON));
+  let trend = (mean(series.slice(SEASON, 2 * SEASON)) - level) / SEASON;
+  const seasonal = series.slice(0, SEASON).map((y) => y - level);
+  const errors: number[] = [];
+  for (let t = SEASON; t < series.length; t++) {
+    const s = seasonal[t % SEASON];
+    errors.push(series[t] - (level + trend + s));
+    const nextLevel = alpha * (series[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    seasonal[t % SEASON] = gamma * (series[t] - nextLevel) + (1 - gamma) * s;
+    level = nextLevel;
+  }
+  return { level, trend, seasonal, errors };
+}
+
+function fitHoltWinters(series: number[]): Fit {
+  const n = series.length;
+  let best: { sse: number; alpha: number; beta: number; state: ReturnType<typeof runHoltWinters> } | null = null;
+  ALPHAS.forEach((alpha) => BETAS.forEach((beta) => GAMMAS.forEach((gamma) => {
+    const state = runHoltWinters(series, alpha, beta, gamma);
+    const sse = state.errors.reduce((sum, e) => sum + e * e, 0);
+    if (!best || sse < best.sse) best = { sse, alpha, beta, state };
+  })));
+  const { alpha, beta, state } = best!;
+  const sd = rms(state.errors);
+  return {
+    model: 'holt_winters',
+    predict: (h) => state.level + h * state.trend + state.seasonal[(n + h - 1) % SEASON],
+    // Variance grows with the level and trend carried forward
+    sigma: (h) => {
+      let variance = 1;
+      for (let j = 1; j < h; j++) variance += (alpha * (1 + j * beta)) ** 2;
+      return sd * Math.sqrt(variance);
+    },
+  };
+}
+
+/** Models that can be fitted on a series of this length. */
+function candidateModels(length: number): Array<(series: number[]) => Fit> {
+  if (length >= 2 * SEASON) return [fitHoltWinters, fitSeasonalNaive];
+  if (length >= SEASON) return [fitSeasonalNaive];
+  return [fitExponentialSmoothing];
+}
+
+function project(fit: Fit, startDate: string, horizon: number): ForecastPoint[] {
+  return Array.from({ length: horizon }, (_, i) => {
+    const forecast = Math.max(0, fit.predict(i + 1));
+    const margin = Z_95 * fit.sigma(i + 1);
+    return {
+      date: addDays(startDate, i),
+      forecast,
+      lower: Math.max(0, forecast - margin),
+      upper: forecast + margin,
+    };
+  });
+}
+
+/**
+ * Total over a run of forecast days. The interval treats daily errors as
+ * independent, so it is narrower than adding up the daily bounds.
+ */
+export function sumForecast(points: ForecastPoint[]): { total: number; lower: number; upper: number } {
+  const total = points.reduce((sum, p) => sum + p.forecast, 0);
+  const margin = Math.sqrt(points.reduce((sum, p) => sum + (p.upper - p.forecast) ** 2, 0));
+  return { total, lower: Math.max(0, total - margin), upper: total + margin };
+}
+
+/** Mean absolute percentage error over days with demand; null when none. */
+export function mape(actual: number[], predicted: number[]): number | null {
+  const errors = actual
+    .map((y, i) => (y > 0 ? Math.abs(y - predicted[i]) / y : null))
+    .filter((e): e is number => e !== null);
+  return errors.length > 0 ? mean(errors) * 100 : null;
+}
+
+/**
+ * Forecast a daily series starting at `firstDate`. Exported for reuse on
+ * other daily series (e.g. revenue).
+ */
+export function forecastSeries(series: number[], firstDate: string, horizon: number): SeriesForecast {
+  const history = series.map((actual, i) => ({ date: addDays(firstDate, i), actual }));
+  const nextDate = addDays(firstDate, series.length);
+  if (series.length === 0) {
+    return { model: 'exponential_smoothing', mape: null, modelMapes: {}, history, backtest: [], points: [] };
+  }
+
+  const holdout = Math.max(horizon, MIN_BACKTEST_DAYS);
+  const train = series.slice(0, series.length - holdout);
+  const modelMapes: Partial<Record<ForecastModel, number>> = {};
+  const backtests = new Map<ForecastModel, ForecastPoint[]>();
+  if (train.length >= SEASON) {
+    const actual = series.slice(train.length);
+    candidateModels(train.length).forEach((fitModel) => {
+      const fit = fitModel(train);
+      const points = project(fit, addDays(firstDate, train.length), holdout);
+      const score = mape(actual, points.map((p) => p.forecast));
+      backtests.set(fit.model, points);
+      if (score !== null) modelMapes[fit.model] = score;
+    });
+  }
+
+  const fits = candidateModels(series.length).map((fitModel) => fitModel(series));
+  const scored = fits.filter((fit) => modelMapes[fit.model] !== undefined);
+  const chosen = scored.length > 0
+    ? scored.reduce((a, b) => (modelMapes[b.model]! < modelMapes[a.model]! ? b : a))
+    : fits[0];
+
+  return {
+    model: chosen.model,
+    mape: modelMapes[chosen.model] ?? null,
+    modelMapes,
+    history,
+    backtest: backtests.get(chosen.model) ?? [],
+    points: project(chosen, nextDate, horizon),
+  };
+}
+
+function dailySeries(counts: Map<string, number>, firstDate: string, lastDate: string): number[] {
+  const series: number[] = [];
+  for (let date = firstDate; date <= lastDate; date = addDays(date, 1)) series.push(counts.get(date) ?? 0);
+  return series;
+}
+
+const weekdayOf = (isoDate: string) => new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+
+export function forecastDemand(orders: ZomatoOrder[], horizon = 7, settings?: KitchenTimeSettings): DemandForecast {
+  const dates = orders.map((o) => businessDate(o.orderPlacedAt, settings));
+  if (dates.length === 0) {
+    return { horizon, daily: forecastSeries([], '', horizon), hourly: [], byHour: [], byItem: [] };
+  }
+  const sortedDates = [...dates].sort();
+  const firstDate = sortedDates[0];
+  const lastDate = sortedDates[sortedDates.length - 1];
+
+  const dayCounts = new Map<string, number>();
+  const hourCounts = Array.from({ length: SEASON }, () => new Array(24).fill(0));
+  const itemCounts = new Map<string, Map<string, number>>();
+  orders.forEach((order, i) => {
+    const date = dates[i];
+    dayCounts.set(date, (dayCounts.get(date) ?? 0) + 1);
+    hourCounts[weekdayOf(date)][kitchenHour(order.orderPlacedAt, settings)] += 1;
+    getOrderItems(order).forEach((item) => {
+      const name = canonicalItemName(item);
+      const perDay = itemCounts.get(name) ?? new Map<string, number>();
+      perDay.set(date, (perDay.get(date) ?? 0) + item.quantity);
+      itemCounts.set(name, perDay);
+    });
+  });
+
+  const daily = forecastSeries(dailySeries(dayCounts, firstDate, lastDate), firstDate, horizon);
+
+  // Hour profile per weekday, falling back to all days when a weekday is thin
+  const overall = new Array(24).fill(0).map((_, h) => hourCounts.reduce((sum, day) => sum + day[h], 0));
+  const hourly = daily.points.map((point) => {
+    const counts = hourCounts[weekdayOf(point.date)];
+    const profile = counts.reduce((a, b) => a + b, 0) >= MIN_WEEKDAY_ORDERS ? counts : overall;
+    const total = profile.reduce((a, b) => a + b, 0) || 1;
+    return { date: point.date, hours: profile.map((count) => (point.forecast * count) / total) };
+  });
+  const byHour = Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    orders: hourly.reduce((sum, day) => sum + day.hours[hour], 0),
+  }));
+
+  const byItem = Array.from(itemCounts.entries())
+    .map(([item, perDay]) => ({ item, sold: Array.from(perDay.values()).reduce((a, b) => a + b, 0), perDay }))
+    .sort((a, b) => b.sold - a.sold)
+    .slice(0, MAX_ITEMS)
+    .map(({ item, perDay }) => {
+      const forecast = forecastSeries(dailySeries(perDay, firstDate, lastDate), firstDate, horizon);
+      return {
+        item,
+        model: forecast.model,
+        mape: forecast.mape,
+        ...sumForecast(forecast.points),
+        points: forecast.points,
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+
+  return { horizon, daily, hourly, byHour, byItem };
+}
+
+/** Forecast summary as one line for AI prompts. */
+export function formatForecast(forecast: DemandForecast): string {
+  const { daily } = forecast;
+  if (daily.points.length === 0) return 'Not enough order history to forecast';
+  const { total, lower, upper } = sumForecast(daily.points);
+  const peak = forecast.byHour.reduce((a, b) => (b.orders > a.orders ? b : a));
+  return `${Math.round(total)} orders over the next ${forecast.horizon} days (95% range ${Math.round(lower)}-${Math.round(upper)}, ` +
+    `${FORECAST_MODEL_LABELS[daily.model]}${daily.mape !== null ? `, backtest MAPE ${daily.mape.toFixed(0)}%` : ''}), ` +
+    `busiest hour ${peak.hour}:00` +
+    (forecast.byItem.length > 0 ? `; top items: ${forecast.byItem.slice(0, 3).map((i) => `${i.item} ~${Math.round(i.total)}`).join(', ')}` : '');
+}
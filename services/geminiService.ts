@@ -1,6 +1,15 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { ZomatoOrder, InsightResponse } from "../types";
+import { formatChannelMix } from "./channelService";
+import { countItemQuantities } from "./orderItems";
+import { isDelivered, isRestaurantRejection } from "./orderStatusService";
+import { PayoutSummary, formatPayoutSummary, summarizePayouts } from "./payoutService";
+import { BundleCandidate, analyzeBaskets, formatBundles } from "./basketService";
+import { DemandForecast, forecastDemand, formatForecast, sumForecast } from "./forecastService";
+import { MenuEngineeringReport, analyzeMenuEngineering, formatMenuEngineering } from "./menuEngineeringService";
+import { REVIEW_ASPECT_LABELS, ReviewReport, analyzeReviews, formatReviewSummary } from "./reviewAnalyticsService";
+import { GOAL_METRICS, Goal, GoalProgress, describeGoal, evaluateGoals, formatGoalStatus, formatGoalValue } from "./goalService";
 
 const geminiApiKey =
   import.meta.env.VITE_GEMINI_API_KEY ||
@@ -32,10 +41,12 @@ function isRateLimitError(err: any): boolean {
   return status === 429 || message.includes('429') || message.includes('too many requests') || message.includes('rate limit');
 }
 
-function buildInsightCacheKey(userName: string, orders: ZomatoOrder[]): string {
+function buildInsightCacheKey(userName: string, orders: ZomatoOrder[], payout: PayoutSummary, goals: Goal[]): string {
   const total = orders.reduce((sum, o) => sum + (o.totalAmount || 0), 0).toFixed(2);
   const latest = orders.reduce((max, o) => Math.max(max, Number(o.orderPlacedAt) || 0), 0);
-  return `${userName}|${orders.length}|${total}|${latest}`;
+  // Net payout changes with the rate cards, so edited cards don't serve a stale report.
+  const goalKey = goals.map(g => `${g.id}:${g.target}`).join(',');
+  return `${userName}|${orders.length}|${total}|${latest}|${payout.netPayout.toFixed(2)}|${goalKey}`;
 }
 
 function getCooldownErrorMessage(): string {
@@ -44,18 +55,45 @@ function getCooldownErrorMessage(): string {
   return `Gemini is temporarily rate-limited. Retry in ~${waitSec}s.`;
 }
 
+/**
+ * Profitability figures from the payout calculator; these replace whatever
+ * numbers the model returns so the report always matches the rate cards.
+ */
+function payoutFigures(payout: PayoutSummary): Omit<InsightResponse['profitabilityAnalysis'], 'analysis'> {
+  return {
+    grossRevenue: payout.gross,
+    zomatoCommission: payout.commission + payout.gstOnCommission,
+    estimatedNet: payout.netPayout,
+    gatewayFees: payout.gatewayFee,
+    fixedFees: payout.fixedFees,
+    restaurantDiscounts: payout.restaurantDiscount,
+    penalties: payout.penalties,
+  };
+}
+
 /**
  * Deterministic fallback when Gemini is unavailable.
  */
-function localInsightFallback(orders: ZomatoOrder[], userName: string, totalRevenue: number, totalOrders: number, avgRating: string, daysSinceLastOrder: number, topItems: string): InsightResponse {
-  const zomatoCommission = totalRevenue * 0.35;
-  const netRevenue = totalRevenue - zomatoCommission;
+function localInsightFallback(orders: ZomatoOrder[], userName: string, payout: PayoutSummary, totalOrders: number, avgRating: string, daysSinceLastOrder: number, topItems: string, bundles: BundleCandidate[], forecast: DemandForecast, menu: MenuEngineeringReport, reviews: ReviewReport, goals: GoalProgress[]): InsightResponse {
+  const totalRevenue = payout.gross;
+  const netRevenue = payout.netPayout;
+  const deductionShare = totalRevenue > 0 ? ((payout.platformDeductions / totalRevenue) * 100).toFixed(0) : '0';
   const isStale = daysSinceLastOrder > 7;
 
   let demandInsight = '';
   if (topItems) {
     const items = topItems.split(',').map(s => s.trim()).slice(0, 3);
-    demandInsight = `Top performers: ${items.join(', ')}. Use these as hero items and build bundles around them to raise average order value.`;
+    demandInsight = bundles.length > 0
+      ? `Top performers: ${items.join(', ')}. Customers already pair ${bundles[0].items.join(' + ')} (${bundles[0].orders} orders); a combo${bundles[0].suggestedPrice !== undefined ? ` around ₹${bundles[0].suggestedPrice}` : ''} could raise average order value.`
+      : `Top performers: ${items.join(', ')}. Use these as hero items and build bundles around them to raise average order value.`;
+    if (forecast.daily.points.length > 0) {
+      const { total, lower, upper } = sumForecast(forecast.daily.points);
+      demandInsight += ` Expect about ${Math.round(total)} orders over the next ${forecast.horizon} days (likely ${Math.round(lower)}-${Math.round(upper)}).`;
+    }
+    const puzzle = menu.items.find(i => i.quadrant === 'puzzle');
+    const dog = menu.items.find(i => i.quadrant === 'dog');
+    if (puzzle) demandInsight += ` ${puzzle.item} earns a high margin but sells little; promote it.`;
+    if (dog) demandInsight += ` ${dog.item} is neither popular nor profitable; rework or drop it.`;
   } else {
     demandInsight = `Insufficient data for demand forecasting. Upload more records to unlock menu optimization.`;
   }
@@ -70,6 +108,10 @@ function localInsightFallback(orders: ZomatoOrder[], userName: string, totalReve
   } else {
     customerInsight = `Insufficient ratings data. Encourage customers to rate orders for better insights.`;
   }
+  const topComplaint = reviews.aspects.find(a => a.negative > 0);
+  if (topComplaint) {
+    customerInsight += ` ${reviews.sentimentCounts.negative} of ${reviews.reviewed} written reviews are negative, most often about ${REVIEW_ASPECT_LABELS[topComplaint.aspect].toLowerCase()} (${topComplaint.negative}).`;
+  }
 
   return {
     greeting: `Welcome back, Chef ${userName}. Here's your kitchen snapshot.`,
@@ -77,27 +119,41 @@ function localInsightFallback(orders: ZomatoOrder[], userName: string, totalReve
     demandForecasting: demandInsight,
     customerInsights: customerInsight,
     profitabilityAnalysis: {
-      grossRevenue: totalRevenue,
-      zomatoCommission: zomatoCommission,
-      estimatedNet: netRevenue,
+      ...payoutFigures(payout),
       analysis: netRevenue > 10000 
-        ? `Strong profitability: ₹${netRevenue.toLocaleString()} net from ₹${totalRevenue.toLocaleString()} gross. At ${totalOrders} orders, your unit margin is solid. Scale operations to increase absolute profit.`
-        : `Tight margins: 35% Zomato cut leaves limited room. Focus on high-margin items and operational efficiency. Consider menu consolidation.`
+        ? `Strong profitability: ₹${netRevenue.toLocaleString()} net payout from ₹${totalRevenue.toLocaleString()} gross. At ${totalOrders} orders, your unit margin is solid. Scale operations to increase absolute profit.`
+        : `Tight margins: platform commission, GST and fees take ${deductionShare}% of gross, leaving limited room. Focus on high-margin items and operational efficiency. Consider menu consolidation.`
     },
     recommendations: [
       `Optimize top 3 items: ${topItems.split(',').slice(0, 3).join(', ') || 'Pending data'}`,
-      `Target ${Math.round(totalOrders * 1.25)} orders/month via promotions`,
+      goalRecommendation(goals) ?? `Target ${Math.round(totalOrders * 1.25)} orders/month via promotions`,
       `Monitor ratings weekly; aim for 4.5+ to reduce churn`
     ]
   };
 }
 
-export const analyzeKitchenData = async (orders: ZomatoOrder[], userName: string): Promise<InsightResponse> => {
+/** The goal furthest behind, as a recommendation; undefined when every goal is on track. */
+function goalRecommendation(goals: GoalProgress[]): string | undefined {
+  const behind = goals
+    .filter(p => p.status === 'off_track' || p.status === 'at_risk')
+    .sort((a, b) => a.projectedAttainment - b.projectedAttainment)[0];
+  if (!behind) return undefined;
+  const { metric, target } = behind.goal;
+  if (GOAL_METRICS[metric].cumulative && behind.actual !== null) {
+    const daysLeft = Math.max(1, behind.daysTotal - behind.daysElapsed);
+    const perDay = Math.max(0, target - behind.actual) / daysLeft;
+    return `${describeGoal(behind.goal)} goal is ${behind.status === 'at_risk' ? 'at risk' : 'off track'}: projected ${formatGoalValue(metric, behind.projected)} of ${formatGoalValue(metric, target)}; you need about ${formatGoalValue(metric, perDay)} a day for the rest of the ${behind.goal.period}`;
+  }
+  return `${describeGoal(behind.goal)} goal is ${behind.status === 'at_risk' ? 'at risk' : 'off track'}: ${formatGoalValue(metric, behind.actual)} against a target of ${formatGoalValue(metric, target)}`;
+}
+
+export const analyzeKitchenData = async (orders: ZomatoOrder[], userName: string, goals: Goal[] = []): Promise<InsightResponse> => {
   if (orders.length === 0) {
     throw new Error('No orders available for analysis.');
   }
 
-  const cacheKey = buildInsightCacheKey(userName, orders);
+  const payout = summarizePayouts(orders);
+  const cacheKey = buildInsightCacheKey(userName, orders, payout, goals);
   const cached = insightCache.get(cacheKey);
   if (cached && (Date.now() - cached.at) < INSIGHT_CACHE_TTL_MS) {
     return cached.data;
@@ -108,9 +164,7 @@ export const analyzeKitchenData = async (orders: ZomatoOrder[], userName: string
     return existing;
   }
 
-  const totalRevenue = orders.reduce((sum, o) => sum + o.totalAmount, 0);
   const totalOrders = orders.length;
-  const zomatoCommission = totalRevenue * 0.35;
 
   const ratedOrders = orders.filter(o => o.rating !== undefined);
   const avgRating = ratedOrders.length > 0 
@@ -122,23 +176,15 @@ export const analyzeKitchenData = async (orders: ZomatoOrder[], userName: string
   const daysSinceLastOrder = Math.floor((Date.now() - lastOrderDate.getTime()) / (1000 * 60 * 60 * 24));
   
   // Top Items for context
-  const itemsMap: Record<string, number> = {};
-  orders.forEach(o => {
-      if(o.items) {
-          const parts = o.items.split(',');
-          parts.forEach(p => {
-              const name = p.replace(/^\d+\s*[xX]\s*/, '').trim();
-              itemsMap[name] = (itemsMap[name] || 0) + 1;
-          });
-      }
-  });
-  const topItems = Object.entries(itemsMap).sort((a, b) => b[1] - a[1]).slice(0, 5).map(x => x[0]).join(", ");
-
-  const completedOrders = orders.filter(o => {
-    const s = (o.orderStatus || '').toLowerCase();
-    return s.includes('deliver') || s.includes('complete');
-  }).length;
-  const rejectedOrders = orders.filter(o => (o.orderStatus || '').toLowerCase().includes('reject')).length;
+  const topItems = countItemQuantities(orders).slice(0, 5).map(x => x.name).join(", ");
+  const bundles = analyzeBaskets(orders).bundles;
+  const forecast = forecastDemand(orders, 7);
+  const menu = analyzeMenuEngineering(orders);
+  const reviews = analyzeReviews(orders);
+  const goalProgress = evaluateGoals(goals, orders);
+
+  const completedOrders = orders.filter(isDelivered).length;
+  const rejectedOrders = orders.filter(isRestaurantRejection).length;
   const completionRate = ((completedOrders / Math.max(1, totalOrders)) * 100).toFixed(1);
 
   const hourlyCounts = new Array(24).fill(0);
@@ -160,15 +206,20 @@ export const analyzeKitchenData = async (orders: ZomatoOrder[], userName: string
         const result = await callGoogleGenAI({
           orders,
           userName,
-          totalRevenue,
-          zomatoCommission,
+          payout,
           daysSinceLastOrder,
           avgRating,
           topItems,
+          bundles: formatBundles(bundles),
+          forecast: formatForecast(forecast),
+          menuEngineering: formatMenuEngineering(menu),
+          reviews: formatReviewSummary(reviews),
+          goals: formatGoalStatus(goalProgress),
           completionRate,
           rejectedOrders,
           peakHour: peakHour ? `${peakHour.hour.toString().padStart(2, '0')}:00-${((peakHour.hour + 1) % 24).toString().padStart(2, '0')}:00` : 'N/A',
         });
+        result.profitabilityAnalysis = { ...result.profitabilityAnalysis, ...payoutFigures(payout) };
         insightCache.set(cacheKey, { at: Date.now(), data: result });
         return result;
       } catch (err) {
@@ -184,7 +235,7 @@ export const analyzeKitchenData = async (orders: ZomatoOrder[], userName: string
 
     // Fallback: deterministic local analysis
     console.info('✓ Using local fallback analysis');
-    const fallback = localInsightFallback(orders, userName, totalRevenue, totalOrders, avgRating, daysSinceLastOrder, topItems);
+    const fallback = localInsightFallback(orders, userName, payout, totalOrders, avgRating, daysSinceLastOrder, topItems, bundles, forecast, menu, reviews, goalProgress);
     insightCache.set(cacheKey, { at: Date.now(), data: fallback });
     return fallback;
   })();
@@ -200,11 +251,15 @@ export const analyzeKitchenData = async (orders: ZomatoOrder[], userName: string
 async function callGoogleGenAI(params: {
   orders: ZomatoOrder[];
   userName: string;
-  totalRevenue: number;
-  zomatoCommission: number;
+  payout: PayoutSummary;
   daysSinceLastOrder: number;
   avgRating: string;
   topItems: string;
+  bundles: string;
+  forecast: string;
+  menuEngineering: string;
+  reviews: string;
+  goals: string;
   completionRate: string;
   rejectedOrders: number;
   peakHour: string;
@@ -212,11 +267,15 @@ async function callGoogleGenAI(params: {
   const {
     orders,
     userName,
-    totalRevenue,
-    zomatoCommission,
+    payout,
     daysSinceLastOrder,
     avgRating,
     topItems,
+    bundles,
+    forecast,
+    menuEngineering,
+    reviews,
+    goals,
     completionRate,
     rejectedOrders,
     peakHour,
@@ -226,24 +285,32 @@ async function callGoogleGenAI(params: {
     You are 'KitchenOS AI', a strategic partner for a Cloud Kitchen owned by ${userName}.
     
     DATA CONTEXT:
-    - Gross Revenue: ₹${totalRevenue.toFixed(2)}
-    - Zomato Commission (est 35%): ₹${zomatoCommission.toFixed(2)}
+    - Gross Revenue: ₹${payout.gross.toFixed(2)}
+    - Aggregator Commission incl. GST: ₹${(payout.commission + payout.gstOnCommission).toFixed(2)}
+    - Net Payout (rate cards): ₹${payout.netPayout.toFixed(2)}
+    - Payout Breakdown: ${formatPayoutSummary(payout)}
     - Total Orders: ${orders.length}
     - Days since last data upload: ${daysSinceLastOrder}
     - Average Rating: ${avgRating}
     - Completion Rate: ${completionRate}%
     - Rejected Orders: ${rejectedOrders}
     - Top Items: ${topItems || 'N/A'}
+    - Frequently Ordered Together (combo candidates): ${bundles}
+    - Menu Engineering (popularity vs contribution margin): ${menuEngineering}
+    - Demand Forecast (statistical, next 7 days): ${forecast}
+    - Customer Reviews (lexicon sentiment and complaint aspects): ${reviews}
+    - Goals (current week / month, projected from the run rate): ${goals}
     - Peak Hour: ${peakHour}
+    - Sales Channels: ${formatChannelMix(orders)}
 
     REQUIREMENTS:
     Provide a JSON response with specific deep-dive sections.
     1. "greeting": A warm, professional greeting to ${userName}.
     2. "alert": If (daysSinceLastOrder > 7), warn that data is stale. Else null.
-    3. "demandForecasting": Analyze likely trends and menu optimization.
-    4. "customerInsights": Analyze customer satisfaction based on available data.
+    3. "demandForecasting": Analyze likely trends and menu optimization. Base expected volumes on the demand forecast (do not invent other numbers) reference the combo candidates where they fit, and cite the menu-engineering class (star, plowhorse, puzzle, dog) when recommending items to push, reprice or drop.
+    4. "customerInsights": Analyze customer satisfaction based on available data, including the review complaint aspects and tags.
     5. "profitabilityAnalysis": An object containing numeric values for grossRevenue, zomatoCommission, estimatedNet, and a string "analysis".
-    6. "recommendations": 3 actionable steps to improve profitability or ratings.
+    6. "recommendations": 3 actionable steps to improve profitability or ratings. Use the owner's goals as the targets (do not invent new ones) and put the goals that are off track or at risk first.
   `;
 
   if (!ai) {
@@ -0,0 +1,121 @@
+import { ZomatoOrder } from "../types";
+import { RateCard, calculateOrderPayout } from "./payoutService";
+import { isDelivered, isFailedOrder } from "./orderStatusService";
+
+/**
+ * Geographic analytics by delivery subzone and distance band.
+ *
+ * Exports give distance as a rounded band ("<1km", "3km"); Swiggy and POS
+ * files may use "1.5 km" or "800 m". parseDistanceKm turns all of these into
+ * kilometres ("<1km" counts as 0.5) and DISTANCE_BANDS groups them into
+ * delivery-radius rings.
+ */
+
+export interface DistanceBand {
+  key: string;
+  label: string;
+  minKm: number; // Inclusive
+  maxKm: number; // Exclusive
+}
+
+export const DISTANCE_BANDS: DistanceBand[] = [
+  { key: 'lt1', label: '< 1 km', minKm: 0, maxKm: 1 },
+  { key: '1-3', label: '1-3 km', minKm: 1, maxKm: 3 },
+  { key: '3-5', label: '3-5 km', minKm: 3, maxKm: 5 },
+  { key: '5-7', label: '5-7 km', minKm: 5, maxKm: 7 },
+  { key: '7+', label: '7+ km', minKm: 7, maxKm: Infinity },
+];
+
+export interface GeoSegment {
+  key: string;
+  label: string;
+  orders: number;
+  orderShare: number; // % of orders in scope
+  delivered: number;
+  revenue: number; // Delivered order value
+  avgOrderValue: number;
+  avgNetPayout: number; // Per delivered order, from the rate cards
+  cancellationRate: number; // % of orders cancelled or rejected
+  avgRiderWait: number | null; // Minutes
+  avgRating: number | null;
+  ratedOrders: number;
+}
+
+export interface GeoReport {
+  bySubzone: GeoSegment[]; // Most orders first
+  byDistance: GeoSegment[]; // Nearest band first; bands without orders are kept
+  unknownDistance: number; // Orders without a parseable distance
+  avgDistanceKm: number | null;
+}
+
+const UNKNOWN_SUBZONE = 'Unknown subzone';
+
+/** Distance in km from an export value, or undefined when it can't be read. */
+export function parseDistanceKm(raw: string | undefined): number | undefined {
+  if (!raw) return undefined;
+  const text = raw.trim().toLowerCase().replace(/,/g, '.');
+  const match = text.match(/^(<|less than|under)?\s*(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*(km|kms|kilometers?|m|meters?|metres?)?$/);
+  if (!match) return undefined;
+  const [, below, from, to, unit] = match;
+  let value = to !== undefined ? (Number(from) + Number(to)) / 2 : Number(from);
+  if (unit && unit.startsWith('m')) value /= 1000;
+  if (below) value /= 2;
+  return Number.isFinite(value) ? value : undefined;
+}
+
+export function getDistanceBand(km: number): DistanceBand {
+  return DISTANCE_BANDS.find((band) => km >= band.minKm && km < band.maxKm) ?? DISTANCE_BANDS[DISTANCE_BANDS.length - 1];
+}
+
+const isDuration = (value: number | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+function summarize(key: string, label: string, orders: ZomatoOrder[], scopeSize: number, cards?: RateCard[]): GeoSegment {
+  const delivered = orders.filter(isDelivered);
+  const revenue = delivered.reduce((sum, o) => sum + o.totalAmount, 0);
+  const waits = orders.map((o) => o.riderWaitMinutes).filter(isDuration);
+  const ratings = orders.map((o) => o.rating).filter((r): r is number => typeof r === 'number' && r > 0);
+  return {
+    key,
+    label,
+    orders: orders.length,
+    orderShare: scopeSize > 0 ? (orders.length / scopeSize) * 100 : 0,
+    delivered: delivered.length,
+    revenue,
+    avgOrderValue: delivered.length > 0 ? revenue / delivered.length : 0,
+    avgNetPayout: delivered.length > 0
+      ? delivered.reduce((sum, o) => sum + calculateOrderPayout(o, cards).netPayout, 0) / delivered.length
+      : 0,
+    cancellationRate: orders.length > 0 ? (orders.filter(isFailedOrder).length / orders.length) * 100 : 0,
+    avgRiderWait: waits.length > 0 ? waits.reduce((a, b) => a + b, 0) / waits.length : null,
+    avgRating: ratings.length > 0 ? ratings.reduce((a, b) => a + b, 0) / ratings.length : null,
+    ratedOrders: ratings.length,
+  };
+}
+
+export function analyzeGeo(orders: ZomatoOrder[], cards?: RateCard[]): GeoReport {
+  const subzones = new Map<string, ZomatoOrder[]>();
+  const bands = new Map<string, ZomatoOrder[]>(DISTANCE_BANDS.map((band) => [band.key, []]));
+  const distances: number[] = [];
+
+  orders.forEach((order) => {
+    const subzone = order.subzone?.trim() || UNKNOWN_SUBZONE;
+    const list = subzones.get(subzone) ?? [];
+    list.push(order);
+    subzones.set(subzone, list);
+
+    const km = parseDistanceKm(order.distance);
+    if (km === undefined) return;
+    distances.push(km);
+    bands.get(getDistanceBand(km).key)!.push(order);
+  });
+
+  return {
+    bySubzone: Array.from(subzones.entries())
+      .map(([subzone, list]) => summarize(subzone, subzone, list, orders.length, cards))
+      .sort((a, b) => b.orders - a.orders),
+    byDistance: DISTANCE_BANDS.map((band) => summarize(band.key, band.label, bands.get(band.key)!, orders.length, cards)),
+    unknownDistance: orders.length - distances.length,
+    avgDistanceKm: distances.length > 0 ? distances.reduce((a, b) => a + b, 0) / distances.length : null,
+  };
+}
@@ -0,0 +1,284 @@
+import { ZomatoOrder } from "../types";
+import {
+  KitchenTimeSettings, addDays, businessDate, kitchenMinuteOfDay, kitchenTimeService, weekStartOfDate
+} from "./kitchenTimeService";
+import { isDelivered, isFailedOrder } from "./orderStatusService";
+
+/**
+ * Weekly and monthly targets per restaurant (or across all of them), with
+ * progress for the period in progress.
+ *
+ * Periods are business weeks (Monday-first) and business months on the
+ * kitchen clock. Revenue and orders are totals, so the end-of-period
+ * projection extends the run rate so far over the whole period; rating,
+ * cancellation rate and KPT are averages, so the projection is the average
+ * so far. The run rate counts days up to the latest order in the data (plus
+ * the elapsed part of today), so an export that stops a few days back
+ * doesn't drag the projection down. Totals aren't projected until a full day
+ * of the period has passed; a few early orders would extrapolate to many
+ * times the target.
+ */
+
+export type GoalMetric = 'revenue' | 'orders' | 'rating' | 'cancellation_rate' | 'kpt';
+export type GoalPeriod = 'week' | 'month';
+export type GoalStatus = 'achieved' | 'on_track' | 'at_risk' | 'off_track' | 'too_early' | 'no_data';
+
+export interface Goal {
+  id: string;
+  metric: GoalMetric;
+  period: GoalPeriod;
+  target: number;
+  restaurant?: string; // Unset = all restaurants
+  createdAt: number;
+}
+
+export interface GoalMetricInfo {
+  label: string;
+  unit: string;
+  higherIsBetter: boolean;
+  cumulative: boolean; // Totals that grow through the period, vs averages
+}
+
+export const GOAL_METRICS: Record<GoalMetric, GoalMetricInfo> = {
+  revenue: { label: 'Revenue (delivered)', unit: '₹', higherIsBetter: true, cumulative: true },
+  orders: { label: 'Orders', unit: 'orders', higherIsBetter: true, cumulative: true },
+  rating: { label: 'Avg rating', unit: '★', higherIsBetter: true, cumulative: false },
+  cancellation_rate: { label: 'Cancellation rate', unit: '%', higherIsBetter: false, cumulative: false },
+  kpt: { label: 'Avg KPT', unit: 'min', higherIsBetter: false, cumulative: false },
+};
+
+export const GOAL_PERIOD_LABELS: Record<GoalPeriod, string> = {
+  week: 'This week',
+  month: 'This month',
+};
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  achieved: 'Achieved',
+  on_track: 'On track',
+  at_risk: 'At risk',
+  off_track: 'Off track',
+  too_early: 'Too early to tell',
+  no_data: 'No data yet',
+};
+
+export const GOAL_STATUS_COLORS: Record<GoalStatus, string> = {
+  achieved: '#10b981',
+  on_track: '#10b981',
+  at_risk: '#eab308',
+  off_track: '#ef4444',
+  too_early: '#737373',
+  no_data: '#737373',
+};
+
+export interface GoalProgress {
+  goal: Goal;
+  periodStart: string; // Business date
+  periodEnd: string;
+  daysTotal: number;
+  daysElapsed: number; // Fractional; up to the latest data
+  actual: number | null; // null when nothing in scope has a value yet
+  projected: number | null; // End-of-period estimate; null for totals before MIN_PROJECTION_DAYS
+  attainment: number; // % of target reached so far (direction-aware)
+  projectedAttainment: number;
+  status: GoalStatus;
+  previous: { actual: number | null; met: boolean | null }; // The last complete period
+}
+
+const GOALS_KEY_PREFIX = 'klos_goals_';
+const AT_RISK_ATTAINMENT = 90; // Projected % of target below which a goal is off track
+const MIN_PROJECTION_DAYS = 1; // Elapsed days before totals are extrapolated
+
+/** Store the goal list; false (list unchanged) when localStorage is full or unavailable. */
+function writeGoals(userId: string, goals: Goal[]): boolean {
+  try {
+    localStorage.setItem(`${GOALS_KEY_PREFIX}${userId}`, JSON.stringify(goals));
+    return true;
+  } catch (err) {
+    console.warn('Failed to save goals:', err);
+    return false;
+  }
+}
+
+export const goalService = {
+  list(userId: string): Goal[] {
+    try {
+      const raw = localStorage.getItem(`${GOALS_KEY_PREFIX}${userId}`);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+      console.warn('Failed to read goals:', err);
+      return [];
+    }
+  },
+
+  /**
+   * Add a goal; an existing goal for the same metric, period and restaurant is
+   * replaced. Returns the saved list (unchanged when storage is full).
+   */
+  add(userId: string, goal: Omit<Goal, 'id' | 'createdAt'>): Goal[] {
+    const current = goalService.list(userId);
+    const restaurant = goal.restaurant?.trim() || undefined;
+    const next = [
+      ...current.filter(
+        (g) => !(g.metric === goal.metric && g.period === goal.period && (g.restaurant || undefined) === restaurant)
+      ),
+      { ...goal, restaurant, id: `goal-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, createdAt: Date.now() },
+    ];
+    return writeGoals(userId, next) ? next : current;
+  },
+
+  remove(userId: string, goalId: string): Goal[] {
+    const current = goalService.list(userId);
+    const next = current.filter((g) => g.id !== goalId);
+    return writeGoals(userId, next) ? next : current;
+  },
+};
+
+const isKpt = (value: number | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/** Value of a goal metric over a set of orders; null when there's nothing to measure. */
+export function measureGoalMetric(metric: GoalMetric, orders: ZomatoOrder[]): number | null {
+  switch (metric) {
+    case 'revenue':
+      return orders.filter(isDelivered).reduce((sum, o) => sum + o.totalAmount, 0);
+    case 'orders':
+      return orders.length;
+    case 'rating': {
+      const rated = orders.filter((o) => typeof o.rating === 'number' && o.rating > 0);
+      return rated.length > 0 ? rated.reduce((sum, o) => sum + o.rating!, 0) / rated.length : null;
+    }
+    case 'cancellation_rate':
+      return orders.length > 0 ? (orders.filter(isFailedOrder).length / orders.length) * 100 : null;
+    case 'kpt': {
+      const kpts = orders.map((o) => o.kptMinutes).filter(isKpt);
+      return kpts.length > 0 ? kpts.reduce((a, b) => a + b, 0) / kpts.length : null;
+    }
+  }
+}
+
+/** % of the target reached; lower-is-better metrics score target / actual. */
+function attainmentOf(metric: GoalMetric, value: number | null, target: number): number {
+  if (value === null) return 0;
+  if (GOAL_METRICS[metric].higherIsBetter) return target > 0 ? (value / target) * 100 : 100;
+  if (value <= target) return 100;
+  return value > 0 ? (target / value) * 100 : 100;
+}
+
+function periodBounds(period: GoalPeriod, date: string): { start: string; end: string } {
+  if (period === 'week') {
+    const start = weekStartOfDate(date);
+    return { start, end: addDays(start, 6) };
+  }
+  const start = `${date.slice(0, 7)}-01`;
+  const [year, month] = start.split('-').map(Number);
+  const end = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+  return { start, end };
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+/**
+ * Progress on each goal for the period containing `now`, plus how the
+ * previous period ended.
+ */
+export function evaluateGoals(
+  goals: Goal[],
+  orders: ZomatoOrder[],
+  settings: KitchenTimeSettings = kitchenTimeService.getActive(),
+  now: number = Date.now()
+): GoalProgress[] {
+  const today = businessDate(now, settings);
+  const dated = orders.map((order) => ({ order, date: businessDate(order.orderPlacedAt, settings) }));
+  const latestData = dated.reduce((max, d) => (d.date > max ? d.date : max), '');
+  const todayFraction = ((kitchenMinuteOfDay(now, settings) - settings.businessDayStartHour * 60 + 1440) % 1440) / 1440;
+
+  return goals.map((goal) => {
+    const info = GOAL_METRICS[goal.metric];
+    const scoped = goal.restaurant ? dated.filter((d) => d.order.restaurantName === goal.restaurant) : dated;
+    const { start, end } = periodBounds(goal.period, today);
+    const inPeriod = (from: string, to: string) => scoped.filter((d) => d.date >= from && d.date <= to).map((d) => d.order);
+
+    const daysTotal = daysBetween(start, end) + 1;
+    const coveredUntil = latestData && latestData < today ? latestData : today;
+    const daysElapsed = coveredUntil < start
+      ? 0
+      : daysBetween(start, coveredUntil) + (coveredUntil === today ? todayFraction : 1);
+
+    const current = inPeriod(start, end);
+    const actual = current.length > 0 ? measureGoalMetric(goal.metric, current) : null;
+    const projected = actual === null
+      ? null
+      : info.cumulative
+        ? (daysElapsed >= MIN_PROJECTION_DAYS ? (actual / daysElapsed) * daysTotal : null)
+        : actual;
+
+    const attainment = attainmentOf(goal.metric, actual, goal.target);
+    const projectedAttainment = attainmentOf(goal.metric, projected, goal.target);
+    let status: GoalStatus;
+    if (actual === null) status = 'no_data';
+    else if (info.cumulative && attainment >= 100) status = 'achieved';
+    else if (projected === null) status = 'too_early';
+    else if (projectedAttainment >= 100) status = 'on_track';
+    else if (projectedAttainment >= AT_RISK_ATTAINMENT) status = 'at_risk';
+    else status = 'off_track';
+
+    const previousBounds = periodBounds(goal.period, addDays(start, -1));
+    const before = inPeriod(previousBounds.start, previousBounds.end);
+    const previousActual = before.length > 0 ? measureGoalMetric(goal.metric, before) : null;
+
+    return {
+      goal,
+      periodStart: start,
+      periodEnd: end,
+      daysTotal,
+      daysElapsed,
+      actual,
+      projected,
+      attainment,
+      projectedAttainment,
+      status,
+      previous: {
+        actual: previousActual,
+        met: previousActual === null ? null : attainmentOf(goal.metric, previousActual, goal.target) >= 100,
+      },
+    };
+  });
+}
+
+/** Display a goal value with its unit. */
+export function formatGoalValue(metric: GoalMetric, value: number | null): string {
+  if (value === null) return '-';
+  switch (metric) {
+    case 'revenue':
+      return `₹${Math.round(value).toLocaleString()}`;
+    case 'orders':
+      return Math.round(value).toLocaleString();
+    case 'rating':
+      return value.toFixed(2);
+    case 'cancellation_rate':
+      return `${value.toFixed(1)}%`;
+    case 'kpt':
+      return `${value.toFixed(1)} min`;
+  }
+}
+
+export function describeGoal(goal: Goal): string {
+  const scope = goal.restaurant ? ` · ${goal.restaurant}` : '';
+  return `${GOAL_METRICS[goal.metric].label}, ${goal.period === 'week' ? 'weekly' : 'monthly'}${scope}`;
+}
+
+/** Goal status as one line for AI prompts. */
+export function formatGoalStatus(progress: GoalProgress[]): string {
+  if (progress.length === 0) return 'No goals set';
+  return progress
+    .map((p) => {
+      const { metric, target } = p.goal;
+      const projection = GOAL_METRICS[metric].cumulative && p.projected !== null
+        ? `, projected ${formatGoalValue(metric, p.projected)}`
+        : '';
+      return `${describeGoal(p.goal)}: target ${formatGoalValue(metric, target)}, so far ${formatGoalValue(metric, p.actual)}${projection} (${GOAL_STATUS_LABELS[p.status].toLowerCase()})`;
+    })
+    .join('; ');
+}
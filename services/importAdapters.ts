@@ -0,0 +1,246 @@
+import { OrderSource } from "../types";
+import { OrderDetailField } from "./orderFields";
+import { ORDER_SOURCE_LABELS } from "./channelService";
+
+/**
+ * Import adapters — one per order source.
+ *
+ * Each adapter describes how a source's export headers map onto ZomatoOrder
+ * fields, plus optional cleanup hooks for source-specific cell formats.
+ * parseCSV picks the adapter whose signature headers best match the file.
+ */
+
+export type ImportField =
+  | 'orderId'
+  | 'restaurantName'
+  | 'orderPlacedAt'
+  | 'orderTime' // Separate time-of-day column, joined onto orderPlacedAt when present
+  | 'orderStatus'
+  | 'totalAmount'
+  | 'rating'
+  | 'items'
+  | 'city'
+  | OrderDetailField;
+
+/** Display labels for the column-mapping wizard, in display order. */
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  orderId: 'Order ID',
+  restaurantName: 'Restaurant name',
+  orderPlacedAt: 'Order placed at (date)',
+  orderTime: 'Order time (if separate)',
+  orderStatus: 'Order status',
+  totalAmount: 'Total amount',
+  rating: 'Rating',
+  items: 'Items in order',
+  city: 'City',
+  restaurantId: 'Restaurant ID',
+  subzone: 'Subzone',
+  deliveryType: 'Delivery',
+  distance: 'Distance',
+  instructions: 'Instructions',
+  discountConstruct: 'Discount construct',
+  billSubtotal: 'Bill subtotal',
+  packagingCharges: 'Packaging charges',
+  promoDiscount: 'Restaurant discount (Promo)',
+  flatOffDiscount: 'Restaurant discount (Flat offs)',
+  goldDiscount: 'Gold discount',
+  brandPackDiscount: 'Brand pack discount',
+  review: 'Review',
+  cancellationReason: 'Cancellation / Rejection reason',
+  restaurantCompensation: 'Restaurant compensation',
+  restaurantPenalty: 'Restaurant penalty',
+  kptMinutes: 'KPT duration (minutes)',
+  riderWaitMinutes: 'Rider wait time (minutes)',
+  orderReadyMarked: 'Order ready marked',
+  customerComplaintTag: 'Customer complaint tag',
+  customerId: 'Customer ID',
+  source: 'Channel',
+};
+
+export const IMPORT_FIELDS = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+
+/** Fields without which an order cannot be placed on the Dashboard. */
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['orderPlacedAt', 'totalAmount'];
+
+/** Header index per importable field; -1 when the field is not mapped. */
+export type ColumnMapping = Record<ImportField, number>;
+
+export interface ImportAdapter {
+  source: OrderSource;
+  label: string;
+  /** Headers only this source's exports carry; used to score auto-detection. */
+  signatureHeaders: string[];
+  /** Accepted header names per field, matched case-insensitively. */
+  columns: Partial<Record<ImportField, string[]>>;
+  normalizeStatus?: (raw: string) => string;
+  normalizeItems?: (raw: string) => string;
+}
+
+export const zomatoAdapter: ImportAdapter = {
+  source: 'zomato',
+  label: ORDER_SOURCE_LABELS.zomato,
+  signatureHeaders: [
+    'order placed at',
+    'items in order',
+    'restaurant id',
+    'subzone',
+    'kpt duration (minutes)',
+    'rider wait time (minutes)',
+    'order ready marked',
+    'gold discount',
+    'restaurant penalty (rejection)',
+  ],
+  columns: {
+    orderId: ['order id', 'orderid'],
+    restaurantName: ['restaurant name', 'restaurant'],
+    orderPlacedAt: ['order placed at', 'date', 'created at'],
+    orderStatus: ['order status', 'status'],
+    totalAmount: ['total', 'grand total', 'final amount'],
+    rating: ['rating'],
+    items: ['items in order', 'items'],
+    city: ['city'],
+    restaurantId: ['restaurant id'],
+    subzone: ['subzone', 'sub zone', 'locality'],
+    deliveryType: ['delivery', 'delivery type'],
+    distance: ['distance'],
+    instructions: ['instructions', 'special instructions'],
+    discountConstruct: ['discount construct'],
+    billSubtotal: ['bill subtotal', 'subtotal'],
+    packagingCharges: ['packaging charges', 'packaging charge'],
+    promoDiscount: ['restaurant discount (promo)'],
+    flatOffDiscount: ['restaurant discount (flat offs, freebies & others)'],
+    goldDiscount: ['gold discount'],
+    brandPackDiscount: ['brand pack discount'],
+    review: ['review'],
+    cancellationReason: ['cancellation / rejection reason', 'cancellation reason', 'rejection reason'],
+    restaurantCompensation: ['restaurant compensation (cancellation)', 'restaurant compensation'],
+    restaurantPenalty: ['restaurant penalty (rejection)', 'restaurant penalty'],
+    kptMinutes: ['kpt duration (minutes)', 'kpt duration', 'kpt'],
+    riderWaitMinutes: ['rider wait time (minutes)', 'rider wait time'],
+    orderReadyMarked: ['order ready marked'],
+    customerComplaintTag: ['customer complaint tag', 'complaint tag'],
+    customerId: ['customer id'],
+  },
+};
+
+/**
+ * Swiggy partner exports list items as "Chicken Biryani x 2" (or "Chicken Biryani (2)");
+ * rewrite them into the "2 x Chicken Biryani" form the rest of the app expects.
+ */
+function normalizeSwiggyItems(raw: string): string {
+  return raw
+    .split(/\s*[,|]\s*(?![^\[]*\])/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      if (/^\d+\s*[xX]\s+/.test(part)) return part;
+      const suffix = part.match(/^(.+?)\s*(?:[xX]\s*(\d+)|\((\d+)\))$/);
+      if (suffix) return `${suffix[2] || suffix[3]} x ${suffix[1].trim()}`;
+      return `1 x ${part}`;
+    })
+    .join(', ');
+}
+
+export const swiggyAdapter: ImportAdapter = {
+  source: 'swiggy',
+  label: ORDER_SOURCE_LABELS.swiggy,
+  signatureHeaders: [
+    'order no',
+    'order no.',
+    'swiggy order id',
+    'customer payable',
+    'item details',
+    'packing charges',
+    'outlet name',
+    'ordered time',
+    'net bill value',
+  ],
+  columns: {
+    orderId: ['swiggy order id', 'order no', 'order no.', 'order id'],
+    restaurantName: ['restaurant name', 'outlet name', 'rest name'],
+    orderPlacedAt: ['ordered time', 'order date', 'order placed at', 'date'],
+    orderTime: ['order time', 'time'],
+    orderStatus: ['order status', 'status'],
+    totalAmount: ['customer payable', 'net bill value', 'order total', 'bill total', 'total'],
+    rating: ['customer rating', 'rating'],
+    items: ['item details', 'items', 'ordered items'],
+    city: ['city'],
+    subzone: ['area', 'locality'],
+    distance: ['distance', 'last mile distance'],
+    instructions: ['special instructions', 'instructions'],
+    discountConstruct: ['coupon code', 'offer'],
+    billSubtotal: ['item total', 'bill subtotal', 'subtotal'],
+    packagingCharges: ['packing charges', 'packaging charges'],
+    promoDiscount: ['restaurant discount', 'merchant discount'],
+    review: ['review', 'customer review'],
+    cancellationReason: ['cancellation reason', 'cancel reason'],
+    customerId: ['customer id'],
+  },
+  normalizeItems: normalizeSwiggyItems,
+};
+
+export const posAdapter: ImportAdapter = {
+  source: 'direct',
+  label: ORDER_SOURCE_LABELS.direct,
+  signatureHeaders: ['bill no', 'bill number', 'invoice no', 'invoice number', 'channel', 'payment mode', 'table no'],
+  columns: {
+    orderId: ['order id', 'bill no', 'bill number', 'invoice no', 'invoice number', 'receipt no'],
+    restaurantName: ['outlet', 'outlet name', 'restaurant', 'restaurant name', 'store'],
+    orderPlacedAt: ['date', 'order date', 'bill date', 'created at', 'timestamp'],
+    orderTime: ['time', 'order time', 'bill time'],
+    orderStatus: ['status', 'order status'],
+    totalAmount: ['grand total', 'net amount', 'amount', 'total', 'final amount'],
+    rating: ['rating'],
+    items: ['items', 'item details', 'products'],
+    city: ['city'],
+    subzone: ['area', 'locality'],
+    billSubtotal: ['sub total', 'subtotal'],
+    packagingCharges: ['packaging charges', 'packing charges'],
+    promoDiscount: ['discount'],
+    customerId: ['customer id', 'customer phone hash'],
+    source: ['channel', 'order source', 'source'],
+  },
+};
+
+export const IMPORT_ADAPTERS: ImportAdapter[] = [zomatoAdapter, swiggyAdapter, posAdapter];
+
+/**
+ * Pick the adapter whose signature headers best match.
+ * Files matching no signature (older 8-column exports) fall back to Zomato
+ * when its core columns resolve, otherwise to the generic POS adapter.
+ */
+export function detectAdapter(headers: string[]): ImportAdapter {
+  const normalized = headers.map((h) => h.toLowerCase().trim());
+  const scored = IMPORT_ADAPTERS
+    .map((adapter) => ({
+      adapter,
+      score: adapter.signatureHeaders.filter((sig) => normalized.includes(sig)).length
+        + (adapter.source !== 'zomato' && normalized.some((h) => h.includes(adapter.source)) ? 1 : 0),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  if (scored[0].score > 0) return scored[0].adapter;
+
+  const zomatoIdx = resolveColumns(zomatoAdapter, normalized);
+  if (zomatoIdx.orderId !== -1 && zomatoIdx.restaurantName !== -1) return zomatoAdapter;
+  return posAdapter;
+}
+
+/**
+ * Resolve each importable field to a header index (-1 when absent).
+ */
+export function resolveColumns(adapter: ImportAdapter, headers: string[]): ColumnMapping {
+  const normalized = headers.map((h) => h.toLowerCase().trim());
+  const findCol = (possibleNames: string[] = []) =>
+    normalized.findIndex((h) => possibleNames.some((name) => h === name.toLowerCase()));
+
+  const result = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach((field) => {
+    result[field] = findCol(adapter.columns[field]);
+  });
+  return result;
+}
+
+export function getAdapter(source: OrderSource): ImportAdapter {
+  return IMPORT_ADAPTERS.find((adapter) => adapter.source === source) ?? zomatoAdapter;
+}
@@ -0,0 +1,153 @@
+import { ZomatoOrder } from "../types";
+import { orderFingerprint } from "./orderFields";
+
+/**
+ * Import history: one batch per confirmed upload (CSV or JSON), kept per user
+ * in localStorage. A batch remembers which order ids it inserted and which it
+ * overwrote, plus the overwritten versions, so it can be rolled back later.
+ *
+ * Only versions that actually changed are kept (re-importing the same folder
+ * stores no copies), and copies are capped across all batches: past the cap,
+ * or when localStorage is full, the oldest batches lose theirs and can no
+ * longer be rolled back.
+ */
+
+const MAX_BATCHES = 50;
+const MAX_SNAPSHOT_ORDERS = 5000; // Overwritten versions kept across all batches
+
+export type ImportBatchKind = 'csv' | 'json';
+
+export interface ImportBatch {
+  id: string;
+  kind: ImportBatchKind;
+  importedAt: number;
+  fileNames: string[];
+  rowsRead: number;
+  rowsRejected: number;
+  insertedIds: string[];
+  updatedIds: string[];
+  previousOrders: ZomatoOrder[]; // Versions of `updatedIds` this batch changed, as they were before
+  snapshotDropped?: boolean; // previousOrders were discarded to save space; rollback is unavailable
+  rolledBackAt?: number;
+}
+
+export type RecordImportResult =
+  | { success: true; batch: ImportBatch }
+  | { success: false; message: string };
+
+const getHistoryKey = (userId: string) => `klos_import_history_${userId}`;
+
+function readAll(userId: string): ImportBatch[] {
+  try {
+    const raw = localStorage.getItem(getHistoryKey(userId));
+    return raw ? JSON.parse(raw) : [];
+  } catch (err) {
+    console.warn('Failed to read import history:', err);
+    return [];
+  }
+}
+
+function writeAll(userId: string, batches: ImportBatch[]): boolean {
+  try {
+    localStorage.setItem(getHistoryKey(userId), JSON.stringify(batches.slice(0, MAX_BATCHES)));
+    return true;
+  } catch (err) {
+    console.warn('Failed to save import history:', err);
+    return false;
+  }
+}
+
+const dropSnapshot = (batch: ImportBatch): ImportBatch =>
+  batch.previousOrders.length > 0 ? { ...batch, previousOrders: [], snapshotDropped: true } : batch;
+
+/** Drop the snapshots of the oldest batches once the newer ones use up the cap. */
+function capSnapshots(batches: ImportBatch[]): ImportBatch[] {
+  let kept = 0;
+  return batches.map((batch) => {
+    kept += batch.previousOrders.length;
+    return kept > MAX_SNAPSHOT_ORDERS ? dropSnapshot(batch) : batch;
+  });
+}
+
+
+export const importHistoryService = {
+  /**
+   * All batches for a user, newest first.
+   */
+  list(userId: string): ImportBatch[] {
+    return readAll(userId);
+  },
+
+  /**
+   * Record a saved upload. `existingOrders` is the dataset as it was before the
+   * save; it decides which ids were inserted vs updated and supplies the
+   * versions to restore on rollback.
+   *
+   * When localStorage is full, older snapshots are dropped until the batch
+   * fits; if it still doesn't, the batch isn't recorded and the result says so.
+   */
+  record(
+    userId: string,
+    batch: Pick<ImportBatch, 'kind' | 'fileNames' | 'rowsRead' | 'rowsRejected'>,
+    savedOrders: ZomatoOrder[],
+    existingOrders: ZomatoOrder[]
+  ): RecordImportResult {
+    const existingById = new Map(existingOrders.map((order) => [order.orderId, order]));
+    const savedById = new Map(savedOrders.map((order) => [order.orderId, order])); // Later rows win, as in the save
+    const uniqueIds = Array.from(savedById.keys());
+    const updatedIds = uniqueIds.filter((id) => existingById.has(id));
+
+    const entry: ImportBatch = {
+      ...batch,
+      id: `imp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      importedAt: Date.now(),
+      insertedIds: uniqueIds.filter((id) => !existingById.has(id)),
+      updatedIds,
+      previousOrders: updatedIds
+        .map((id) => existingById.get(id)!)
+        .filter((previous) => orderFingerprint(previous) !== orderFingerprint(savedById.get(previous.orderId)!)),
+    };
+
+    let batches = capSnapshots([entry, ...readAll(userId)].slice(0, MAX_BATCHES));
+    // Out of space: shed snapshots oldest first, this batch's own last
+    for (let idx = batches.length; !writeAll(userId, batches); idx--) {
+      if (idx === 0) {
+        return { success: false, message: 'Browser storage is full; this import was saved but is not in the import history and cannot be rolled back.' };
+      }
+      batches = batches.map((b, i) => (i === idx - 1 ? dropSnapshot(b) : b));
+    }
+    return { success: true, batch: batches[0] };
+  },
+
+  /**
+   * Newer, still-active batches that touched any of this batch's orders.
+   * Rolling back past them would clobber their changes, so they go first.
+   */
+  getBlockingBatches(userId: string, batchId: string): ImportBatch[] {
+    const all = readAll(userId);
+    const target = all.find((batch) => batch.id === batchId);
+    if (!target) return [];
+
+    const touched = new Set([...target.insertedIds, ...target.updatedIds]);
+    return all.filter(
+      (batch) =>
+        batch.importedAt > target.importedAt &&
+        !batch.rolledBackAt &&
+        [...batch.insertedIds, ...batch.updatedIds].some((id) => touched.has(id))
+    );
+  },
+
+  markRolledBack(userId: string, batchId: string) {
+    writeAll(
+      userId,
+      readAll(userId).map((batch) =>
+        // The snapshot has been restored and can't be used again
+        batch.id === batchId ? { ...batch, previousOrders: [], rolledBackAt: Date.now() } : batch
+      )
+    );
+  },
+
+  clear(userId: string) {
+    localStorage.removeItem(getHistoryKey(userId));
+  },
+};
@@ -0,0 +1,61 @@
+import { ColumnMapping, ImportAdapter, getAdapter } from "./importAdapters";
+import { OrderSource } from "../types";
+
+/**
+ * Remembers column mappings confirmed in the import wizard.
+ * Mappings are keyed by header signature (the file's header row, normalized),
+ * so the next export with the same layout imports without manual mapping.
+ */
+
+const MAPPINGS_KEY = 'klos_import_mappings';
+
+interface SavedMapping {
+  source: OrderSource;
+  mapping: ColumnMapping;
+  savedAt: number;
+}
+
+export function headerSignature(headers: string[]): string {
+  return headers.map((h) => h.toLowerCase().trim()).join('|');
+}
+
+function readAll(): Record<string, SavedMapping> {
+  try {
+    const raw = localStorage.getItem(MAPPINGS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (err) {
+    console.warn('Failed to read saved import mappings:', err);
+    return {};
+  }
+}
+
+export const importMappingService = {
+  /**
+   * Saved adapter + mapping for this exact header row, if any.
+   */
+  load(headers: string[]): { adapter: ImportAdapter; mapping: ColumnMapping } | null {
+    const saved = readAll()[headerSignature(headers)];
+    if (!saved) return null;
+    return { adapter: getAdapter(saved.source), mapping: saved.mapping };
+  },
+
+  save(headers: string[], source: OrderSource, mapping: ColumnMapping) {
+    const all = readAll();
+    all[headerSignature(headers)] = { source, mapping, savedAt: Date.now() };
+    try {
+      localStorage.setItem(MAPPINGS_KEY, JSON.stringify(all));
+    } catch (err) {
+      console.warn('Failed to save import mapping:', err);
+    }
+  },
+
+  forget(headers: string[]) {
+    const all = readAll();
+    delete all[headerSignature(headers)];
+    try {
+      localStorage.setItem(MAPPINGS_KEY, JSON.stringify(all));
+    } catch (err) {
+      console.warn('Failed to forget import mapping:', err);
+    }
+  },
+};
@@ -0,0 +1,229 @@
+import { ZomatoOrder } from "../types";
+import { KitchenTimeSettings, businessWeekday, kitchenHour } from "./kitchenTimeService";
+import { getOrderItems } from "./orderItems";
+import { canonicalItemName } from "./menuCatalogService";
+import { isFailedOrder } from "./orderStatusService";
+
+/**
+ * Kitchen-operations analytics from the aggregator's handover fields:
+ * KPT (kitchen preparation time), rider wait at pickup and whether the
+ * kitchen marked the order ready at the right moment.
+ *
+ * Zomato reports the ready marking as "Correctly", "Incorrectly" (marked
+ * ready before the food was, so the rider waited) or "Missed" (never marked,
+ * i.e. late). Orders without a KPT value are left out of the percentiles.
+ */
+
+export type ReadyMarking = 'correct' | 'early' | 'missed' | 'unknown';
+
+export const READY_MARKING_LABELS: Record<ReadyMarking, string> = {
+  correct: 'On time',
+  early: 'Marked early',
+  missed: 'Missed / late',
+  unknown: 'Not reported',
+};
+
+export interface DurationStats {
+  count: number;
+  avg: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface KptSegment {
+  key: string;
+  label: string;
+  stats: DurationStats;
+}
+
+export interface KptBand {
+  label: string; // e.g. "10-15 min"
+  orders: number;
+  avgRating: number; // 0 when no rated orders
+  cancellationRate: number; // % of the band's orders that failed (rejected, timed out, cancelled or returned)
+}
+
+export interface KitchenOpsReport {
+  ordersWithKpt: number;
+  kpt: DurationStats;
+  riderWait: DurationStats;
+  riderWaitDistribution: Array<{ label: string; count: number }>;
+  readyMarking: Record<ReadyMarking, number>;
+  readyMarkedEarlyRate: number; // % of orders with a marking
+  readyMarkedLateRate: number;
+  byHour: KptSegment[];
+  byWeekday: KptSegment[];
+  byItem: KptSegment[]; // Most-ordered items first
+  byRestaurant: KptSegment[];
+  kptBands: KptBand[];
+  avgRatingByMarking: Record<ReadyMarking, number>;
+  kptRatingCorrelation: number | null; // Pearson r; null with fewer than 3 rated orders
+  kptCancellationCorrelation: number | null; // Point-biserial r against failed (1) / delivered or in progress (0)
+}
+
+const TOP_ITEMS = 10;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const KPT_BANDS: Array<{ label: string; max: number }> = [
+  { label: '< 10 min', max: 10 },
+  { label: '10-15 min', max: 15 },
+  { label: '15-20 min', max: 20 },
+  { label: '20-30 min', max: 30 },
+  { label: '30+ min', max: Infinity },
+];
+
+const RIDER_WAIT_BUCKETS: Array<{ label: string; max: number }> = [
+  { label: '< 2 min', max: 2 },
+  { label: '2-5 min', max: 5 },
+  { label: '5-10 min', max: 10 },
+  { label: '10-15 min', max: 15 },
+  { label: '15+ min', max: Infinity },
+];
+
+export function getReadyMarking(order: Pick<ZomatoOrder, 'orderReadyMarked'>): ReadyMarking {
+  const value = (order.orderReadyMarked ?? '').trim().toLowerCase();
+  if (!value) return 'unknown';
+  if (value.startsWith('correct')) return 'correct';
+  if (value.startsWith('incorrect') || value.includes('early')) return 'early';
+  if (value.startsWith('miss') || value.includes('late')) return 'missed';
+  return 'unknown';
+}
+
+const isDuration = (value: number | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/** Linear-interpolated percentile of an ascending list. */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+export function durationStats(values: number[]): DurationStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    avg: sorted.length > 0 ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : 0,
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9),
+  };
+}
+
+function correlation(pairs: Array<[number, number]>): number | null {
+  if (pairs.length < 3) return null;
+  const n = pairs.length;
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  pairs.forEach(([x, y]) => {
+    cov += (x - meanX) * (y - meanY);
+    varX += (x - meanX) ** 2;
+    varY += (y - meanY) ** 2;
+  });
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : null;
+}
+
+function segment(groups: Map<string, { label: string; values: number[] }>): KptSegment[] {
+  return Array.from(groups.entries()).map(([key, group]) => ({ key, label: group.label, stats: durationStats(group.values) }));
+}
+
+function addTo(groups: Map<string, { label: string; values: number[] }>, key: string, label: string, value: number) {
+  const group = groups.get(key) ?? { label, values: [] };
+  group.values.push(value);
+  groups.set(key, group);
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+export function analyzeKitchenOps(orders: ZomatoOrder[], settings?: KitchenTimeSettings): KitchenOpsReport {
+  const kptValues: number[] = [];
+  const riderWaitValues: number[] = [];
+  const byHour = new Map<string, { label: string; values: number[] }>();
+  const byWeekday = new Map<string, { label: string; values: number[] }>();
+  const byItem = new Map<string, { label: string; values: number[] }>();
+  const byRestaurant = new Map<string, { label: string; values: number[] }>();
+  const readyMarking: Record<ReadyMarking, number> = { correct: 0, early: 0, missed: 0, unknown: 0 };
+  const ratingsByMarking: Record<ReadyMarking, number[]> = { correct: [], early: [], missed: [], unknown: [] };
+  const bands = KPT_BANDS.map((band) => ({ ...band, orders: 0, cancelled: 0, ratings: [] as number[] }));
+  const ratingPairs: Array<[number, number]> = [];
+  const cancellationPairs: Array<[number, number]> = [];
+
+  orders.forEach((order) => {
+    const marking = getReadyMarking(order);
+    readyMarking[marking] += 1;
+    if (order.rating) ratingsByMarking[marking].push(order.rating);
+    if (isDuration(order.riderWaitMinutes)) riderWaitValues.push(order.riderWaitMinutes);
+
+    const kpt = order.kptMinutes;
+    if (!isDuration(kpt)) return;
+    kptValues.push(kpt);
+
+    const hour = kitchenHour(order.orderPlacedAt, settings);
+    addTo(byHour, String(hour).padStart(2, '0'), `${hour}:00`, kpt);
+    const weekday = businessWeekday(order.orderPlacedAt, settings);
+    addTo(byWeekday, String(weekday), WEEKDAY_LABELS[weekday], kpt);
+    addTo(byRestaurant, order.restaurantName, order.restaurantName, kpt);
+    new Set(getOrderItems(order).map(canonicalItemName)).forEach((name) => addTo(byItem, name, name, kpt));
+
+    const failed = isFailedOrder(order);
+    const band = bands.find((b) => kpt < b.max) ?? bands[bands.length - 1];
+    band.orders += 1;
+    if (failed) band.cancelled += 1;
+    if (order.rating) {
+      band.ratings.push(order.rating);
+      ratingPairs.push([kpt, order.rating]);
+    }
+    cancellationPairs.push([kpt, failed ? 1 : 0]);
+  });
+
+  const marked = readyMarking.correct + readyMarking.early + readyMarking.missed;
+  const riderWaitDistribution = RIDER_WAIT_BUCKETS.map((bucket, i) => ({
+    label: bucket.label,
+    count: riderWaitValues.filter((v) => v < bucket.max && (i === 0 || v >= RIDER_WAIT_BUCKETS[i - 1].max)).length,
+  }));
+
+  return {
+    ordersWithKpt: kptValues.length,
+    kpt: durationStats(kptValues),
+    riderWait: durationStats(riderWaitValues),
+    riderWaitDistribution,
+    readyMarking,
+    readyMarkedEarlyRate: marked > 0 ? (readyMarking.early / marked) * 100 : 0,
+    readyMarkedLateRate: marked > 0 ? (readyMarking.missed / marked) * 100 : 0,
+    byHour: segment(byHour).sort((a, b) => a.key.localeCompare(b.key)),
+    byWeekday: segment(byWeekday).sort((a, b) => ((Number(a.key) + 6) % 7) - ((Number(b.key) + 6) % 7)),
+    byItem: segment(byItem).sort((a, b) => b.stats.count - a.stats.count).slice(0, TOP_ITEMS),
+    byRestaurant: segment(byRestaurant).sort((a, b) => b.stats.count - a.stats.count),
+    kptBands: bands.map((band) => ({
+      label: band.label,
+      orders: band.orders,
+      avgRating: average(band.ratings),
+      cancellationRate: band.orders > 0 ? (band.cancelled / band.orders) * 100 : 0,
+    })),
+    avgRatingByMarking: {
+      correct: average(ratingsByMarking.correct),
+      early: average(ratingsByMarking.early),
+      missed: average(ratingsByMarking.missed),
+      unknown: average(ratingsByMarking.unknown),
+    },
+    kptRatingCorrelation: correlation(ratingPairs),
+    kptCancellationCorrelation: correlation(cancellationPairs),
+  };
+}
+
+/** One-line kitchen summary for AI prompts. */
+export function formatKitchenOps(report: KitchenOpsReport): string {
+  if (report.ordersWithKpt === 0) return 'No KPT data';
+  const r = (value: number | null) => (value === null ? 'n/a' : value.toFixed(2));
+  return `KPT median ${report.kpt.p50.toFixed(1)} min, p90 ${report.kpt.p90.toFixed(1)} min (${report.ordersWithKpt} orders); `
+    + `rider wait median ${report.riderWait.p50.toFixed(1)} min, p90 ${report.riderWait.p90.toFixed(1)} min; `
+    + `ready marked early ${report.readyMarkedEarlyRate.toFixed(1)}%, missed ${report.readyMarkedLateRate.toFixed(1)}%; `
+    + `KPT-rating r=${r(report.kptRatingCorrelation)}, KPT-cancellation r=${r(report.kptCancellationCorrelation)}`;
+}
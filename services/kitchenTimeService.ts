@@ -0,0 +1,202 @@
+/**
+ * Kitchen clock: per-account timezone and business-day boundary.
+ *
+ * Order timestamps are stored as UTC instants. Anything that groups them by
+ * day, week, month or hour goes through these helpers so late-night orders
+ * land on the kitchen's business day rather than the browser's (or UTC's)
+ * calendar day. A kitchen open until 3am sets `businessDayStartHour` to 4 and
+ * its 1am orders count towards the previous evening's service.
+ */
+
+export interface KitchenTimeSettings {
+  timeZone: string; // IANA zone, e.g. "Asia/Kolkata"
+  businessDayStartHour: number; // 0-23, local kitchen time
+}
+
+const SETTINGS_KEY_PREFIX = 'klos_kitchen_time_';
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const browserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const getDefaultKitchenTimeSettings = (): KitchenTimeSettings => ({
+  timeZone: browserTimeZone(),
+  businessDayStartHour: 0,
+});
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Settings of the signed-in account; services without user context read these.
+let activeSettings: KitchenTimeSettings = getDefaultKitchenTimeSettings();
+
+export const kitchenTimeService = {
+  load(userId: string): KitchenTimeSettings {
+    const defaults = getDefaultKitchenTimeSettings();
+    try {
+      const raw = localStorage.getItem(`${SETTINGS_KEY_PREFIX}${userId}`);
+      if (!raw) return defaults;
+      const parsed = JSON.parse(raw) as Partial<KitchenTimeSettings>;
+      const hour = Number(parsed.businessDayStartHour);
+      return {
+        timeZone: parsed.timeZone && isValidTimeZone(parsed.timeZone) ? parsed.timeZone : defaults.timeZone,
+        businessDayStartHour: Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : defaults.businessDayStartHour,
+      };
+    } catch (err) {
+      console.warn('Failed to read kitchen time settings:', err);
+      return defaults;
+    }
+  },
+
+  save(userId: string, settings: KitchenTimeSettings) {
+    localStorage.setItem(`${SETTINGS_KEY_PREFIX}${userId}`, JSON.stringify(settings));
+    activeSettings = settings;
+  },
+
+  /**
+   * Make an account's settings the ones used by parsing and aggregation.
+   * Called by App whenever the signed-in user changes.
+   */
+  activate(userId: string | null): KitchenTimeSettings {
+    activeSettings = userId ? kitchenTimeService.load(userId) : getDefaultKitchenTimeSettings();
+    return activeSettings;
+  },
+
+  getActive(): KitchenTimeSettings {
+    return activeSettings;
+  },
+};
+
+// ── Zone arithmetic ───────────────────────────────────────────────────────────
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(ms: number, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(new Date(ms)).forEach((part) => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/** Offset of the zone from UTC at an instant, in ms (IST → +19800000). */
+function zoneOffset(ms: number, timeZone: string): number {
+  const p = getZonedParts(ms, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * UTC instant of a wall-clock time in the given zone.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  monthIndex: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second = 0,
+  timeZone = activeSettings.timeZone
+): number {
+  const wall = Date.UTC(year, monthIndex, day, hour, minute, second);
+  const first = wall - zoneOffset(wall, timeZone);
+  // Second pass settles instants near a DST switch.
+  return wall - zoneOffset(first, timeZone);
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// ── Grouping keys ─────────────────────────────────────────────────────────────
+
+/** Hour of day (0-23) on the kitchen's wall clock. */
+export function kitchenHour(ms: number, settings = activeSettings): number {
+  return getZonedParts(ms, settings.timeZone).hour;
+}
+
+/** Minutes since midnight (0-1439) on the kitchen's wall clock. */
+export function kitchenMinuteOfDay(ms: number, settings = activeSettings): number {
+  const p = getZonedParts(ms, settings.timeZone);
+  return p.hour * 60 + p.minute;
+}
+
+/** Business day an order belongs to, as YYYY-MM-DD. */
+export function businessDate(ms: number, settings = activeSettings): string {
+  const p = getZonedParts(ms - settings.businessDayStartHour * HOUR_MS, settings.timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/** Business month, as YYYY-MM. */
+export function businessMonth(ms: number, settings = activeSettings): string {
+  return businessDate(ms, settings).slice(0, 7);
+}
+
+/** Day of week of the business day (0 = Sunday). */
+export function businessWeekday(ms: number, settings = activeSettings): number {
+  return new Date(`${businessDate(ms, settings)}T00:00:00Z`).getUTCDay();
+}
+
+/** Shift a YYYY-MM-DD date by whole days. */
+export function addDays(isoDate: string, days: number): string {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Monday of the week containing a YYYY-MM-DD date. */
+export function weekStartOfDate(isoDate: string): string {
+  const day = new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+  return addDays(isoDate, -(day === 0 ? 6 : day - 1));
+}
+
+/** Monday of the business week, as YYYY-MM-DD. */
+export function businessWeekStart(ms: number, settings = activeSettings): string {
+  return weekStartOfDate(businessDate(ms, settings));
+}
+
+/** Display a YYYY-MM-DD business date without the browser zone shifting it. */
+export function formatBusinessDate(isoDate: string, options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }): string {
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
@@ -0,0 +1,273 @@
+import { OrderItem, ZomatoOrder } from "../types";
+import { getOrderItems } from "./orderItems";
+
+/**
+ * Menu catalog: one canonical entry per dish, with the spellings it appears
+ * under across exports recorded as aliases.
+ *
+ * The catalog builds itself from imported line items (new names become new
+ * entries; names that differ only in case/punctuation join an existing one)
+ * and the Menu tab lets the owner merge remaining duplicates and fill in
+ * category, veg/non-veg and price. Item analytics resolve names through
+ * canonicalItemName so a dish is counted once.
+ *
+ * Stored per user in localStorage; App activates the signed-in account.
+ */
+
+export type DietType = 'veg' | 'non-veg' | 'egg';
+
+export interface MenuItem {
+  id: string;
+  name: string; // Canonical display name
+  aliases: string[]; // Every raw spelling seen in exports (includes the original name)
+  category?: string;
+  diet?: DietType;
+  price?: number; // Menu price (₹); estimated from single-item orders until edited
+  priceEstimated?: boolean;
+  foodCost?: number; // Ingredient cost per portion (₹), entered by the owner
+}
+
+export interface MenuCatalog {
+  items: MenuItem[];
+  defaultFoodCostPercent?: number; // Assumed food cost (% of price) for items without one
+  updatedAt: number;
+}
+
+export interface DuplicateSuggestion {
+  keep: MenuItem;
+  merge: MenuItem;
+  similarity: number; // 0-1
+}
+
+const CATALOG_KEY_PREFIX = 'klos_menu_catalog_';
+export const DEFAULT_FOOD_COST_PERCENT = 30;
+
+const NON_VEG_WORDS = ['chicken', 'mutton', 'lamb', 'fish', 'prawn', 'shrimp', 'keema', 'kheema', 'meat', 'beef', 'pork', 'crab', 'murgh', 'gosht'];
+const EGG_WORDS = ['egg', 'anda', 'omelette', 'omelet'];
+
+/** Alias lookup key: lowercase, punctuation and extra spaces removed. */
+export function normalizeItemKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function inferDiet(name: string): DietType | undefined {
+  const words = normalizeItemKey(name).split(' ');
+  if (words.some((w) => NON_VEG_WORDS.includes(w))) return 'non-veg';
+  if (words.some((w) => EGG_WORDS.includes(w))) return 'egg';
+  return undefined;
+}
+
+/** Similarity of two normalized names from their edit distance, 0-1. */
+function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return 1 - prev[b.length] / Math.max(a.length, b.length, 1);
+}
+
+const emptyCatalog = (): MenuCatalog => ({ items: [], updatedAt: 0 });
+
+let activeUserId: string | null = null;
+let catalog: MenuCatalog = emptyCatalog();
+let aliasIndex = new Map<string, MenuItem>();
+
+function reindex() {
+  aliasIndex = new Map();
+  catalog.items.forEach((item) => {
+    aliasIndex.set(normalizeItemKey(item.name), item);
+    item.aliases.forEach((alias) => aliasIndex.set(normalizeItemKey(alias), item));
+  });
+}
+
+function persist() {
+  catalog.updatedAt = Date.now();
+  reindex();
+  if (!activeUserId) return;
+  try {
+    localStorage.setItem(`${CATALOG_KEY_PREFIX}${activeUserId}`, JSON.stringify(catalog));
+  } catch (err) {
+    console.warn('Failed to save menu catalog:', err);
+  }
+}
+
+export const menuCatalogService = {
+  /**
+   * Load an account's catalog. Called by App whenever the signed-in user changes.
+   */
+  activate(userId: string | null) {
+    activeUserId = userId;
+    catalog = emptyCatalog();
+    if (userId) {
+      try {
+        const raw = localStorage.getItem(`${CATALOG_KEY_PREFIX}${userId}`);
+        if (raw) catalog = JSON.parse(raw);
+      } catch (err) {
+        console.warn('Failed to read menu catalog:', err);
+      }
+    }
+    reindex();
+  },
+
+  getItems(): MenuItem[] {
+    return catalog.items;
+  },
+
+  /** Changes whenever the catalog does; use as a memo dependency or cache key. */
+  getRevision(): number {
+    return catalog.updatedAt;
+  },
+
+  findItem(rawName: string): MenuItem | undefined {
+    return aliasIndex.get(normalizeItemKey(rawName));
+  },
+
+  /**
+   * Add every item name seen in the orders that the catalog doesn't know yet,
+   * and estimate prices for items without one. Returns true when anything changed.
+   */
+  syncFromOrders(orders: ZomatoOrder[]): boolean {
+    let changed = false;
+    const singleItemPrices = new Map<MenuItem, number[]>();
+
+    orders.forEach((order) => {
+      const lineItems = getOrderItems(order);
+      lineItems.forEach((line) => {
+        let item = aliasIndex.get(normalizeItemKey(line.name));
+        if (!item) {
+          item = {
+            id: `menu-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            name: line.name,
+            aliases: [line.name],
+            diet: inferDiet(line.name),
+          };
+          catalog.items.push(item);
+          aliasIndex.set(normalizeItemKey(line.name), item);
+          changed = true;
+        } else if (!item.aliases.includes(line.name)) {
+          item.aliases.push(line.name);
+          changed = true;
+        }
+
+        // Orders with a single line item give a rough unit price (bill subtotal before taxes, else total).
+        if (lineItems.length === 1 && line.quantity > 0 && (item.price === undefined || item.priceEstimated)) {
+          const amount = order.billSubtotal ?? order.totalAmount;
+          if (amount > 0) {
+            if (!singleItemPrices.has(item)) singleItemPrices.set(item, []);
+            singleItemPrices.get(item)!.push(amount / line.quantity);
+          }
+        }
+      });
+    });
+
+    singleItemPrices.forEach((prices, item) => {
+      const sorted = [...prices].sort((a, b) => a - b);
+      const median = Math.round(sorted[Math.floor(sorted.length / 2)]);
+      if (item.price !== median) {
+        item.price = median;
+        item.priceEstimated = true;
+        changed = true;
+      }
+    });
+
+    if (changed) persist();
+    return changed;
+  },
+
+  /** Food cost % assumed for items without an entered cost. */
+  getDefaultFoodCostPercent(): number {
+    return catalog.defaultFoodCostPercent ?? DEFAULT_FOOD_COST_PERCENT;
+  },
+
+  setDefaultFoodCostPercent(percent: number | undefined) {
+    catalog.defaultFoodCostPercent = percent;
+    persist();
+  },
+
+  updateItem(id: string, patch: Partial<Pick<MenuItem, 'name' | 'category' | 'diet' | 'price' | 'foodCost'>>) {
+    const item = catalog.items.find((entry) => entry.id === id);
+    if (!item) return;
+    Object.assign(item, patch);
+    if (patch.price !== undefined) item.priceEstimated = false;
+    persist();
+  },
+
+  /**
+   * Fold other entries into `targetId`: their aliases move over, their
+   * details fill any gaps on the target, and the entries are removed.
+   */
+  mergeItems(targetId: string, sourceIds: string[]) {
+    const target = catalog.items.find((entry) => entry.id === targetId);
+    if (!target) return;
+    const sources = catalog.items.filter((entry) => sourceIds.includes(entry.id) && entry.id !== targetId);
+
+    sources.forEach((source) => {
+      source.aliases.forEach((alias) => {
+        if (!target.aliases.includes(alias)) target.aliases.push(alias);
+      });
+      target.category = target.category || source.category;
+      target.diet = target.diet || source.diet;
+      if (target.price === undefined) {
+        target.price = source.price;
+        target.priceEstimated = source.priceEstimated;
+      }
+      if (target.foodCost === undefined) target.foodCost = source.foodCost;
+    });
+
+    catalog.items = catalog.items.filter((entry) => !sources.includes(entry));
+    persist();
+  },
+
+  /** Split an alias back out into its own entry. */
+  detachAlias(id: string, alias: string) {
+    const item = catalog.items.find((entry) => entry.id === id);
+    if (!item || item.aliases.length < 2) return;
+    item.aliases = item.aliases.filter((a) => a !== alias);
+    if (normalizeItemKey(item.name) === normalizeItemKey(alias)) item.name = item.aliases[0];
+    catalog.items.push({
+      id: `menu-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: alias,
+      aliases: [alias],
+      diet: inferDiet(alias),
+    });
+    persist();
+  },
+
+  /**
+   * Likely duplicates not merged yet (near-identical names), most similar first.
+   */
+  suggestDuplicates(threshold = 0.85): DuplicateSuggestion[] {
+    const keyed = catalog.items.map((item) => ({ item, key: normalizeItemKey(item.name) }));
+    const suggestions: DuplicateSuggestion[] = [];
+    for (let i = 0; i < keyed.length; i++) {
+      for (let j = i + 1; j < keyed.length; j++) {
+        const a = keyed[i];
+        const b = keyed[j];
+        if (Math.abs(a.key.length - b.key.length) > Math.max(a.key.length, b.key.length) * (1 - threshold)) continue;
+        const similarity = nameSimilarity(a.key, b.key);
+        if (similarity >= threshold) {
+          suggestions.push({ keep: a.item, merge: b.item, similarity });
+        }
+      }
+    }
+    return suggestions.sort((a, b) => b.similarity - a.similarity);
+  },
+};
+
+/**
+ * Canonical catalog name for a line item (the raw name when uncatalogued).
+ */
+export function canonicalItemName(item: Pick<OrderItem, 'name'>): string {
+  return aliasIndex.get(normalizeItemKey(item.name))?.name ?? item.name;
+}
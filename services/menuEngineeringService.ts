@@ -0,0 +1,150 @@
+import { ZomatoOrder } from "../types";
+import { getOrderItems } from "./orderItems";
+import { canonicalItemName, menuCatalogService } from "./menuCatalogService";
+import { isDelivered } from "./orderStatusService";
+
+/**
+ * Menu engineering (Kasavana & Smith): every dish is placed on two axes.
+ *   popularity – its share of portions sold is at least 70% of an even share
+ *                (0.7 / number of items)
+ *   margin     – its contribution margin (menu price − food cost) is at least
+ *                the sales-weighted average margin
+ * giving stars (high/high), plowhorses (popular, low margin), puzzles
+ * (profitable, unpopular) and dogs (neither).
+ *
+ * Portions come from delivered orders' line items under their canonical
+ * names; price and food cost come from the menu catalog. Items without an
+ * entered food cost use the catalog's default food-cost %, and items
+ * without a price can't be placed on the margin axis and are listed apart.
+ */
+
+export type MenuQuadrant = 'star' | 'plowhorse' | 'puzzle' | 'dog';
+
+export const MENU_QUADRANT_LABELS: Record<MenuQuadrant, string> = {
+  star: 'Star',
+  plowhorse: 'Plowhorse',
+  puzzle: 'Puzzle',
+  dog: 'Dog',
+};
+
+export const MENU_QUADRANT_ACTIONS: Record<MenuQuadrant, string> = {
+  star: 'Keep and feature',
+  plowhorse: 'Reprice or cut food cost',
+  puzzle: 'Promote or reposition',
+  dog: 'Rework or drop',
+};
+
+export const MENU_QUADRANT_COLORS: Record<MenuQuadrant, string> = {
+  star: '#10b981',
+  plowhorse: '#3b82f6',
+  puzzle: '#a855f7',
+  dog: '#ef4444',
+};
+
+export interface MenuEngineeringItem {
+  item: string; // Canonical name
+  category?: string;
+  quantity: number;
+  mixShare: number; // % of portions sold
+  price: number;
+  foodCost: number;
+  costEstimated: boolean; // Food cost from the default % rather than entered
+  priceEstimated: boolean;
+  margin: number; // Per portion
+  totalContribution: number;
+  quadrant: MenuQuadrant;
+}
+
+export interface MenuEngineeringReport {
+  items: MenuEngineeringItem[]; // Highest total contribution first
+  unpriced: Array<{ item: string; quantity: number }>; // Sold but without a catalog price
+  totalQuantity: number;
+  popularityThreshold: number; // Mix share %, at or above is popular
+  avgMargin: number; // Sales-weighted, ₹ per portion
+  totalContribution: number;
+  quadrantCounts: Record<MenuQuadrant, number>;
+}
+
+const POPULARITY_FACTOR = 0.7;
+
+export function analyzeMenuEngineering(orders: ZomatoOrder[]): MenuEngineeringReport {
+  const quantities = new Map<string, number>();
+  orders.filter(isDelivered).forEach((order) => {
+    getOrderItems(order).forEach((line) => {
+      const name = canonicalItemName(line);
+      quantities.set(name, (quantities.get(name) ?? 0) + line.quantity);
+    });
+  });
+
+  const defaultCostShare = menuCatalogService.getDefaultFoodCostPercent() / 100;
+  const unpriced: MenuEngineeringReport['unpriced'] = [];
+  const priced = Array.from(quantities.entries()).flatMap(([item, quantity]) => {
+    const entry = menuCatalogService.findItem(item);
+    if (entry?.price === undefined) {
+      unpriced.push({ item, quantity });
+      return [];
+    }
+    const foodCost = entry.foodCost ?? entry.price * defaultCostShare;
+    return [{
+      item,
+      category: entry.category,
+      quantity,
+      price: entry.price,
+      foodCost,
+      costEstimated: entry.foodCost === undefined,
+      priceEstimated: Boolean(entry.priceEstimated),
+      margin: entry.price - foodCost,
+    }];
+  });
+
+  const totalQuantity = priced.reduce((sum, i) => sum + i.quantity, 0);
+  const totalContribution = priced.reduce((sum, i) => sum + i.margin * i.quantity, 0);
+  const avgMargin = totalQuantity > 0 ? totalContribution / totalQuantity : 0;
+  const popularityThreshold = priced.length > 0 ? (POPULARITY_FACTOR / priced.length) * 100 : 0;
+
+  const quadrantCounts: Record<MenuQuadrant, number> = { star: 0, plowhorse: 0, puzzle: 0, dog: 0 };
+  const items: MenuEngineeringItem[] = priced.map((i) => {
+    const mixShare = totalQuantity > 0 ? (i.quantity / totalQuantity) * 100 : 0;
+    const popular = mixShare >= popularityThreshold;
+    const profitable = i.margin >= avgMargin;
+    const quadrant: MenuQuadrant = popular ? (profitable ? 'star' : 'plowhorse') : (profitable ? 'puzzle' : 'dog');
+    quadrantCounts[quadrant] += 1;
+    return { ...i, mixShare, totalContribution: i.margin * i.quantity, quadrant };
+  }).sort((a, b) => b.totalContribution - a.totalContribution);
+
+  return {
+    items,
+    unpriced: unpriced.sort((a, b) => b.quantity - a.quantity),
+    totalQuantity,
+    popularityThreshold,
+    avgMargin,
+    totalContribution,
+    quadrantCounts,
+  };
+}
+
+/** Menu engineering per restaurant, busiest first. */
+export function analyzeMenuEngineeringByRestaurant(orders: ZomatoOrder[]): Array<{ restaurant: string; report: MenuEngineeringReport }> {
+  const byRestaurant = new Map<string, ZomatoOrder[]>();
+  orders.forEach((order) => {
+    const list = byRestaurant.get(order.restaurantName) ?? [];
+    list.push(order);
+    byRestaurant.set(order.restaurantName, list);
+  });
+  return Array.from(byRestaurant.entries())
+    .map(([restaurant, list]) => ({ restaurant, report: analyzeMenuEngineering(list) }))
+    .sort((a, b) => b.report.totalQuantity - a.report.totalQuantity);
+}
+
+/** Quadrants with their top items as one line for AI prompts. */
+export function formatMenuEngineering(report: MenuEngineeringReport, limit = 3): string {
+  if (report.items.length === 0) return 'No priced menu items to classify';
+  const quadrants = (Object.keys(MENU_QUADRANT_LABELS) as MenuQuadrant[])
+    .map((quadrant) => {
+      const names = report.items.filter((i) => i.quadrant === quadrant).slice(0, limit).map((i) => i.item);
+      return names.length > 0 ? `${MENU_QUADRANT_LABELS[quadrant]}s (${MENU_QUADRANT_ACTIONS[quadrant].toLowerCase()}): ${names.join(', ')}` : null;
+    })
+    .filter(Boolean);
+  const estimated = report.items.some((i) => i.costEstimated) ? ' [some food costs assumed]' : '';
+  return `${quadrants.join('; ')}${estimated}`;
+}
@@ -0,0 +1,122 @@
+import { ZomatoOrder } from "../types";
+import { isOrderSource } from "./channelService";
+import { coerceOrderItems } from "./orderItems";
+
+/**
+ * Extended order-history fields carried alongside the core order columns.
+ *
+ * CSV ingestion, JSON import/export and Supabase persistence all go through
+ * this registry so every path keeps the same typed fields, and records that
+ * predate them (the original 8-field shape) still load untouched.
+ */
+
+/** Core order fields, stored in their own database columns. */
+export const ORDER_CORE_FIELDS = [
+  'orderId',
+  'restaurantName',
+  'orderPlacedAt',
+  'orderStatus',
+  'totalAmount',
+  'rating',
+  'items',
+  'customerName',
+  'city',
+] as const;
+
+const ORDER_CORE_NUMBER_FIELDS = new Set<string>(['orderPlacedAt', 'totalAmount', 'rating']);
+
+export const ORDER_DETAIL_STRING_FIELDS = [
+  'restaurantId',
+  'subzone',
+  'deliveryType',
+  'distance',
+  'instructions',
+  'discountConstruct',
+  'review',
+  'cancellationReason',
+  'orderReadyMarked',
+  'customerComplaintTag',
+  'customerId',
+] as const;
+
+export const ORDER_DETAIL_NUMBER_FIELDS = [
+  'billSubtotal',
+  'packagingCharges',
+  'promoDiscount',
+  'flatOffDiscount',
+  'goldDiscount',
+  'brandPackDiscount',
+  'restaurantCompensation',
+  'restaurantPenalty',
+  'kptMinutes',
+  'riderWaitMinutes',
+] as const;
+
+export type OrderDetailStringField = typeof ORDER_DETAIL_STRING_FIELDS[number];
+export type OrderDetailNumberField = typeof ORDER_DETAIL_NUMBER_FIELDS[number];
+export type OrderDetailField = OrderDetailStringField | OrderDetailNumberField | 'source';
+export type OrderDetails = Pick<ZomatoOrder, OrderDetailField | 'lineItems'>;
+
+/**
+ * Copy the extended fields off a loosely-typed record (JSON, Supabase row, CSV row).
+ * Blank values and nulls are dropped; numeric strings are coerced.
+ */
+export function pickOrderDetails(source: object | null | undefined): OrderDetails {
+  const details: OrderDetails = {};
+  if (!source) return details;
+  const record = source as Record<string, unknown>;
+
+  for (const field of ORDER_DETAIL_STRING_FIELDS) {
+    const value = record[field];
+    if (value === null || value === undefined) continue;
+    const text = String(value).trim();
+    if (text) details[field] = text;
+  }
+
+  for (const field of ORDER_DETAIL_NUMBER_FIELDS) {
+    const value = record[field];
+    if (value === null || value === undefined || value === '') continue;
+    const num = typeof value === 'number' ? value : Number(value);
+    if (Number.isFinite(num)) details[field] = num;
+  }
+
+  if (isOrderSource(record.source)) details.source = record.source;
+
+  const lineItems = coerceOrderItems(record.lineItems);
+  if (lineItems) details.lineItems = lineItems;
+
+  return details;
+}
+
+/**
+ * Split an order into its core columns and the extended detail fields.
+ */
+export function splitOrderDetails(order: ZomatoOrder): { core: Omit<ZomatoOrder, keyof OrderDetails | 'status'>; details: OrderDetails } {
+  const core: Record<string, unknown> = { ...order };
+  // `status` is derived from orderStatus on load (it follows the account's status mapping), so it isn't stored.
+  for (const field of [...ORDER_DETAIL_STRING_FIELDS, ...ORDER_DETAIL_NUMBER_FIELDS, 'source', 'lineItems', 'status']) {
+    delete core[field];
+  }
+  return {
+    core: core as Omit<ZomatoOrder, keyof OrderDetails | 'status'>,
+    details: pickOrderDetails(order),
+  };
+}
+
+/**
+ * Comparable form of an order's own fields: core columns plus details,
+ * normalized the way pickOrderDetails reads them. Database-only columns
+ * (user_id, created_at, ...) on loaded rows and the derived `status` are
+ * ignored, so a freshly parsed order matches its stored copy.
+ */
+export function orderFingerprint(order: ZomatoOrder): string {
+  const record = order as unknown as Record<string, unknown>;
+  const core = ORDER_CORE_FIELDS.map((field) => {
+    const value = record[field];
+    if (value === null || value === undefined || value === '') return null;
+    if (ORDER_CORE_NUMBER_FIELDS.has(field)) return Number(value);
+    return String(value).trim();
+  });
+  const details = pickOrderDetails(order) as Record<string, unknown>;
+  return JSON.stringify([core, Object.keys(details).sort().map((key) => [key, details[key]])]);
+}
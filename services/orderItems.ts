@@ -0,0 +1,168 @@
+import { OrderItem, ZomatoOrder } from "../types";
+
+/**
+ * Line-item parsing for the "Items in order" column.
+ *
+ * Exports list items as "1 x Mutton Handi Biryani [2 Pieces], 2 x Butter Naan".
+ * They are parsed once at import into `ZomatoOrder.lineItems`; every consumer
+ * (top items, prompts, RAG chunks, metrics) reads them through getOrderItems,
+ * which also parses records saved before line items existed.
+ */
+
+/** The order fields item helpers read; lets modules with slimmer order shapes reuse them. */
+export type ItemsOrder = Pick<ZomatoOrder, 'items' | 'lineItems'>;
+
+const QUANTITY_PREFIX = /^(\d+)\s*[xX×]\s*(.+)$/;
+const ADD_ON_LABEL = /^(?:add[\s-]?ons?|extras?)\s*[:\-]?\s*/i;
+
+/**
+ * Split on commas outside brackets/parentheses. When the string uses
+ * "N x" prefixes, only commas that start a new "N x" item split, so a comma
+ * inside a dish name ("Paneer, Mushroom Wrap") stays in the name.
+ */
+function splitItemList(raw: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  const quantified = QUANTITY_PREFIX.test(raw.trim());
+
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+    if (ch === '[' || ch === '(') depth++;
+    else if ((ch === ']' || ch === ')') && depth > 0) depth--;
+    else if (ch === ',' && depth === 0) {
+      if (quantified && !/^\s*\d+\s*[xX×]\s/.test(raw.slice(i + 1))) continue;
+      parts.push(raw.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(raw.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+function splitAddOns(text: string): string[] {
+  return text
+    .replace(ADD_ON_LABEL, '')
+    .split(/\s*[,+]\s*/)
+    .map((addOn) => addOn.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse one item, e.g. "2 x Chicken Biryani [Full] [Add ons: Raita, Coke]".
+ * The first unlabelled [...] group is the variant; groups labelled "Add on(s)"
+ * or "Extra", and any further [...] groups, are add-ons.
+ */
+export function parseOrderItem(raw: string): OrderItem | null {
+  const text = raw.trim();
+  if (!text) return null;
+
+  const match = text.match(QUANTITY_PREFIX);
+  const quantity = match ? parseInt(match[1], 10) || 1 : 1;
+  let rest = match ? match[2] : text;
+
+  let variant: string | undefined;
+  const addOns: string[] = [];
+  rest = rest.replace(/\[([^\]]*)\]|\((add[\s-]?ons?[^)]*)\)/gi, (_group, bracketed?: string, labelled?: string) => {
+    const inner = (bracketed ?? labelled ?? '').trim();
+    if (!inner) return ' ';
+    if (labelled || ADD_ON_LABEL.test(inner) || variant !== undefined) {
+      addOns.push(...splitAddOns(inner));
+    } else {
+      variant = inner;
+    }
+    return ' ';
+  });
+
+  const name = rest.replace(/\s+/g, ' ').trim();
+  if (!name) return null;
+
+  const item: OrderItem = { quantity, name };
+  if (variant) item.variant = variant;
+  if (addOns.length > 0) item.addOns = addOns;
+  return item;
+}
+
+/**
+ * Parse an "Items in order" cell into line items.
+ */
+export function parseOrderItems(raw: string | undefined): OrderItem[] {
+  if (!raw || !raw.trim()) return [];
+  return splitItemList(raw)
+    .map(parseOrderItem)
+    .filter((item): item is OrderItem => item !== null);
+}
+
+const legacyItemsCache = new WeakMap<object, OrderItem[]>();
+
+/**
+ * Line items for an order: the stored ones, or parsed from `items` for
+ * records imported before line items were stored.
+ */
+export function getOrderItems(order: ItemsOrder): OrderItem[] {
+  if (order.lineItems) return order.lineItems;
+  let parsed = legacyItemsCache.get(order);
+  if (!parsed) {
+    parsed = parseOrderItems(order.items);
+    legacyItemsCache.set(order, parsed);
+  }
+  return parsed;
+}
+
+/** "Chicken Biryani [Full]" — the name with its variant, for display. */
+export function formatItemName(item: OrderItem): string {
+  return item.variant ? `${item.name} [${item.variant}]` : item.name;
+}
+
+/**
+ * Total quantity sold per item, largest first. Items are keyed by base name
+ * unless `keyOf` says otherwise (e.g. the menu catalog's canonical name).
+ */
+export function countItemQuantities(
+  orders: ItemsOrder[],
+  keyOf: (item: OrderItem) => string = (item) => item.name
+): Array<{ name: string; quantity: number; orders: number }> {
+  const counts = new Map<string, { quantity: number; orders: number }>();
+  orders.forEach((order) => {
+    const seen = new Set<string>();
+    getOrderItems(order).forEach((item) => {
+      const key = keyOf(item);
+      const entry = counts.get(key) ?? { quantity: 0, orders: 0 };
+      entry.quantity += item.quantity;
+      if (!seen.has(key)) {
+        entry.orders += 1;
+        seen.add(key);
+      }
+      counts.set(key, entry);
+    });
+  });
+
+  return Array.from(counts.entries())
+    .map(([name, entry]) => ({ name, ...entry }))
+    .sort((a, b) => b.quantity - a.quantity);
+}
+
+/**
+ * Validate line items read back from JSON or Supabase; null when the value
+ * isn't a usable OrderItem[].
+ */
+export function coerceOrderItems(value: unknown): OrderItem[] | null {
+  if (!Array.isArray(value)) return null;
+  const items: OrderItem[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') return null;
+    const record = entry as Record<string, unknown>;
+    const name = typeof record.name === 'string' ? record.name.trim() : '';
+    const quantity = Number(record.quantity);
+    if (!name || !Number.isFinite(quantity)) return null;
+
+    const item: OrderItem = { quantity, name };
+    if (typeof record.variant === 'string' && record.variant.trim()) item.variant = record.variant.trim();
+    if (Array.isArray(record.addOns)) {
+      const addOns = record.addOns.filter((a): a is string => typeof a === 'string' && a.trim() !== '');
+      if (addOns.length > 0) item.addOns = addOns;
+    }
+    items.push(item);
+  }
+  return items;
+}
@@ -0,0 +1,207 @@
+import { OrderStatus, ZomatoOrder } from "../types";
+
+/**
+ * Order-status normalization.
+ *
+ * Exports spell statuses differently ("Delivered", "Rejected", "Timed out",
+ * "CANCELLED_BY_CUSTOMER", ...). Every order gets a canonical `status` when it
+ * enters the app (CSV/JSON import, cloud load) and every metric reads it
+ * through the predicates below instead of matching raw strings.
+ *
+ * Raw → canonical follows built-in rules; an account can override any raw
+ * value in Settings. Without an override, the cancellation reason refines
+ * the status: Zomato files orders the customer or Zomato cancelled under
+ * "Rejected", with "Cancelled by Customer" / "Cancelled by Zomato" as the
+ * reason, and those aren't restaurant rejections. Overrides are stored per user in localStorage and App
+ * re-applies them to loaded orders when they change.
+ */
+
+/** Raw status (normalized with normalizeRawStatus) → canonical status. */
+export type StatusMapping = Record<string, OrderStatus>;
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  [OrderStatus.Delivered]: 'Delivered',
+  [OrderStatus.RejectedByRestaurant]: 'Rejected by restaurant',
+  [OrderStatus.TimedOut]: 'Timed out',
+  [OrderStatus.CancelledByCustomer]: 'Cancelled by customer',
+  [OrderStatus.CancelledByPlatform]: 'Cancelled by platform',
+  [OrderStatus.Returned]: 'Returned',
+  [OrderStatus.InProgress]: 'In progress',
+  [OrderStatus.Unknown]: 'Unknown',
+};
+
+export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
+  [OrderStatus.Delivered]: '#10b981',
+  [OrderStatus.RejectedByRestaurant]: '#f59e0b',
+  [OrderStatus.TimedOut]: '#eab308',
+  [OrderStatus.CancelledByCustomer]: '#ef4444',
+  [OrderStatus.CancelledByPlatform]: '#f97316',
+  [OrderStatus.Returned]: '#a855f7',
+  [OrderStatus.InProgress]: '#3b82f6',
+  [OrderStatus.Unknown]: '#64748b',
+};
+
+// First match wins; order matters ("cancelled by restaurant" before plain "cancel").
+const DEFAULT_RULES: Array<[RegExp, OrderStatus]> = [
+  [/out for delivery|delivery pending/, OrderStatus.InProgress],
+  // Failed deliveries mention "deliver" too; catch them before the Delivered rule
+  [/undeliver|non ?deliver|not (been )?deliver|deliver\w* fail|fail\w* (to )?deliver|incomplete|unfulfil|not fulfil/, OrderStatus.CancelledByPlatform],
+  [/deliver|complete|fulfil/, OrderStatus.Delivered],
+  [/time[sd]? ?out|expired|not accepted|unaccepted/, OrderStatus.TimedOut],
+  [/return|\brto\b/, OrderStatus.Returned],
+  [/reject|(restaurant|merchant|outlet|vendor).*cancel|cancel.*(restaurant|merchant|outlet|vendor)/, OrderStatus.RejectedByRestaurant],
+  [/(zomato|swiggy|platform|support|system|fraud).*cancel|cancel.*(zomato|swiggy|platform|support|system|fraud)|fail/, OrderStatus.CancelledByPlatform],
+  [/cancel|abandon/, OrderStatus.CancelledByCustomer],
+  [/pending|placed|accepted|preparing|ready|picked|dispatch|in progress|ongoing/, OrderStatus.InProgress],
+];
+
+// Reasons that move a rejection or plain cancellation to whoever actually cancelled; first match wins.
+const REASON_RULES: Array<[RegExp, OrderStatus]> = [
+  [/\bby (zomato|swiggy|platform|support|system)\b/, OrderStatus.CancelledByPlatform],
+  [/\bby (the )?(customer|user)\b/, OrderStatus.CancelledByCustomer],
+  [/customer/, OrderStatus.CancelledByCustomer],
+  [/zomato|swiggy|platform|fraud/, OrderStatus.CancelledByPlatform],
+];
+const REASON_REFINED = new Set([OrderStatus.RejectedByRestaurant, OrderStatus.CancelledByCustomer]);
+
+const MAPPING_KEY_PREFIX = 'klos_status_mapping_';
+const CANONICAL_VALUES = new Set<string>(Object.values(OrderStatus));
+
+/** Lookup key for a raw status: lowercase, separators collapsed to single spaces. */
+export function normalizeRawStatus(raw: string | undefined): string {
+  return (raw ?? '').toLowerCase().replace(/[_\-\s]+/g, ' ').trim();
+}
+
+/** Canonical status from the built-in rules alone. */
+export function defaultOrderStatus(raw: string | undefined): OrderStatus {
+  const key = normalizeRawStatus(raw);
+  if (!key) return OrderStatus.Unknown;
+  const rule = DEFAULT_RULES.find(([pattern]) => pattern.test(key));
+  return rule ? rule[1] : OrderStatus.Unknown;
+}
+
+// Overrides of the signed-in account; services without user context read these.
+let activeMapping: StatusMapping = {};
+
+export const orderStatusService = {
+  load(userId: string): StatusMapping {
+    try {
+      const raw = localStorage.getItem(`${MAPPING_KEY_PREFIX}${userId}`);
+      if (!raw) return {};
+      const parsed = JSON.parse(raw) as Record<string, unknown>;
+      const mapping: StatusMapping = {};
+      Object.entries(parsed).forEach(([key, value]) => {
+        if (typeof value === 'string' && CANONICAL_VALUES.has(value)) {
+          mapping[normalizeRawStatus(key)] = value as OrderStatus;
+        }
+      });
+      return mapping;
+    } catch (err) {
+      console.warn('Failed to read status mapping:', err);
+      return {};
+    }
+  },
+
+  save(userId: string, mapping: StatusMapping) {
+    localStorage.setItem(`${MAPPING_KEY_PREFIX}${userId}`, JSON.stringify(mapping));
+    activeMapping = mapping;
+  },
+
+  /**
+   * Make an account's overrides the ones used for classification.
+   * Called by App whenever the signed-in user changes.
+   */
+  activate(userId: string | null): StatusMapping {
+    activeMapping = userId ? orderStatusService.load(userId) : {};
+    return activeMapping;
+  },
+
+  getActive(): StatusMapping {
+    return activeMapping;
+  },
+};
+
+/**
+ * Canonical status for a raw export value, honouring the account's overrides,
+ * then the cancellation reason for rejections and plain cancellations.
+ */
+export function classifyOrderStatus(raw: string | undefined, mapping = activeMapping, reason?: string): OrderStatus {
+  const override = mapping[normalizeRawStatus(raw)];
+  if (override) return override;
+  const status = defaultOrderStatus(raw);
+  if (!REASON_REFINED.has(status) || !reason) return status;
+  const text = reason.toLowerCase();
+  const rule = REASON_RULES.find(([pattern]) => pattern.test(text));
+  return rule ? rule[1] : status;
+}
+
+type StatusOrder = Pick<ZomatoOrder, 'orderStatus' | 'status' | 'cancellationReason'>;
+
+/** The order's canonical status (classified on the fly for records without one). */
+export function getOrderStatus(order: StatusOrder): OrderStatus {
+  return order.status ?? classifyOrderStatus(order.orderStatus, activeMapping, order.cancellationReason);
+}
+
+/** Re-derive `status` for every order, e.g. after loading or a mapping change. */
+export function applyOrderStatuses<T extends StatusOrder>(orders: T[], mapping = activeMapping): T[] {
+  return orders.map((order) => {
+    const status = classifyOrderStatus(order.orderStatus, mapping, order.cancellationReason);
+    return order.status === status ? order : { ...order, status };
+  });
+}
+
+// ── Status groups used by metrics ─────────────────────────────────────────────
+
+export function isDelivered(order: StatusOrder): boolean {
+  return getOrderStatus(order) === OrderStatus.Delivered;
+}
+
+/** Lost on the restaurant side: rejected, or not accepted in time. */
+export function isRestaurantRejection(order: StatusOrder): boolean {
+  const status = getOrderStatus(order);
+  return status === OrderStatus.RejectedByRestaurant || status === OrderStatus.TimedOut;
+}
+
+/** Cancelled by the customer or the platform. */
+export function isCancelled(order: StatusOrder): boolean {
+  const status = getOrderStatus(order);
+  return status === OrderStatus.CancelledByCustomer || status === OrderStatus.CancelledByPlatform;
+}
+
+/** Any order that ended without a successful delivery. */
+export function isFailedOrder(order: StatusOrder): boolean {
+  return isRestaurantRejection(order) || isCancelled(order) || getOrderStatus(order) === OrderStatus.Returned;
+}
+
+export interface RawStatusSummary {
+  raw: string; // First spelling seen
+  key: string; // normalizeRawStatus(raw)
+  count: number;
+  status: OrderStatus; // Current canonical status
+  overridden: boolean;
+}
+
+/**
+ * Distinct raw statuses in the orders with their current mapping, most common
+ * first. `status` is the raw value's own mapping; rows whose cancellation
+ * reason refines it aren't split out.
+ */
+export function summarizeRawStatuses(orders: Array<Pick<ZomatoOrder, 'orderStatus'>>, mapping = activeMapping): RawStatusSummary[] {
+  const byKey = new Map<string, RawStatusSummary>();
+  orders.forEach((order) => {
+    const key = normalizeRawStatus(order.orderStatus);
+    const entry = byKey.get(key);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      byKey.set(key, {
+        raw: order.orderStatus || '(blank)',
+        key,
+        count: 1,
+        status: classifyOrderStatus(order.orderStatus, mapping),
+        overridden: key in mapping,
+      });
+    }
+  });
+  return Array.from(byKey.values()).sort((a, b) => b.count - a.count);
+}
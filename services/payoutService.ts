@@ -0,0 +1,276 @@
+import { OrderSource, ZomatoOrder } from "../types";
+import { getOrderSource } from "./channelService";
+import { businessDate } from "./kitchenTimeService";
+import { isDelivered } from "./orderStatusService";
+
+/**
+ * Aggregator payout calculator.
+ *
+ * What a restaurant actually receives for an order depends on its contract:
+ * a commission slab on the (discounted) subtotal, GST on that commission, a
+ * payment-gateway fee, per-order fees, restaurant-funded discounts and, for
+ * rejected orders, penalties. Rate cards capture those terms per channel and
+ * optionally per restaurant, effective from a business date; the card in force
+ * when an order was placed prices it.
+ *
+ * Aggregator orders with no matching card use DEFAULT_RATE_CARDS (typical
+ * terms, to be replaced with the contract's). Direct orders carry no
+ * deductions unless a card targets the 'direct' channel.
+ *
+ * Cards are stored per user in localStorage; App activates the signed-in account.
+ */
+
+export interface CommissionSlab {
+  minSubtotal: number; // Applies to orders whose commission base is at least this (₹)
+  commissionPercent: number;
+}
+
+export interface RateCard {
+  id: string;
+  label: string;
+  source: OrderSource;
+  restaurant?: string; // Restaurant name or id; blank = every restaurant on the channel
+  effectiveFrom: string; // YYYY-MM-DD business date
+  commissionPercent: number;
+  slabs?: CommissionSlab[]; // Override commissionPercent for larger orders
+  gstOnCommissionPercent: number;
+  paymentGatewayPercent: number; // Of the amount the customer paid
+  fixedFeePerOrder: number; // Platform/listing fee per delivered order (₹)
+  commissionOnPackaging: boolean; // Whether packaging charges are part of the commission base
+}
+
+export interface OrderPayout {
+  gross: number; // Customer paid (totalAmount)
+  itemSubtotal: number;
+  packaging: number;
+  restaurantDiscount: number; // Restaurant-funded promo / flat-off / brand-pack discounts
+  commission: number;
+  gstOnCommission: number;
+  gatewayFee: number;
+  fixedFees: number;
+  penalty: number;
+  compensation: number;
+  netPayout: number;
+  rateCardId?: string;
+}
+
+export interface PayoutSummary {
+  orders: number;
+  gross: number;
+  restaurantDiscount: number;
+  commission: number;
+  gstOnCommission: number;
+  gatewayFee: number;
+  fixedFees: number;
+  penalties: number;
+  compensation: number;
+  platformDeductions: number; // Commission + GST + gateway + fixed fees
+  netPayout: number;
+  netMarginPercent: number; // Net payout as % of gross
+}
+
+const RATE_CARDS_KEY_PREFIX = 'klos_rate_cards_';
+
+export const DEFAULT_RATE_CARDS: RateCard[] = [
+  {
+    id: 'default-zomato',
+    label: 'Zomato (typical terms)',
+    source: 'zomato',
+    effectiveFrom: '2000-01-01',
+    commissionPercent: 25,
+    gstOnCommissionPercent: 18,
+    paymentGatewayPercent: 1.84,
+    fixedFeePerOrder: 0,
+    commissionOnPackaging: true,
+  },
+  {
+    id: 'default-swiggy',
+    label: 'Swiggy (typical terms)',
+    source: 'swiggy',
+    effectiveFrom: '2000-01-01',
+    commissionPercent: 25,
+    gstOnCommissionPercent: 18,
+    paymentGatewayPercent: 2,
+    fixedFeePerOrder: 0,
+    commissionOnPackaging: true,
+  },
+];
+
+export const createRateCard = (source: OrderSource = 'zomato'): RateCard => ({
+  ...(DEFAULT_RATE_CARDS.find((card) => card.source === source) ?? DEFAULT_RATE_CARDS[0]),
+  id: `rate-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  label: 'New rate card',
+  source,
+  effectiveFrom: new Date().toISOString().slice(0, 10),
+});
+
+function isRateCard(value: unknown): value is RateCard {
+  if (!value || typeof value !== 'object') return false;
+  const card = value as Record<string, unknown>;
+  return typeof card.id === 'string'
+    && typeof card.source === 'string'
+    && typeof card.effectiveFrom === 'string'
+    && Number.isFinite(card.commissionPercent);
+}
+
+// Cards of the signed-in account; services without user context read these.
+let activeCards: RateCard[] = [];
+
+export const payoutService = {
+  load(userId: string): RateCard[] {
+    try {
+      const raw = localStorage.getItem(`${RATE_CARDS_KEY_PREFIX}${userId}`);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed.filter(isRateCard) : [];
+    } catch (err) {
+      console.warn('Failed to read rate cards:', err);
+      return [];
+    }
+  },
+
+  save(userId: string, cards: RateCard[]) {
+    localStorage.setItem(`${RATE_CARDS_KEY_PREFIX}${userId}`, JSON.stringify(cards));
+    activeCards = cards;
+  },
+
+  /**
+   * Make an account's rate cards the ones used for payouts.
+   * Called by App whenever the signed-in user changes.
+   */
+  activate(userId: string | null): RateCard[] {
+    activeCards = userId ? payoutService.load(userId) : [];
+    return activeCards;
+  },
+
+  getActive(): RateCard[] {
+    return activeCards;
+  },
+};
+
+const matchesRestaurant = (card: RateCard, order: ZomatoOrder): boolean => {
+  const target = card.restaurant?.trim().toLowerCase();
+  if (!target) return true;
+  return order.restaurantName.trim().toLowerCase() === target
+    || (order.restaurantId ?? '').trim().toLowerCase() === target;
+};
+
+/**
+ * The card in force for an order: same channel, restaurant-specific before
+ * channel-wide, latest effective date on or before the order's business day.
+ */
+export function findRateCard(order: ZomatoOrder, cards = activeCards): RateCard | undefined {
+  const source = getOrderSource(order);
+  const day = businessDate(order.orderPlacedAt);
+  const candidates = cards
+    .filter((card) => card.source === source && card.effectiveFrom <= day && matchesRestaurant(card, order))
+    .sort((a, b) => Number(!!b.restaurant?.trim()) - Number(!!a.restaurant?.trim()) || b.effectiveFrom.localeCompare(a.effectiveFrom));
+  return candidates[0] ?? DEFAULT_RATE_CARDS.find((card) => card.source === source);
+}
+
+function commissionRate(card: RateCard, base: number): number {
+  const slab = (card.slabs ?? [])
+    .filter((s) => base >= s.minSubtotal)
+    .sort((a, b) => b.minSubtotal - a.minSubtotal)[0];
+  return (slab ? slab.commissionPercent : card.commissionPercent) / 100;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Net payout for one order. Undelivered orders earn nothing but their
+ * cancellation compensation, less any rejection penalty.
+ */
+export function calculateOrderPayout(order: ZomatoOrder, cards = activeCards): OrderPayout {
+  const card = findRateCard(order, cards);
+  const gross = order.totalAmount || 0;
+  const itemSubtotal = order.billSubtotal ?? gross;
+  const packaging = order.packagingCharges ?? 0;
+  const restaurantDiscount = (order.promoDiscount ?? 0) + (order.flatOffDiscount ?? 0) + (order.brandPackDiscount ?? 0);
+  const penalty = order.restaurantPenalty ?? 0;
+  const compensation = order.restaurantCompensation ?? 0;
+
+  const empty = { commission: 0, gstOnCommission: 0, gatewayFee: 0, fixedFees: 0 };
+  if (!isDelivered(order)) {
+    return {
+      gross, itemSubtotal, packaging, restaurantDiscount, ...empty, penalty, compensation,
+      netPayout: round2(compensation - penalty),
+      rateCardId: card?.id,
+    };
+  }
+
+  if (!card) {
+    return {
+      gross, itemSubtotal, packaging, restaurantDiscount, ...empty, penalty, compensation,
+      netPayout: round2(gross - penalty + compensation),
+    };
+  }
+
+  const base = Math.max(0, itemSubtotal - restaurantDiscount + (card.commissionOnPackaging ? packaging : 0));
+  const commission = base * commissionRate(card, base);
+  const gstOnCommission = commission * (card.gstOnCommissionPercent / 100);
+  const gatewayFee = gross * (card.paymentGatewayPercent / 100);
+  const fixedFees = card.fixedFeePerOrder;
+  // Exports without a bill subtotal only give what the customer paid, which is already net of discounts.
+  const receivable = order.billSubtotal !== undefined ? itemSubtotal + packaging - restaurantDiscount : gross;
+
+  return {
+    gross,
+    itemSubtotal,
+    packaging,
+    restaurantDiscount,
+    commission: round2(commission),
+    gstOnCommission: round2(gstOnCommission),
+    gatewayFee: round2(gatewayFee),
+    fixedFees,
+    penalty,
+    compensation,
+    netPayout: round2(receivable - commission - gstOnCommission - gatewayFee - fixedFees - penalty + compensation),
+    rateCardId: card.id,
+  };
+}
+
+/**
+ * Totals across orders; gross counts every order, as the dashboards do.
+ */
+export function summarizePayouts(orders: ZomatoOrder[], cards = activeCards): PayoutSummary {
+  const summary: PayoutSummary = {
+    orders: orders.length,
+    gross: 0,
+    restaurantDiscount: 0,
+    commission: 0,
+    gstOnCommission: 0,
+    gatewayFee: 0,
+    fixedFees: 0,
+    penalties: 0,
+    compensation: 0,
+    platformDeductions: 0,
+    netPayout: 0,
+    netMarginPercent: 0,
+  };
+
+  orders.forEach((order) => {
+    const payout = calculateOrderPayout(order, cards);
+    summary.gross += payout.gross;
+    summary.restaurantDiscount += payout.restaurantDiscount;
+    summary.commission += payout.commission;
+    summary.gstOnCommission += payout.gstOnCommission;
+    summary.gatewayFee += payout.gatewayFee;
+    summary.fixedFees += payout.fixedFees;
+    summary.penalties += payout.penalty;
+    summary.compensation += payout.compensation;
+    summary.netPayout += payout.netPayout;
+  });
+
+  summary.platformDeductions = summary.commission + summary.gstOnCommission + summary.gatewayFee + summary.fixedFees;
+  summary.netMarginPercent = summary.gross > 0 ? (summary.netPayout / summary.gross) * 100 : 0;
+  return summary;
+}
+
+/** One-line payout breakdown for AI prompts. */
+export function formatPayoutSummary(summary: PayoutSummary): string {
+  const money = (value: number) => `₹${value.toFixed(0)}`;
+  return `Gross ${money(summary.gross)}; commission ${money(summary.commission)} + GST ${money(summary.gstOnCommission)}; `
+    + `gateway ${money(summary.gatewayFee)}; fixed fees ${money(summary.fixedFees)}; restaurant-funded discounts ${money(summary.restaurantDiscount)}; `
+    + `penalties ${money(summary.penalties)}; compensation ${money(summary.compensation)}; `
+    + `net payout ${money(summary.netPayout)} (${summary.netMarginPercent.toFixed(1)}% of gross)`;
+}
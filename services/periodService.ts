@@ -0,0 +1,120 @@
+import { ZomatoOrder } from "../types";
+import { KitchenTimeSettings, addDays, businessDate } from "./kitchenTimeService";
+
+/**
+ * Date ranges and period-over-period comparison.
+ *
+ * Ranges are inclusive business dates (YYYY-MM-DD) on the kitchen clock.
+ * Comparison periods:
+ *   previous_period – the same number of days immediately before
+ *   previous_month  – the same calendar days one month earlier (clamped to
+ *                     the month's length)
+ *   last_year       – 52 weeks earlier, so weekdays line up
+ */
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export type RangePreset = 'all' | '30' | '7' | 'custom';
+export type ComparisonMode = 'none' | 'previous_period' | 'previous_month' | 'last_year';
+
+export const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  none: 'No comparison',
+  previous_period: 'Previous period',
+  previous_month: 'Same period last month',
+  last_year: 'Same weekdays last year',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days in a range, counting both ends. */
+export const rangeLength = (range: DateRange): number =>
+  Math.round((Date.parse(`${range.to}T00:00:00Z`) - Date.parse(`${range.from}T00:00:00Z`)) / DAY_MS) + 1;
+
+/** First and last business date with orders; null without orders. */
+export function dataRange(orders: ZomatoOrder[], settings?: KitchenTimeSettings): DateRange | null {
+  if (orders.length === 0) return null;
+  let from = '';
+  let to = '';
+  orders.forEach((order) => {
+    const date = businessDate(order.orderPlacedAt, settings);
+    if (!from || date < from) from = date;
+    if (!to || date > to) to = date;
+  });
+  return { from, to };
+}
+
+/**
+ * Range for a preset. Day-count presets end today (whole business days,
+ * counting today); 'all' spans the data.
+ */
+export function presetRange(preset: Exclude<RangePreset, 'custom'>, orders: ZomatoOrder[], settings?: KitchenTimeSettings): DateRange | null {
+  if (preset === 'all') return dataRange(orders, settings);
+  const today = businessDate(Date.now(), settings);
+  return { from: addDays(today, -(parseInt(preset) - 1)), to: today };
+}
+
+function shiftMonth(isoDate: string, months: number): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/** The range to compare against, or null for 'none'. */
+export function comparisonRange(range: DateRange, mode: ComparisonMode): DateRange | null {
+  switch (mode) {
+    case 'previous_period': {
+      const length = rangeLength(range);
+      return { from: addDays(range.from, -length), to: addDays(range.from, -1) };
+    }
+    case 'previous_month':
+      return { from: shiftMonth(range.from, -1), to: shiftMonth(range.to, -1) };
+    case 'last_year':
+      return { from: addDays(range.from, -364), to: addDays(range.to, -364) };
+    default:
+      return null;
+  }
+}
+
+export function filterByRange(orders: ZomatoOrder[], range: DateRange, settings?: KitchenTimeSettings): ZomatoOrder[] {
+  return orders.filter((order) => {
+    const date = businessDate(order.orderPlacedAt, settings);
+    return date >= range.from && date <= range.to;
+  });
+}
+
+/** Relative change in %, null when there's nothing to compare against. */
+export function percentChange(current: number, previous: number | null | undefined): number | null {
+  if (previous === null || previous === undefined || !Number.isFinite(previous) || previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+/**
+ * One value per day of the range (for sparklines), from the orders placed
+ * that day. `valueOf` gets an empty list on days without orders.
+ */
+export function dailyValues(
+  orders: ZomatoOrder[],
+  range: DateRange,
+  valueOf: (dayOrders: ZomatoOrder[]) => number,
+  settings?: KitchenTimeSettings
+): number[] {
+  const byDate = new Map<string, ZomatoOrder[]>();
+  orders.forEach((order) => {
+    const date = businessDate(order.orderPlacedAt, settings);
+    const list = byDate.get(date) ?? [];
+    list.push(order);
+    byDate.set(date, list);
+  });
+  return Array.from({ length: rangeLength(range) }, (_, i) => valueOf(byDate.get(addDays(range.from, i)) ?? []));
+}
+
+export function formatRange(range: DateRange): string {
+  const format = (isoDate: string) =>
+    new Date(`${isoDate}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  return range.from === range.to ? format(range.from) : `${format(range.from)} – ${format(range.to)}`;
+}
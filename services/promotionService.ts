@@ -0,0 +1,287 @@
+import { ZomatoOrder } from "../types";
+import { KitchenTimeSettings, addDays, businessDate, businessWeekStart, weekStartOfDate } from "./kitchenTimeService";
+import { RateCard, calculateOrderPayout } from "./payoutService";
+import { isDelivered } from "./orderStatusService";
+
+/**
+ * Promotion ROI.
+ *
+ * Each delivered order is attributed to one offer: its "Discount construct"
+ * when the export names one, otherwise the discount column that carries the
+ * largest amount. Orders with no discount at all form the baseline.
+ *
+ * Restaurant-funded cost is promo + flat-off/freebie + brand-pack discount;
+ * Gold discounts are platform-funded and reported separately. Basket value
+ * is the bill subtotal before discounts (total paid when the export has none).
+ *
+ * Incremental volume and payout compare the offer's run window (every
+ * business day from its first to its last redemption, including days nobody
+ * used it) against the same weekdays outside the window. The window is set by
+ * when the offer ran, not by which days happened to be busy, so high-volume
+ * days don't end up in the "active" set by construction. Offers that ran over
+ * the whole data range have no baseline. Windows of different offers overlap,
+ * so increments are not additive across offers.
+ */
+
+export type PromotionKind = 'flat_off' | 'percent_off' | 'freebie' | 'promo' | 'gold' | 'brand_pack' | 'other';
+
+export const PROMOTION_KIND_LABELS: Record<PromotionKind, string> = {
+  flat_off: 'Flat off',
+  percent_off: '% off',
+  freebie: 'Freebie',
+  promo: 'Promo',
+  gold: 'Gold',
+  brand_pack: 'Brand pack',
+  other: 'Other',
+};
+
+export interface Promotion {
+  key: string;
+  label: string;
+  kind: PromotionKind;
+}
+
+export interface PromotionStats extends Promotion {
+  orders: number;
+  orderShare: number; // % of delivered orders
+  activeDays: number; // Days with at least one redemption
+  runDays: number; // Days from first to last redemption
+  avgBasket: number;
+  basketLiftPercent: number | null; // vs no-offer orders; null without a baseline
+  restaurantCost: number;
+  platformFunded: number; // Gold discounts
+  avgDiscount: number; // Restaurant-funded, per order
+  netPayout: number;
+  avgNetPayout: number;
+  incrementalOrders: number | null; // null when the run window covers the whole data range
+  incrementalNetPayout: number | null;
+  roiPercent: number | null; // incrementalNetPayout / restaurantCost
+  paidForItself: boolean | null;
+}
+
+export interface PromotionWeek {
+  week: string; // Monday, YYYY-MM-DD
+  key: string;
+  label: string;
+  orders: number;
+  restaurantCost: number;
+  netPayout: number;
+  incrementalNetPayout: number | null;
+  paidForItself: boolean | null;
+}
+
+export interface PromotionReport {
+  deliveredOrders: number;
+  discountedShare: number; // % of delivered orders with any discount
+  totalRestaurantCost: number;
+  baseline: { orders: number; avgBasket: number; avgNetPayout: number };
+  promotions: PromotionStats[]; // Largest restaurant cost first
+  weekly: PromotionWeek[]; // Oldest week first
+}
+
+const collapse = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+function constructKind(construct: string): PromotionKind {
+  const text = construct.toLowerCase();
+  if (/%/.test(text)) return 'percent_off';
+  if (/free/.test(text)) return 'freebie';
+  if (/gold/.test(text)) return 'gold';
+  if (/brand|pack/.test(text)) return 'brand_pack';
+  if (/flat|rs\.?\s*\d+\s*off|₹\s*\d+\s*off/.test(text)) return 'flat_off';
+  return 'other';
+}
+
+export function restaurantDiscountCost(order: ZomatoOrder): number {
+  return (order.promoDiscount ?? 0) + (order.flatOffDiscount ?? 0) + (order.brandPackDiscount ?? 0);
+}
+
+/** The offer an order used, or null for a full-price order. */
+export function getPromotion(order: ZomatoOrder): Promotion | null {
+  const construct = collapse(order.discountConstruct ?? '');
+  if (construct) {
+    return { key: construct.toLowerCase(), label: construct, kind: constructKind(construct) };
+  }
+
+  const columns: Array<[PromotionKind, string, number]> = [
+    ['promo', 'Promo (unnamed)', order.promoDiscount ?? 0],
+    ['flat_off', 'Flat offs & freebies', order.flatOffDiscount ?? 0],
+    ['gold', 'Gold', order.goldDiscount ?? 0],
+    ['brand_pack', 'Brand pack', order.brandPackDiscount ?? 0],
+  ];
+  const [kind, label, amount] = columns.sort((a, b) => b[2] - a[2])[0];
+  return amount > 0 ? { key: `column:${kind}`, label, kind } : null;
+}
+
+const basketValue = (order: ZomatoOrder) => order.billSubtotal ?? order.totalAmount;
+
+interface DayTotals { orders: number; netPayout: number }
+interface DateSpan { start: string; end: string }
+
+const weekdayOf = (day: string) => new Date(`${day}T00:00:00Z`).getUTCDay();
+
+function eachDay(span: DateSpan): string[] {
+  const list: string[] = [];
+  for (let day = span.start; day <= span.end; day = addDays(day, 1)) list.push(day);
+  return list;
+}
+
+/**
+ * Sum over the run window of (day − average of the same weekday outside the
+ * window); days without orders count as zero. Weekdays never seen outside the
+ * window fall back to the average of all outside days. Null when the window
+ * covers the whole data range.
+ */
+function increment(days: Map<string, DayTotals>, range: DateSpan, window: DateSpan, field: keyof DayTotals): { total: number; byDay: Map<string, number> } | null {
+  const outside = eachDay(range).filter((day) => day < window.start || day > window.end);
+  if (outside.length === 0) return null;
+
+  const byWeekday = new Map<number, { sum: number; count: number }>();
+  let outsideSum = 0;
+  outside.forEach((day) => {
+    const value = days.get(day)?.[field] ?? 0;
+    const bucket = byWeekday.get(weekdayOf(day)) ?? { sum: 0, count: 0 };
+    bucket.sum += value;
+    bucket.count += 1;
+    byWeekday.set(weekdayOf(day), bucket);
+    outsideSum += value;
+  });
+
+  const byDay = new Map<string, number>();
+  let total = 0;
+  eachDay(window).forEach((day) => {
+    const bucket = byWeekday.get(weekdayOf(day));
+    const baseline = bucket ? bucket.sum / bucket.count : outsideSum / outside.length;
+    const delta = (days.get(day)?.[field] ?? 0) - baseline;
+    byDay.set(day, delta);
+    total += delta;
+  });
+  return { total, byDay };
+}
+
+export function analyzePromotions(orders: ZomatoOrder[], cards?: RateCard[], settings?: KitchenTimeSettings): PromotionReport {
+  const delivered = orders.filter(isDelivered);
+  const days = new Map<string, DayTotals>();
+  const baselineOrders: Array<{ basket: number; net: number }> = [];
+  const groups = new Map<string, {
+    promotion: Promotion;
+    orders: number;
+    basket: number;
+    restaurantCost: number;
+    platformFunded: number;
+    netPayout: number;
+    days: Set<string>;
+    weeks: Map<string, { orders: number; restaurantCost: number; netPayout: number }>;
+  }>();
+
+  delivered.forEach((order) => {
+    const day = businessDate(order.orderPlacedAt, settings);
+    const net = calculateOrderPayout(order, cards).netPayout;
+    const totals = days.get(day) ?? { orders: 0, netPayout: 0 };
+    totals.orders += 1;
+    totals.netPayout += net;
+    days.set(day, totals);
+
+    const promotion = getPromotion(order);
+    if (!promotion) {
+      baselineOrders.push({ basket: basketValue(order), net });
+      return;
+    }
+
+    const group = groups.get(promotion.key) ?? {
+      promotion, orders: 0, basket: 0, restaurantCost: 0, platformFunded: 0, netPayout: 0, days: new Set<string>(), weeks: new Map(),
+    };
+    const cost = restaurantDiscountCost(order);
+    group.orders += 1;
+    group.basket += basketValue(order);
+    group.restaurantCost += cost;
+    group.platformFunded += order.goldDiscount ?? 0;
+    group.netPayout += net;
+    group.days.add(day);
+
+    const weekKey = businessWeekStart(order.orderPlacedAt, settings);
+    const week = group.weeks.get(weekKey) ?? { orders: 0, restaurantCost: 0, netPayout: 0 };
+    week.orders += 1;
+    week.restaurantCost += cost;
+    week.netPayout += net;
+    group.weeks.set(weekKey, week);
+    groups.set(promotion.key, group);
+  });
+
+  const baselineBasket = baselineOrders.length > 0 ? baselineOrders.reduce((sum, o) => sum + o.basket, 0) / baselineOrders.length : 0;
+  const promotions: PromotionStats[] = [];
+  const weekly: PromotionWeek[] = [];
+  const allDays = Array.from(days.keys()).sort();
+  const range: DateSpan = { start: allDays[0], end: allDays[allDays.length - 1] };
+
+  groups.forEach((group) => {
+    const avgBasket = group.basket / group.orders;
+    const redeemed = Array.from(group.days).sort();
+    const window: DateSpan = { start: redeemed[0], end: redeemed[redeemed.length - 1] };
+    const extraOrders = increment(days, range, window, 'orders');
+    const extraPayout = increment(days, range, window, 'netPayout');
+    promotions.push({
+      ...group.promotion,
+      orders: group.orders,
+      orderShare: (group.orders / delivered.length) * 100,
+      activeDays: group.days.size,
+      runDays: eachDay(window).length,
+      avgBasket,
+      basketLiftPercent: baselineBasket > 0 ? ((avgBasket - baselineBasket) / baselineBasket) * 100 : null,
+      restaurantCost: group.restaurantCost,
+      platformFunded: group.platformFunded,
+      avgDiscount: group.restaurantCost / group.orders,
+      netPayout: group.netPayout,
+      avgNetPayout: group.netPayout / group.orders,
+      incrementalOrders: extraOrders ? extraOrders.total : null,
+      incrementalNetPayout: extraPayout ? extraPayout.total : null,
+      roiPercent: extraPayout && group.restaurantCost > 0 ? (extraPayout.total / group.restaurantCost) * 100 : null,
+      paidForItself: extraPayout ? extraPayout.total > 0 : null,
+    });
+
+    group.weeks.forEach((week, weekKey) => {
+      // Every window day of the week, including days without a redemption
+      const weekIncrement = extraPayout
+        ? Array.from(extraPayout.byDay.entries())
+            .filter(([day]) => weekStartOfDate(day) === weekKey)
+            .reduce((sum, [, delta]) => sum + delta, 0)
+        : null;
+      weekly.push({
+        week: weekKey,
+        key: group.promotion.key,
+        label: group.promotion.label,
+        orders: week.orders,
+        restaurantCost: week.restaurantCost,
+        netPayout: week.netPayout,
+        incrementalNetPayout: weekIncrement,
+        paidForItself: weekIncrement === null ? null : weekIncrement > 0,
+      });
+    });
+  });
+
+  const discounted = delivered.length - baselineOrders.length;
+  return {
+    deliveredOrders: delivered.length,
+    discountedShare: delivered.length > 0 ? (discounted / delivered.length) * 100 : 0,
+    totalRestaurantCost: promotions.reduce((sum, p) => sum + p.restaurantCost, 0),
+    baseline: {
+      orders: baselineOrders.length,
+      avgBasket: baselineBasket,
+      avgNetPayout: baselineOrders.length > 0 ? baselineOrders.reduce((sum, o) => sum + o.net, 0) / baselineOrders.length : 0,
+    },
+    promotions: promotions.sort((a, b) => b.restaurantCost - a.restaurantCost),
+    weekly: weekly.sort((a, b) => a.week.localeCompare(b.week) || b.restaurantCost - a.restaurantCost),
+  };
+}
+
+/** One report per restaurant, busiest first. */
+export function analyzePromotionsByRestaurant(orders: ZomatoOrder[], cards?: RateCard[], settings?: KitchenTimeSettings): Array<{ restaurant: string; report: PromotionReport }> {
+  const byRestaurant = new Map<string, ZomatoOrder[]>();
+  orders.forEach((order) => {
+    const list = byRestaurant.get(order.restaurantName) ?? [];
+    list.push(order);
+    byRestaurant.set(order.restaurantName, list);
+  });
+  return Array.from(byRestaurant.entries())
+    .map(([restaurant, list]) => ({ restaurant, report: analyzePromotions(list, cards, settings) }))
+    .sort((a, b) => b.report.deliveredOrders - a.report.deliveredOrders);
+}
@@ -1,5 +1,12 @@
 import { ZomatoOrder } from '../types';
 import { GoogleGenAI } from '@google/genai';
+import { formatChannelMix } from './channelService';
+import { countItemQuantities } from './orderItems';
+import { formatPayoutSummary, summarizePayouts } from './payoutService';
+import { analyzeKitchenOps, formatKitchenOps } from './kitchenOpsService';
+import { analyzeMenuEngineering, formatMenuEngineering } from './menuEngineeringService';
+import { analyzeReviews, formatReviewSummary } from './reviewAnalyticsService';
+import { Goal, evaluateGoals, formatGoalStatus } from './goalService';
 
 const geminiApiKey =
   import.meta.env.VITE_GEMINI_API_KEY ||
@@ -36,10 +43,11 @@ function setPersistentCooldownUntil(value: number): void {
   }
 }
 
-function buildQaCacheKey(question: string, orders: ZomatoOrder[], userName: string): string {
+function buildQaCacheKey(question: string, orders: ZomatoOrder[], userName: string, goals: Goal[]): string {
   const total = orders.reduce((sum, o) => sum + (o.totalAmount || 0), 0).toFixed(2);
   const latest = orders.reduce((max, o) => Math.max(max, Number(o.orderPlacedAt) || 0), 0);
-  return `${userName}|${question.trim().toLowerCase()}|${orders.length}|${total}|${latest}`;
+  const goalKey = goals.map(g => `${g.id}:${g.target}`).join(',');
+  return `${userName}|${question.trim().toLowerCase()}|${orders.length}|${total}|${latest}|${goalKey}`;
 }
 
 function isRateLimitError(err: any): boolean {
@@ -48,36 +56,30 @@ function isRateLimitError(err: any): boolean {
   return status === 429 || message.includes('429') || message.includes('too many requests') || message.includes('rate limit');
 }
 
-function buildDataContext(orders: ZomatoOrder[]): string {
+function buildDataContext(orders: ZomatoOrder[], goals: Goal[]): string {
   const totalRevenue = orders.reduce((sum, o) => sum + (o.totalAmount || 0), 0);
   const totalOrders = orders.length;
   const avgRating = orders.filter(o => o.rating).length > 0 
     ? (orders.filter(o => o.rating).reduce((sum, o) => sum + (o.rating || 0), 0) / orders.filter(o => o.rating).length).toFixed(2)
     : 'N/A';
 
-  const itemsMap: Record<string, number> = {};
-  orders.forEach(o => {
-    if (o.items) {
-      const parts = o.items.split(',');
-      parts.forEach(p => {
-        const name = p.replace(/^\d+\s*[xX]\s*/, '').trim();
-        itemsMap[name] = (itemsMap[name] || 0) + 1;
-      });
-    }
-  });
-  const topItems = Object.entries(itemsMap).sort((a,b)=>b[1]-a[1]).slice(0,5).map(x => `${x[0]} (${x[1]} times)`).join(', ');
+  const topItems = countItemQuantities(orders).slice(0,5).map(x => `${x.name} (${x.quantity} sold)`).join(', ');
 
   return `DATASET CONTEXT:
 - Total Orders: ${totalOrders}
 - Total Revenue: ₹${totalRevenue.toFixed(2)}
 - Average Rating: ${avgRating}/5
 - Top Items: ${topItems}
-- Zomato Commission Rate: ~35%
-- Net Revenue (approx): ₹${(totalRevenue * 0.65).toFixed(2)}`;
+- Sales Channels: ${formatChannelMix(orders)}
+- Payout (rate cards): ${formatPayoutSummary(summarizePayouts(orders))}
+- Kitchen Ops: ${formatKitchenOps(analyzeKitchenOps(orders))}
+- Menu Engineering: ${formatMenuEngineering(analyzeMenuEngineering(orders))}
+- Customer Reviews: ${formatReviewSummary(analyzeReviews(orders))}
+- Goals: ${formatGoalStatus(evaluateGoals(goals, orders))}`;
 }
 
-export async function askAI(question: string, orders: ZomatoOrder[], userName: string): Promise<string> {
-  const cacheKey = buildQaCacheKey(question, orders, userName);
+export async function askAI(question: string, orders: ZomatoOrder[], userName: string, goals: Goal[] = []): Promise<string> {
+  const cacheKey = buildQaCacheKey(question, orders, userName, goals);
   const cached = qaCache.get(cacheKey);
   if (cached && (Date.now() - cached.at) < QA_CACHE_TTL_MS) {
     return cached.value;
@@ -86,7 +88,7 @@ export async function askAI(question: string, orders: ZomatoOrder[], userName: s
   const existing = qaInFlight.get(cacheKey);
   if (existing) return existing;
 
-  const dataContext = buildDataContext(orders);
+  const dataContext = buildDataContext(orders, goals);
 
   const prompt = `You are KitchenOS AI, a strategic analytics assistant for ${userName}'s cloud kitchen.
 
@@ -129,7 +131,7 @@ INSTRUCTIONS:
       }
     }
 
-    const fallback = localAnswerFallback(question, orders);
+    const fallback = localAnswerFallback(question, orders, goals);
     qaCache.set(cacheKey, { at: Date.now(), value: fallback });
     return fallback;
   })();
@@ -142,25 +144,21 @@ INSTRUCTIONS:
   }
 }
 
-function localAnswerFallback(question: string, orders: ZomatoOrder[]): string {
+function localAnswerFallback(question: string, orders: ZomatoOrder[], goals: Goal[]): string {
   // Simple heuristic-based answers using dataset
   const q = question.toLowerCase();
   const totalRevenue = orders.reduce((s, o) => s + (o.totalAmount || 0), 0);
   const totalOrders = orders.length;
-  const itemsMap: Record<string, number> = {};
-  orders.forEach(o => {
-    if (o.items) {
-      o.items.split(',').forEach(p => {
-        const name = p.replace(/^\d+\s*[xX]\s*/, '').trim();
-        if (name) itemsMap[name] = (itemsMap[name] || 0) + 1;
-      });
-    }
-  });
-  const topItems = Object.entries(itemsMap).sort((a,b)=>b[1]-a[1]);
+  const topItems = countItemQuantities(orders).map(x => [x.name, x.quantity] as const);
+
+  if (q.includes('goal') || q.includes('target')) {
+    if (goals.length === 0) return 'No goals set yet. Add weekly or monthly targets in the Goals panel on the Dashboard.';
+    return `Goal status: ${formatGoalStatus(evaluateGoals(goals, orders))}.`;
+  }
 
   if (q.includes('top item') || q.includes('top items') || q.includes('best seller') || q.includes('popular')) {
     if (topItems.length === 0) return 'No item data in your dataset.';
-    const top = topItems.slice(0,3).map(t => `${t[0]} (${t[1]} orders)`).join(', ');
+    const top = topItems.slice(0,3).map(t => `${t[0]} (${t[1]} sold)`).join(', ');
     return `Your best sellers are: ${top}. Consider promoting these items to boost revenue.`;
   }
 
@@ -176,9 +174,9 @@ function localAnswerFallback(question: string, orders: ZomatoOrder[]): string {
   }
 
   if (q.includes('profit') || q.includes('zomato') || q.includes('commission') || q.includes('net')) {
-    const commission = totalRevenue * 0.35;
-    const net = totalRevenue - commission;
-    return `Gross: ₹${totalRevenue.toFixed(2)} | Zomato cut (35%): ₹${commission.toFixed(2)} | Your net: ₹${net.toFixed(2)}.`;
+    const payout = summarizePayouts(orders);
+    const commission = payout.commission + payout.gstOnCommission;
+    return `Gross: ₹${payout.gross.toFixed(2)} | Commission incl. GST: ₹${commission.toFixed(2)} | Gateway & fees: ₹${(payout.gatewayFee + payout.fixedFees).toFixed(2)} | Penalties: ₹${payout.penalties.toFixed(2)} | Your net payout: ₹${payout.netPayout.toFixed(2)}.`;
   }
 
   if (q.includes('low') || q.includes('bad') || q.includes('improve') || q.includes('increase')) {
@@ -1,4 +1,6 @@
 import { ZomatoOrder } from '../types';
+import { isCancelled, isDelivered, isRestaurantRejection } from './orderStatusService';
+import { summarizePayouts } from './payoutService';
 import { env } from '@xenova/transformers';
 import { GoogleGenAI, Type } from '@google/genai';
 
@@ -394,10 +396,11 @@ class RAGDSSService {
     similarOrders: ZomatoOrder[],
     query: string
   ): string {
-    const completedOrders = allOrders.filter(o => this.isCompletedStatus(o.orderStatus)).length;
-    const rejectedOrders = allOrders.filter(o => this.isRejectedStatus(o.orderStatus)).length;
-    const cancelledOrders = allOrders.filter(o => this.isCancelledStatus(o.orderStatus)).length;
+    const completedOrders = allOrders.filter(isDelivered).length;
+    const rejectedOrders = allOrders.filter(isRestaurantRejection).length;
+    const cancelledOrders = allOrders.filter(isCancelled).length;
     const peakHours = this.getPeakHours(allOrders, 3);
+    const payout = summarizePayouts(allOrders);
 
     const stats = {
       totalOrders: allOrders.length,
@@ -423,7 +426,7 @@ class RAGDSSService {
       ? similarOrders.reduce((sum, o) => sum + o.totalAmount, 0) / similarOrders.length 
       : 0;
     const similarCompletionRate = similarOrders.length > 0
-      ? (similarOrders.filter(o => this.isCompletedStatus(o.orderStatus)).length / similarOrders.length) * 100
+      ? (similarOrders.filter(isDelivered).length / similarOrders.length) * 100
       : 0;
 
     return `CLOUD KITCHEN AI MANAGER DECISION SUPPORT
@@ -440,8 +443,9 @@ FULL DATASET:
 - Rejected: ${stats.rejectedOrders} (${((stats.rejectedOrders / Math.max(1, stats.totalOrders)) * 100).toFixed(1)}%)
 - Cancelled: ${stats.cancelledOrders} (${((stats.cancelledOrders / Math.max(1, stats.totalOrders)) * 100).toFixed(1)}%)
 - Peak Demand Hours: ${peakHours.length ? peakHours.join(', ') : 'Unavailable'}
-- Zomato Commission (est 35%): ₹${(stats.totalRevenue * 0.35).toFixed(0)}
-- Net Profit (est 65%): ₹${(stats.totalRevenue * 0.65).toFixed(0)}
+- Aggregator Commission incl. GST: ₹${(payout.commission + payout.gstOnCommission).toFixed(0)}
+- Gateway & Fixed Fees: ₹${(payout.gatewayFee + payout.fixedFees).toFixed(0)}
+- Net Payout (rate cards): ₹${payout.netPayout.toFixed(0)} (${payout.netMarginPercent.toFixed(1)}% of gross)
 
 SIMILAR HISTORICAL PATTERNS (from ${similarOrders.length} related orders):
 - Avg Order Value: ₹${avgSimilarValue.toFixed(0)}
@@ -455,21 +459,6 @@ Focus on: actionable insights, specific metrics, business impact
 Format: Clear sections with bullet points for action items`;
   }
 
-  private isCompletedStatus(status: string): boolean {
-    const s = (status || '').toLowerCase();
-    return s.includes('deliver') || s.includes('complete') || s.includes('fulfilled');
-  }
-
-  private isRejectedStatus(status: string): boolean {
-    const s = (status || '').toLowerCase();
-    return s.includes('reject') || s.includes('fail');
-  }
-
-  private isCancelledStatus(status: string): boolean {
-    const s = (status || '').toLowerCase();
-    return s.includes('cancel');
-  }
-
   private getPeakHours(orders: ZomatoOrder[], topN: number): string[] {
     const counts = new Array(24).fill(0);
 
@@ -590,8 +579,8 @@ Based on the above context, please provide strategic recommendations that the ki
         similarOrders.filter(o => o.rating).length).toFixed(1)
       : 'N/A';
 
-    const completedCount = similarOrders.filter(o => o.orderStatus === 'Completed').length;
-    const rejectedCount = similarOrders.filter(o => o.orderStatus === 'Rejected').length;
+    const completedCount = similarOrders.filter(isDelivered).length;
+    const rejectedCount = similarOrders.filter(isRestaurantRejection).length;
     const completionRate = (completedCount / similarOrders.length) * 100;
     
     const avgValue = similarOrders.reduce((sum, o) => sum + o.totalAmount, 0) / similarOrders.length;
@@ -649,11 +638,12 @@ RECOMMENDATIONS:
 5. A/B test 2-3 new items with similar order patterns`;
     }
     else if (lowerQuery.includes('revenue') || lowerQuery.includes('profit') || lowerQuery.includes('margin')) {
+      const similarPayout = summarizePayouts(similarOrders);
       analysis += `INSIGHTS ON REVENUE & PROFITABILITY:
 - Revenue from similar orders: ₹${totalRevenue.toFixed(0)}
 - Avg per order: ₹${avgValue.toFixed(0)}
-- Zomato commission (est 35%): ₹${(totalRevenue * 0.35).toFixed(0)}
-- Net margin (est 65%): ₹${(totalRevenue * 0.65).toFixed(0)}
+- Aggregator commission incl. GST: ₹${(similarPayout.commission + similarPayout.gstOnCommission).toFixed(0)}
+- Net payout (rate cards): ₹${similarPayout.netPayout.toFixed(0)} (${similarPayout.netMarginPercent.toFixed(1)}% of gross)
 - Volume × Margin = Your profit target
 
 RECOMMENDATIONS:
@@ -667,7 +657,7 @@ RECOMMENDATIONS:
       analysis += `INSIGHTS ON DEMAND PATTERNS:
 - Similar orders average value: ₹${avgValue.toFixed(0)}
 - Completion consistency: ${completionRate.toFixed(0)}%
-- Order distribution: ${similarOrders.filter(o => o.orderStatus === 'Completed').length} completed, ${rejectedCount} rejected
+- Order distribution: ${completedCount} completed, ${rejectedCount} rejected
 
 RECOMMENDATIONS:
 1. Analyze peak hours from order timestamps
@@ -808,7 +798,7 @@ RECOMMENDATIONS:
     const totalValue = similarOrders.reduce((sum, o) => sum + o.totalAmount, 0);
     const avgValue = (totalValue / similarOrders.length).toFixed(0);
 
-    return `Analyzed ${similarOrders.length} similar historical orders. Average order value: ₹${avgValue}. Status distribution shows ${Math.round(100 * similarOrders.filter(o => o.orderStatus === 'Completed').length / similarOrders.length)}% completion rate.`;
+    return `Analyzed ${similarOrders.length} similar historical orders. Average order value: ₹${avgValue}. Status distribution shows ${Math.round(100 * similarOrders.filter(isDelivered).length / similarOrders.length)}% completion rate.`;
   }
 
   /**
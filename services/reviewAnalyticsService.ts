@@ -0,0 +1,355 @@
+import { ZomatoOrder } from "../types";
+import { KitchenTimeSettings, addDays, businessDate, businessWeekStart } from "./kitchenTimeService";
+import { getOrderItems } from "./orderItems";
+import { canonicalItemName } from "./menuCatalogService";
+
+/**
+ * Offline text analytics for the "Review" and "Customer complaint tag"
+ * columns, so review insights don't depend on Gemini being reachable.
+ *
+ * Sentiment is lexicon-based: each word in the lexicon scores ±1 (±2 for
+ * strong words like "worst" or "awesome"), an intensifier right before it
+ * ("very", "too", "khub") multiplies by 1.5, and a negator up to three words
+ * before it in the same clause ("not", "never") or right after it ("bhalo
+ * na", "accha nahi") flips it; a negator only flips the first scored word. Emoji count as words. The lexicon covers the English, Hinglish and Bengali transliterations (and
+ * common misspellings) that show up in delivery reviews.
+ *
+ * A review is negative when its text scores below zero or the order was
+ * rated 2 stars or lower (which also catches sarcasm the lexicon reads as
+ * praise).
+ *
+ * Aspects are keyword groups (taste, quantity, packaging, late, cold, missing
+ * items); a review mentioning one counts toward it with the review's
+ * sentiment.
+ */
+
+export type ReviewSentiment = 'positive' | 'neutral' | 'negative';
+
+export type ReviewAspect = 'taste' | 'quantity' | 'packaging' | 'late' | 'cold' | 'missing';
+
+export const REVIEW_ASPECT_LABELS: Record<ReviewAspect, string> = {
+  taste: 'Taste & quality',
+  quantity: 'Quantity & portion',
+  packaging: 'Packaging',
+  late: 'Late delivery',
+  cold: 'Cold food',
+  missing: 'Missing or wrong items',
+};
+
+export const REVIEW_SENTIMENT_COLORS: Record<ReviewSentiment, string> = {
+  positive: '#10b981',
+  neutral: '#737373',
+  negative: '#ef4444',
+};
+
+export interface ReviewTextAnalysis {
+  score: number; // Sum of word scores; > 0 positive, < 0 negative
+  sentiment: ReviewSentiment; // From the text alone
+  aspects: ReviewAspect[];
+  keywords: string[]; // Content words, lowercased, without stopwords
+}
+
+export interface AnalyzedReview extends ReviewTextAnalysis {
+  orderId: string;
+  orderPlacedAt: number;
+  date: string; // Business date
+  restaurantName: string;
+  rating?: number;
+  review: string;
+  complaintTag?: string;
+  negative: boolean; // Negative text or a rating of 2 or lower
+}
+
+export interface AspectSummary {
+  aspect: ReviewAspect;
+  mentions: number;
+  negative: number;
+  positive: number;
+  avgRating: number | null; // Over rated reviews mentioning the aspect
+}
+
+export interface KeywordCount {
+  word: string;
+  count: number;
+}
+
+export interface ComplaintTagGroup {
+  key: string; // Item or restaurant name
+  orders: number; // Orders in scope
+  complaints: number; // Orders carrying a complaint tag
+  complaintRate: number; // % of orders
+  byTag: Record<string, number>;
+  weekly: number[]; // Complaints per week, aligned with ComplaintTagReport.weeks
+}
+
+export interface ComplaintTagReport {
+  total: number; // Orders with a complaint tag
+  byTag: Array<{ tag: string; count: number }>; // Most frequent first
+  weeks: string[]; // Business weeks (Monday keys), oldest first
+  trend: Array<{ week: string; counts: Record<string, number> }>;
+  byItem: ComplaintTagGroup[]; // Most complaints first
+  byRestaurant: ComplaintTagGroup[];
+}
+
+export interface ReviewReport {
+  reviewed: number; // Orders with review text
+  sentimentCounts: Record<ReviewSentiment, number>; // Low-rated reviews count as negative
+  avgScore: number;
+  aspects: AspectSummary[]; // Most mentioned first
+  negativeKeywords: KeywordCount[];
+  positiveKeywords: KeywordCount[];
+  reviews: AnalyzedReview[]; // Newest first
+  negativeReviews: AnalyzedReview[]; // Newest first
+  sentimentTrend: Array<{ week: string; positive: number; neutral: number; negative: number }>;
+  complaints: ComplaintTagReport;
+}
+
+const LEXICON: Record<string, number> = {
+  // Positive
+  good: 1, nice: 1, tasty: 1, fine: 1, fresh: 1, hot: 1, quick: 1, fast: 1, soft: 1, juicy: 1, yum: 1, yummy: 2,
+  love: 2, loved: 2, great: 2, awesome: 2, amazing: 2, excellent: 2, delicious: 2, fantastic: 2, superb: 2, perfect: 2,
+  best: 2, wonderful: 2, outstanding: 2, recommend: 1, recommended: 1, satisfied: 1, worth: 1, polite: 1, generous: 1,
+  thanks: 1, thank: 1, enjoyed: 1, properly: 1, lovely: 1, flavourful: 1, flavorful: 1, crispy: 1, authentic: 1,
+  darun: 2, bhalo: 1, valo: 1, sundor: 1, osadharon: 2, accha: 1, acha: 1, achha: 1, badhiya: 2, mast: 2, swadisht: 2,
+  '😋': 2, '😍': 2, '👍': 1, '❤️': 2, '❤': 2, '🔥': 1, '👌': 1, '😊': 1,
+  // Negative
+  bad: -1, poor: -1, small: -1, less: -1, low: -1, late: -1, delay: -1, delayed: -1, cold: -1, stale: -2, raw: -1,
+  undercooked: -2, overcooked: -1, burnt: -1, oily: -1, salty: -1, bland: -1, tasteless: -2, spoiled: -2, spoilt: -2,
+  smell: -1, smelly: -2, hair: -2, insect: -2, cockroach: -2, missing: -1, wrong: -1, leaked: -1, leaking: -1, spilled: -1,
+  soggy: -1, rubbery: -1, dry: -1, expensive: -1, overpriced: -1, disappointed: -2, disappointing: -2, unhygienic: -2,
+  worst: -2, pathetic: -2, terrible: -2, horrible: -2, disaster: -2, awful: -2, disgusting: -2, shit: -2, cheat: -2,
+  cheats: -2, cheater: -2, cheaters: -2, cheated: -2, waste: -2, wasted: -2, robbed: -2, roubbed: -2, refund: -1, rude: -1, useless: -2, tiny: -1, unusual: -1,
+  kharap: -2, kharab: -2, bekar: -2, faltu: -2, ganda: -2, bakwas: -2,
+  '😡': -2, '🤬': -2, '😠': -2, '🤮': -2, '👎': -2, '😞': -1, '😤': -1, '😒': -1, '🤢': -2,
+};
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'nothing', 'hardly', 'without', 'dont', "don't", 'didnt', "didn't", 'isnt', "isn't", 'wasnt',
+  "wasn't", 'nahi', 'nahin', 'neither', 'nor',
+]);
+
+// Hindi / Bengali negation follows the word it negates
+const POST_NEGATORS = new Set(['nahi', 'nahin', 'nai', 'na', 'noy']);
+
+const INTENSIFIERS = new Set(['very', 'verry', 'too', 'so', 'really', 'extremely', 'super', 'totally', 'absolutely', 'khub', 'bahut', 'bohut', 'bohot', 'most']);
+
+// Stems match words that start with them ("pack" → "packing", "packed")
+const ASPECT_KEYWORDS: Record<ReviewAspect, string[]> = {
+  taste: ['taste', 'tasty', 'tasteless', 'flavo', 'bland', 'salt', 'spic', 'oily', 'delicious', 'yummy', 'cook', 'undercooked', 'raw', 'stale', 'quality', 'smell', 'swad', 'fresh', 'burnt'],
+  quantity: ['quantity', 'qty', 'portion', 'piece', 'peice', 'pice', 'pis', 'pic', 'size', 'small', 'less', 'tiny', 'little', 'enough', 'half'],
+  packaging: ['packag', 'packing', 'pack', 'leak', 'spill', 'container', 'box', 'seal', 'lid'],
+  late: ['late', 'delay', 'hour', 'wait', 'slow', 'minute', 'mins', 'took'],
+  cold: ['cold', 'lukewarm', 'warm', 'chilled', 'temperature', 'thanda'],
+  missing: ['missing', 'forgot', 'forgotten', 'wrong', 'diya', 'dilivered', 'delivered', 'given', 'sent'],
+};
+
+// Words that only mean a missing item when negated ("not delivered", "chicken nahi diya")
+const MISSING_NEEDS_NEGATION = new Set(['diya', 'dilivered', 'delivered', 'given', 'sent']);
+
+const STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those',
+  'i', 'me', 'my', 'we', 'our', 'you', 'your', 'they', 'their', 'he', 'she', 'his', 'her', 'them', 'to', 'of', 'in', 'on', 'at',
+  'for', 'with', 'from', 'by', 'as', 'am', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'can', 'could', 'should',
+  'just', 'also', 'there', 'here', 'what', 'which', 'who', 'all', 'any', 'some', 'than', 'then', 'more', 'very', 'too', 'so',
+  'really', 'food', 'order', 'ordered', 'zomato', 'swiggy', 'hai', 'ki', 'ka', 'ke', 'se', 'me', 'bhi', 'aur', 'ta', 'ei', 'ar',
+  'ache', 'one', 'two', 'get', 'got', 'please', 'if', 'when', 'about', 'out', 'up', 'into', 'only', 'because', 'after', 'before',
+  'again', 'even', 'much', 'many', 'still', 'like', 'not', 'no', 'never', 'dont', "don't", 'isme', 'nahi', 'de',
+]);
+
+const TOKEN_PATTERN = /\p{Extended_Pictographic}|[\p{L}\p{N}']+/gu;
+
+const CLAUSE_BREAK = /[.,!?;:\n]+|\s(?:but|however|though)\s|\$%/i;
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().normalize('NFC').match(TOKEN_PATTERN) ?? []).map((token) => token.replace(/^'+|'+$/g, '')).filter(Boolean);
+
+const mentions = (token: string, keyword: string) =>
+  token === keyword || (keyword.length >= 4 && token.startsWith(keyword));
+
+/** Sentiment, aspects and keywords for one piece of review text. */
+export function analyzeReviewText(text: string): ReviewTextAnalysis {
+  const clauses = text.split(CLAUSE_BREAK).map(tokenize);
+  const tokens = clauses.flat();
+  let score = 0;
+  const aspects = new Set<ReviewAspect>();
+
+  clauses.forEach((clause) => {
+    let negatorAt = -Infinity; // Index of the last negator not yet used up
+    clause.forEach((token, i) => {
+      if (NEGATORS.has(token)) negatorAt = i;
+      const negated = (negatorAt < i && i - negatorAt <= 3) || POST_NEGATORS.has(clause[i + 1]);
+
+      const value = LEXICON[token];
+      if (value !== undefined) {
+        const intensified = i > 0 && INTENSIFIERS.has(clause[i - 1]) ? 1.5 : 1;
+        score += value * intensified * (negated ? -1 : 1);
+        if (negated) negatorAt = -Infinity;
+      }
+
+      (Object.keys(ASPECT_KEYWORDS) as ReviewAspect[]).forEach((aspect) => {
+        if (!ASPECT_KEYWORDS[aspect].some((keyword) => mentions(token, keyword))) return;
+        if (aspect === 'missing' && MISSING_NEEDS_NEGATION.has(token) && !negated) return;
+        aspects.add(aspect);
+      });
+    });
+  });
+
+  const sentiment: ReviewSentiment = score > 0 ? 'positive' : score < 0 ? 'negative' : 'neutral';
+  const keywords = Array.from(new Set(
+    tokens.filter((token) => token.length >= 3 && !STOPWORDS.has(token) && !/^\d+$/.test(token) && /\p{L}/u.test(token))
+  ));
+
+  return { score, sentiment, aspects: Array.from(aspects), keywords };
+}
+
+const countKeywords = (reviews: AnalyzedReview[], limit: number): KeywordCount[] => {
+  const counts = new Map<string, number>();
+  reviews.forEach((review) => review.keywords.forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1)));
+  return Array.from(counts.entries())
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, limit);
+};
+
+function groupComplaints(
+  groups: Map<string, ZomatoOrder[]>,
+  weeks: string[],
+  settings?: KitchenTimeSettings
+): ComplaintTagGroup[] {
+  const weekIndex = new Map(weeks.map((week, i) => [week, i]));
+  return Array.from(groups.entries())
+    .map(([key, list]) => {
+      const tagged = list.filter((o) => o.customerComplaintTag);
+      const byTag: Record<string, number> = {};
+      const weekly = new Array(weeks.length).fill(0);
+      tagged.forEach((o) => {
+        byTag[o.customerComplaintTag!] = (byTag[o.customerComplaintTag!] ?? 0) + 1;
+        weekly[weekIndex.get(businessWeekStart(o.orderPlacedAt, settings))!] += 1;
+      });
+      return {
+        key,
+        orders: list.length,
+        complaints: tagged.length,
+        complaintRate: list.length > 0 ? (tagged.length / list.length) * 100 : 0,
+        byTag,
+        weekly,
+      };
+    })
+    .filter((group) => group.complaints > 0)
+    .sort((a, b) => b.complaints - a.complaints || b.complaintRate - a.complaintRate);
+}
+
+/** Complaint-tag counts overall, per item and per restaurant, by business week. */
+export function analyzeComplaintTags(orders: ZomatoOrder[], settings?: KitchenTimeSettings): ComplaintTagReport {
+  const tagged = orders.filter((o) => o.customerComplaintTag);
+  const tagWeeks = tagged.map((o) => businessWeekStart(o.orderPlacedAt, settings)).sort();
+  const weeks: string[] = [];
+  for (let week = tagWeeks[0]; week && week <= tagWeeks[tagWeeks.length - 1]; week = addDays(week, 7)) weeks.push(week);
+
+  const tagCounts = new Map<string, number>();
+  const trend = new Map<string, Record<string, number>>(weeks.map((week) => [week, {}]));
+  tagged.forEach((o) => {
+    const tag = o.customerComplaintTag!;
+    tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+    const counts = trend.get(businessWeekStart(o.orderPlacedAt, settings))!;
+    counts[tag] = (counts[tag] ?? 0) + 1;
+  });
+
+  const byItem = new Map<string, ZomatoOrder[]>();
+  const byRestaurant = new Map<string, ZomatoOrder[]>();
+  orders.forEach((order) => {
+    new Set(getOrderItems(order).map(canonicalItemName)).forEach((item) => {
+      const list = byItem.get(item) ?? [];
+      list.push(order);
+      byItem.set(item, list);
+    });
+    const list = byRestaurant.get(order.restaurantName) ?? [];
+    list.push(order);
+    byRestaurant.set(order.restaurantName, list);
+  });
+
+  return {
+    total: tagged.length,
+    byTag: Array.from(tagCounts.entries()).map(([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count),
+    weeks,
+    trend: weeks.map((week) => ({ week, counts: trend.get(week)! })),
+    byItem: groupComplaints(byItem, weeks, settings),
+    byRestaurant: groupComplaints(byRestaurant, weeks, settings),
+  };
+}
+
+export function analyzeReviews(orders: ZomatoOrder[], settings?: KitchenTimeSettings): ReviewReport {
+  const reviews: AnalyzedReview[] = orders
+    .filter((o) => o.review?.trim())
+    .map((o) => {
+      const analysis = analyzeReviewText(o.review!);
+      const lowRating = typeof o.rating === 'number' && o.rating > 0 && o.rating <= 2;
+      return {
+        ...analysis,
+        orderId: o.orderId,
+        orderPlacedAt: o.orderPlacedAt,
+        date: businessDate(o.orderPlacedAt, settings),
+        restaurantName: o.restaurantName,
+        rating: o.rating,
+        review: o.review!.trim(),
+        complaintTag: o.customerComplaintTag,
+        negative: analysis.sentiment === 'negative' || lowRating,
+      };
+    })
+    .sort((a, b) => b.orderPlacedAt - a.orderPlacedAt);
+
+  const sentimentCounts: Record<ReviewSentiment, number> = { positive: 0, neutral: 0, negative: 0 };
+  reviews.forEach((r) => { sentimentCounts[r.negative ? 'negative' : r.sentiment] += 1; });
+
+  const aspects: AspectSummary[] = (Object.keys(REVIEW_ASPECT_LABELS) as ReviewAspect[])
+    .map((aspect) => {
+      const hits = reviews.filter((r) => r.aspects.includes(aspect));
+      const rated = hits.filter((r) => typeof r.rating === 'number' && r.rating > 0);
+      return {
+        aspect,
+        mentions: hits.length,
+        negative: hits.filter((r) => r.negative).length,
+        positive: hits.filter((r) => !r.negative && r.sentiment === 'positive').length,
+        avgRating: rated.length > 0 ? rated.reduce((sum, r) => sum + r.rating!, 0) / rated.length : null,
+      };
+    })
+    .sort((a, b) => b.mentions - a.mentions);
+
+  const trend = new Map<string, { positive: number; neutral: number; negative: number }>();
+  reviews.forEach((r) => {
+    const week = businessWeekStart(r.orderPlacedAt, settings);
+    const counts = trend.get(week) ?? { positive: 0, neutral: 0, negative: 0 };
+    counts[r.negative ? 'negative' : r.sentiment] += 1;
+    trend.set(week, counts);
+  });
+
+  const negativeReviews = reviews.filter((r) => r.negative);
+  return {
+    reviewed: reviews.length,
+    sentimentCounts,
+    avgScore: reviews.length > 0 ? reviews.reduce((sum, r) => sum + r.score, 0) / reviews.length : 0,
+    aspects,
+    negativeKeywords: countKeywords(negativeReviews, 15),
+    positiveKeywords: countKeywords(reviews.filter((r) => !r.negative && r.sentiment === 'positive'), 15),
+    reviews,
+    negativeReviews,
+    sentimentTrend: Array.from(trend.entries()).sort((a, b) => a[0].localeCompare(b[0])).map(([week, counts]) => ({ week, ...counts })),
+    complaints: analyzeComplaintTags(orders, settings),
+  };
+}
+
+/** Review sentiment, top complaint aspects and tags as one line for AI prompts. */
+export function formatReviewSummary(report: ReviewReport): string {
+  if (report.reviewed === 0 && report.complaints.total === 0) return 'No written reviews or complaint tags';
+  const aspects = report.aspects
+    .filter((a) => a.negative > 0)
+    .slice(0, 3)
+    .map((a) => `${REVIEW_ASPECT_LABELS[a.aspect].toLowerCase()} (${a.negative})`)
+    .join(', ');
+  const tags = report.complaints.byTag.slice(0, 3).map((t) => `${t.tag} (${t.count})`).join(', ');
+  return [
+    `${report.reviewed} reviews: ${report.sentimentCounts.positive} positive, ${report.sentimentCounts.neutral} neutral, ${report.sentimentCounts.negative} negative`,
+    aspects && `main complaints ${aspects}`,
+    tags && `complaint tags ${tags}`,
+  ].filter(Boolean).join('; ');
+}
@@ -0,0 +1,334 @@
+import { OrderSource, ZomatoOrder } from "../types";
+import { CsvTable, ImportIssue, parseAmount, parseOrderDate } from "./csvService";
+import { getOrderSource } from "./channelService";
+import { RateCard, calculateOrderPayout } from "./payoutService";
+import { isDelivered } from "./orderStatusService";
+
+/**
+ * Settlement statements and payout reconciliation.
+ *
+ * Aggregators send weekly settlement CSVs listing, per order, what they
+ * deducted and what they paid out. Statements are imported here, stored per
+ * user in localStorage, and reconciled against order history and the
+ * rate-card payout calculator to surface orders to dispute.
+ */
+
+export interface SettlementLine {
+  orderId: string;
+  orderDate?: number; // Unix ms
+  settlementDate?: string; // As written in the statement
+  orderValue?: number;
+  commission?: number;
+  gstOnCommission?: number;
+  gatewayFee?: number;
+  penalty?: number;
+  otherDeductions?: number;
+  totalDeductions?: number;
+  netPayout: number;
+  utr?: string; // Bank transfer reference
+  remarks?: string;
+  line: number; // Line in the statement file
+}
+
+export interface SettlementStatement {
+  id: string;
+  fileName: string;
+  source: OrderSource;
+  importedAt: number;
+  lines: SettlementLine[];
+}
+
+export type DiscrepancyKind =
+  | 'missing_order' // In the statement, not in order history
+  | 'unsettled' // Delivered in the statement period, not in any statement
+  | 'amount_mismatch' // Paid out differs from the rate-card payout
+  | 'unexplained_deduction' // Deductions not itemised as commission/GST/gateway/penalty
+  | 'penalty'; // Penalty charged that order history doesn't show
+
+export interface ReconciliationRow {
+  kind: DiscrepancyKind;
+  orderId: string;
+  statement?: string; // File name
+  line?: number;
+  expected?: number; // Rate-card net payout
+  settled?: number; // Net payout in the statement
+  difference: number; // settled - expected (or the unexplained/penalty amount)
+  details: string;
+}
+
+export interface ReconciliationResult {
+  matched: number; // Lines matched to an order within tolerance
+  settledTotal: number;
+  expectedTotal: number; // For matched orders
+  rows: ReconciliationRow[];
+}
+
+export const DISCREPANCY_LABELS: Record<DiscrepancyKind, string> = {
+  missing_order: 'Missing order',
+  unsettled: 'Not settled',
+  amount_mismatch: 'Amount mismatch',
+  unexplained_deduction: 'Unexplained deduction',
+  penalty: 'Penalty',
+};
+
+type SettlementField = Exclude<keyof SettlementLine, 'line'>;
+
+// Header aliases, matched case-insensitively; first hit wins.
+const SETTLEMENT_COLUMNS: Record<SettlementField, string[]> = {
+  orderId: ['order id', 'order no', 'order no.', 'order number', 'swiggy order id'],
+  orderDate: ['order date', 'order placed at', 'order time', 'ordered time', 'date'],
+  settlementDate: ['settlement date', 'payout date', 'payment date', 'utr date'],
+  orderValue: ['net order value', 'order value', 'bill subtotal', 'item total', 'customer payable', 'total'],
+  commission: ['commission', 'service fee', 'platform commission', 'commission amount'],
+  gstOnCommission: ['gst on commission', 'taxes on service & payment mechanism fees', 'gst on service fee'],
+  gatewayFee: ['payment mechanism fee', 'payment gateway fee', 'pg charges', 'pg fee', 'payment collection charges'],
+  penalty: ['penalty', 'rejection penalty', 'cancellation penalty', 'restaurant penalty'],
+  otherDeductions: ['other deductions', 'other charges', 'adjustments', 'ads', 'miscellaneous'],
+  totalDeductions: ['total deductions', 'total deduction', 'deductions'],
+  netPayout: ['net payout', 'net receivable', 'net payable', 'final amount', 'payout amount', 'amount paid', 'net amount'],
+  utr: ['utr', 'utr number', 'bank reference'],
+  remarks: ['remarks', 'comments', 'description'],
+};
+
+type SettlementAmountField = 'orderValue' | 'commission' | 'gstOnCommission' | 'gatewayFee' | 'penalty' | 'otherDeductions' | 'totalDeductions';
+
+const AMOUNT_FIELDS: SettlementAmountField[] = ['orderValue', 'commission', 'gstOnCommission', 'gatewayFee', 'penalty', 'otherDeductions', 'totalDeductions'];
+const STATEMENTS_KEY_PREFIX = 'klos_settlements_';
+// Differences up to ₹1 or 1% of the payout are rounding, not disputes.
+const TOLERANCE_ABS = 1;
+const TOLERANCE_PCT = 0.01;
+
+/** Order-id key shared by statements and history: trimmed, without a leading '#'. */
+const normalizeSettlementOrderId = (value: string): string => value.trim().replace(/^#/, '');
+
+/**
+ * Read a settlement CSV into lines. Rows without an order id or net payout
+ * are reported as errors and skipped.
+ */
+export function parseSettlementTable(table: CsvTable): { lines: SettlementLine[]; issues: ImportIssue[]; source: OrderSource } {
+  const headers = table.headers.map((h) => h.toLowerCase().trim());
+  const index = {} as Record<SettlementField, number>;
+  (Object.keys(SETTLEMENT_COLUMNS) as SettlementField[]).forEach((field) => {
+    index[field] = SETTLEMENT_COLUMNS[field].map((name) => headers.indexOf(name)).find((i) => i !== -1) ?? -1;
+  });
+
+  const issues: ImportIssue[] = [];
+  if (index.orderId === -1 || index.netPayout === -1) {
+    issues.push({
+      severity: 'error',
+      line: 1,
+      column: index.orderId === -1 ? 'Order ID' : 'Net payout',
+      rawValue: table.headers.join(', '),
+      reason: 'Not a settlement statement: needs an order id and a net payout column',
+    });
+    return { lines: [], issues, source: 'zomato' };
+  }
+
+  const lines: SettlementLine[] = [];
+  table.rows.forEach((row, i) => {
+    const line = table.lines[i];
+    const cell = (field: SettlementField) => (index[field] === -1 ? '' : (row[index[field]] ?? '').trim());
+
+    const orderId = normalizeSettlementOrderId(cell('orderId'));
+    const netPayout = parseAmount(cell('netPayout'));
+    if (!orderId || netPayout === null) {
+      issues.push({
+        severity: 'error',
+        line,
+        column: !orderId ? 'Order ID' : 'Net payout',
+        rawValue: !orderId ? cell('orderId') : cell('netPayout'),
+        reason: !orderId ? 'Missing order id' : 'Net payout is not a number',
+      });
+      return;
+    }
+
+    const entry: SettlementLine = { orderId, netPayout, line };
+    AMOUNT_FIELDS.forEach((field) => {
+      const amount = parseAmount(cell(field));
+      // Statements write deductions as negatives or positives; store magnitudes.
+      if (amount !== null) entry[field] = field === 'orderValue' ? amount : Math.abs(amount);
+    });
+    const orderDate = parseOrderDate(cell('orderDate'));
+    if (orderDate !== null) entry.orderDate = orderDate;
+    if (cell('settlementDate')) entry.settlementDate = cell('settlementDate');
+    if (cell('utr')) entry.utr = cell('utr');
+    if (cell('remarks')) entry.remarks = cell('remarks');
+    lines.push(entry);
+  });
+
+  const source: OrderSource = headers.some((h) => h.includes('swiggy')) ? 'swiggy' : 'zomato';
+  return { lines, issues, source };
+}
+
+/** Store the statement list; false (list unchanged) when localStorage is full or unavailable. */
+function writeStatements(userId: string, statements: SettlementStatement[]): boolean {
+  try {
+    localStorage.setItem(`${STATEMENTS_KEY_PREFIX}${userId}`, JSON.stringify(statements));
+    return true;
+  } catch (err) {
+    console.warn('Failed to save settlement statements:', err);
+    return false;
+  }
+}
+
+export const settlementService = {
+  list(userId: string): SettlementStatement[] {
+    try {
+      const raw = localStorage.getItem(`${STATEMENTS_KEY_PREFIX}${userId}`);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+      console.warn('Failed to read settlement statements:', err);
+      return [];
+    }
+  },
+
+  /** Store a statement; returns the saved list, which doesn't include it when storage is full. */
+  add(userId: string, statement: Omit<SettlementStatement, 'id' | 'importedAt'>): SettlementStatement[] {
+    const current = settlementService.list(userId);
+    const next = [
+      { ...statement, id: `stmt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, importedAt: Date.now() },
+      ...current,
+    ];
+    return writeStatements(userId, next) ? next : current;
+  },
+
+  remove(userId: string, statementId: string): SettlementStatement[] {
+    const current = settlementService.list(userId);
+    const next = current.filter((s) => s.id !== statementId);
+    return writeStatements(userId, next) ? next : current;
+  },
+};
+
+const money = (value: number) => `₹${value.toFixed(2)}`;
+
+/**
+ * Match statement lines to orders by id and list every discrepancy.
+ * Orders are checked against the rate cards in force when they were placed.
+ */
+export function reconcileSettlements(statements: SettlementStatement[], orders: ZomatoOrder[], cards?: RateCard[]): ReconciliationResult {
+  const ordersById = new Map(orders.map((order) => [normalizeSettlementOrderId(order.orderId), order]));
+  const settledIds = new Set<string>();
+  const rows: ReconciliationRow[] = [];
+  const unsettled = new Map<string, ReconciliationRow>();
+  let matched = 0;
+  let settledTotal = 0;
+  let expectedTotal = 0;
+
+  statements.forEach((statement) => {
+    let periodStart = Infinity;
+    let periodEnd = -Infinity;
+
+    statement.lines.forEach((line) => {
+      settledTotal += line.netPayout;
+      settledIds.add(line.orderId);
+      const at = { orderId: line.orderId, statement: statement.fileName, line: line.line, settled: line.netPayout };
+
+      const order = ordersById.get(line.orderId);
+      if (!order) {
+        rows.push({ ...at, kind: 'missing_order', difference: line.netPayout, details: 'Order id not found in order history; import the matching order export' });
+        return;
+      }
+      periodStart = Math.min(periodStart, order.orderPlacedAt);
+      periodEnd = Math.max(periodEnd, order.orderPlacedAt);
+
+      const expected = calculateOrderPayout(order, cards);
+      expectedTotal += expected.netPayout;
+      const difference = line.netPayout - expected.netPayout;
+      let clean = true;
+
+      if (Math.abs(difference) > Math.max(TOLERANCE_ABS, Math.abs(expected.netPayout) * TOLERANCE_PCT)) {
+        clean = false;
+        const parts: string[] = [];
+        if (line.commission !== undefined) parts.push(`commission ${money(line.commission)} vs ${money(expected.commission)}`);
+        if (line.gstOnCommission !== undefined) parts.push(`GST ${money(line.gstOnCommission)} vs ${money(expected.gstOnCommission)}`);
+        if (line.gatewayFee !== undefined) parts.push(`gateway ${money(line.gatewayFee)} vs ${money(expected.gatewayFee)}`);
+        rows.push({
+          ...at,
+          kind: 'amount_mismatch',
+          expected: expected.netPayout,
+          difference,
+          details: `Paid ${money(line.netPayout)}, expected ${money(expected.netPayout)}${parts.length ? ` (${parts.join('; ')})` : ''}`,
+        });
+      }
+
+      // Deductions the statement totals but doesn't itemise, plus explicit "other" charges.
+      const itemised = (line.commission ?? 0) + (line.gstOnCommission ?? 0) + (line.gatewayFee ?? 0) + (line.penalty ?? 0);
+      const unexplained = (line.otherDeductions ?? 0)
+        + (line.totalDeductions !== undefined ? Math.max(0, line.totalDeductions - itemised - (line.otherDeductions ?? 0)) : 0);
+      if (unexplained > TOLERANCE_ABS) {
+        clean = false;
+        rows.push({
+          ...at,
+          kind: 'unexplained_deduction',
+          expected: expected.netPayout,
+          difference: -unexplained,
+          details: `${money(unexplained)} deducted without a commission/GST/gateway/penalty breakdown${line.remarks ? ` (${line.remarks})` : ''}`,
+        });
+      }
+
+      const penalty = line.penalty ?? 0;
+      if (penalty > 0 && Math.abs(penalty - (order.restaurantPenalty ?? 0)) > TOLERANCE_ABS) {
+        clean = false;
+        rows.push({
+          ...at,
+          kind: 'penalty',
+          expected: expected.netPayout,
+          difference: -penalty,
+          details: `Penalty ${money(penalty)} charged; order history shows ${money(order.restaurantPenalty ?? 0)} for a ${order.orderStatus.toLowerCase()} order`,
+        });
+      }
+
+      if (clean) matched += 1;
+    });
+
+    // Delivered orders on the statement's channel and period that it doesn't cover.
+    if (periodStart <= periodEnd) {
+      orders.forEach((order) => {
+        const id = normalizeSettlementOrderId(order.orderId);
+        if (unsettled.has(id) || getOrderSource(order) !== statement.source || !isDelivered(order)) return;
+        if (order.orderPlacedAt < periodStart || order.orderPlacedAt > periodEnd) return;
+        const expected = calculateOrderPayout(order, cards).netPayout;
+        unsettled.set(id, {
+          kind: 'unsettled',
+          orderId: order.orderId,
+          statement: statement.fileName,
+          expected,
+          difference: -expected,
+          details: `Delivered ${new Date(order.orderPlacedAt).toLocaleDateString()} within the statement period but not paid out`,
+        });
+      });
+    }
+  });
+
+  // Checked after every statement: an order missing from one may be paid in another.
+  unsettled.forEach((row, id) => {
+    if (!settledIds.has(id)) rows.push(row);
+  });
+
+  return { matched, settledTotal, expectedTotal, rows };
+}
+
+/**
+ * Serialize discrepancies as CSV for raising disputes with the aggregator.
+ */
+export function discrepanciesToCsv(rows: ReconciliationRow[]): string {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const header = ['Type', 'Order ID', 'Statement', 'Line', 'Expected payout', 'Settled payout', 'Difference', 'Details'].join(',');
+  const body = rows.map((row) =>
+    [
+      DISCREPANCY_LABELS[row.kind],
+      row.orderId,
+      row.statement ?? '',
+      row.line ?? '',
+      row.expected?.toFixed(2) ?? '',
+      row.settled?.toFixed(2) ?? '',
+      row.difference.toFixed(2),
+      row.details,
+    ].map(escape).join(',')
+  );
+  return [header, ...body].join('\n');
+}
@@ -0,0 +1,146 @@
+import { ZomatoOrder } from "../types";
+import {
+  KitchenTimeSettings, addDays, businessDate, businessWeekday, kitchenHour, kitchenMinuteOfDay, kitchenTimeService
+} from "./kitchenTimeService";
+import { isFailedOrder } from "./orderStatusService";
+
+/**
+ * Weekly rhythm for shift planning.
+ *
+ * The heatmap splits orders, order value and KPT by business weekday and
+ * wall-clock hour. Cell averages divide by the number of calendar days of
+ * that weekday in the data range, so a weekday the kitchen was closed still
+ * counts (as zero).
+ *
+ * The kitchen load curve estimates how many orders are being prepared at
+ * once: each order that wasn't cancelled or rejected occupies the kitchen
+ * from placement for its KPT (the median KPT when the export has none),
+ * spread over 15-minute slots of its business day. "Average" is the mean
+ * over that weekday's days; "busiest" is the highest single day.
+ */
+
+export const WEEKDAYS_MON_FIRST = [1, 2, 3, 4, 5, 6, 0];
+export const WEEKDAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export type HeatmapMetric = 'orders' | 'revenue' | 'kpt';
+
+export interface WeekHourCell {
+  weekday: number; // 0 = Sunday
+  hour: number; // Wall clock, 0-23
+  orders: number;
+  revenue: number;
+  avgOrders: number; // Per day of this weekday
+  avgRevenue: number;
+  avgKpt: number | null;
+}
+
+export interface LoadSlot {
+  minute: number; // Wall-clock minutes since midnight at the slot start
+  label: string; // "19:30"
+  avgConcurrent: number;
+  busiestConcurrent: number;
+}
+
+export interface WeeklyRhythm {
+  cells: WeekHourCell[]; // Monday-first, then by hour
+  daysPerWeekday: Record<number, number>;
+  load: Record<number, LoadSlot[]>; // By weekday; slots follow the business day from its start hour
+  peak: { weekday: number; label: string; avgConcurrent: number } | null;
+  assumedKptOrders: number; // Orders that used the median KPT
+}
+
+const SLOT_MINUTES = 15;
+const SLOTS_PER_DAY = (24 * 60) / SLOT_MINUTES;
+const DEFAULT_KPT_MINUTES = 15; // When no order in scope has a KPT
+const MAX_KPT_MINUTES = 180; // Ignore implausible durations
+
+const isKpt = (value: number | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= MAX_KPT_MINUTES;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const slotLabel = (minute: number) => `${pad(Math.floor(minute / 60) % 24)}:${pad(minute % 60)}`;
+
+const weekdayOf = (isoDate: string) => new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+
+export function analyzeWeeklyRhythm(orders: ZomatoOrder[], settings: KitchenTimeSettings = kitchenTimeService.getActive()): WeeklyRhythm {
+  const dates = orders.map((o) => businessDate(o.orderPlacedAt, settings));
+  const daysPerWeekday: Record<number, number> = { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0 };
+  if (dates.length > 0) {
+    const sorted = [...dates].sort();
+    for (let date = sorted[0]; date <= sorted[sorted.length - 1]; date = addDays(date, 1)) daysPerWeekday[weekdayOf(date)] += 1;
+  }
+
+  // Heatmap
+  const grid = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => ({ orders: 0, revenue: 0, kpt: [] as number[] })));
+  orders.forEach((order) => {
+    const cell = grid[businessWeekday(order.orderPlacedAt, settings)][kitchenHour(order.orderPlacedAt, settings)];
+    cell.orders += 1;
+    cell.revenue += order.totalAmount;
+    if (isKpt(order.kptMinutes)) cell.kpt.push(order.kptMinutes);
+  });
+  const cells: WeekHourCell[] = WEEKDAYS_MON_FIRST.flatMap((weekday) =>
+    grid[weekday].map((cell, hour) => {
+      const days = daysPerWeekday[weekday] || 1;
+      return {
+        weekday,
+        hour,
+        orders: cell.orders,
+        revenue: cell.revenue,
+        avgOrders: cell.orders / days,
+        avgRevenue: cell.revenue / days,
+        avgKpt: cell.kpt.length > 0 ? cell.kpt.reduce((a, b) => a + b, 0) / cell.kpt.length : null,
+      };
+    })
+  );
+
+  // Kitchen load: minutes of preparation per 15-minute slot of each business day
+  const prepared = orders.filter((o) => !isFailedOrder(o));
+  const knownKpts = prepared.map((o) => o.kptMinutes).filter(isKpt).sort((a, b) => a - b);
+  const fallbackKpt = knownKpts.length > 0 ? knownKpts[Math.floor(knownKpts.length / 2)] : DEFAULT_KPT_MINUTES;
+  const dayStart = settings.businessDayStartHour * 60;
+  const busyMinutes = new Map<string, number[]>();
+  let assumedKptOrders = 0;
+
+  prepared.forEach((order) => {
+    const kpt = isKpt(order.kptMinutes) ? order.kptMinutes : fallbackKpt;
+    if (!isKpt(order.kptMinutes)) assumedKptOrders += 1;
+    let date = businessDate(order.orderPlacedAt, settings);
+    let offset = (kitchenMinuteOfDay(order.orderPlacedAt, settings) - dayStart + 1440) % 1440; // Minutes into the business day
+    let remaining = kpt;
+    while (remaining > 0) {
+      if (offset >= 1440) {
+        date = addDays(date, 1);
+        offset -= 1440;
+      }
+      const slot = Math.floor(offset / SLOT_MINUTES);
+      const used = Math.min(remaining, (slot + 1) * SLOT_MINUTES - offset);
+      const slots = busyMinutes.get(date) ?? new Array(SLOTS_PER_DAY).fill(0);
+      slots[slot] += used;
+      busyMinutes.set(date, slots);
+      remaining -= used;
+      offset += used;
+    }
+  });
+
+  const load: Record<number, LoadSlot[]> = {};
+  WEEKDAYS_MON_FIRST.forEach((weekday) => {
+    const days = Array.from(busyMinutes.entries()).filter(([date]) => weekdayOf(date) === weekday).map(([, slots]) => slots);
+    load[weekday] = Array.from({ length: SLOTS_PER_DAY }, (_, slot) => {
+      const concurrent = days.map((slots) => slots[slot] / SLOT_MINUTES);
+      const avgConcurrent = concurrent.reduce((a, b) => a + b, 0) / (daysPerWeekday[weekday] || 1);
+      const minute = (dayStart + slot * SLOT_MINUTES) % 1440;
+      return {
+        minute,
+        label: slotLabel(minute),
+        avgConcurrent,
+        busiestConcurrent: concurrent.length > 0 ? Math.max(...concurrent) : 0,
+      };
+    });
+  });
+
+  const peak = WEEKDAYS_MON_FIRST
+    .flatMap((weekday) => load[weekday].map((slot) => ({ weekday, label: slot.label, avgConcurrent: slot.avgConcurrent })))
+    .reduce<WeeklyRhythm['peak']>((best, slot) => (slot.avgConcurrent > (best?.avgConcurrent ?? 0) ? slot : best), null);
+
+  return { cells, daysPerWeekday, load, peak, assumedKptOrders };
+}
@@ -1,5 +1,7 @@
 import { supabase } from './supabaseClient';
 import { ZomatoOrder, User } from '../types';
+import { pickOrderDetails, splitOrderDetails } from './orderFields';
+import { applyOrderStatuses } from './orderStatusService';
 
 function toErrorMessage(error: unknown): string {
   if (error instanceof Error) return error.message;
@@ -121,12 +123,17 @@ export const supabaseService = {
     const cloudUserId = await requireCloudUser(userId);
 
     // Upsert by scoped orderId so re-imports can update changed fields.
-    const normalized = orders.map(order => ({
-      ...order,
-      orderId: encodeScopedOrderId(cloudUserId, order.orderId),
-      orderPlacedAt: toSupabaseTimestamp((order as any).orderPlacedAt),
-      user_id: cloudUserId,
-    }));
+    // Extended order-history columns travel together in the `details` jsonb column.
+    const normalized = orders.map(order => {
+      const { core, details } = splitOrderDetails(order);
+      return {
+        ...core,
+        orderId: encodeScopedOrderId(cloudUserId, order.orderId),
+        orderPlacedAt: toSupabaseTimestamp((order as any).orderPlacedAt),
+        details,
+        user_id: cloudUserId,
+      };
+    });
     const { error } = await supabase
       .from('orders')
       .upsert(normalized, {
@@ -169,6 +176,27 @@ export const supabaseService = {
     if (error) throwSupabaseError(error, 'Failed to clear Supabase orders.');
   },
 
+  /**
+   * Delete specific orders for a user (used to roll back an import batch)
+   */
+  async deleteOrders(userId: string, orderIds: string[]) {
+    const cloudUserId = await requireCloudUser(userId);
+    const scopedIds = Array.from(
+      new Set(orderIds.map((id) => encodeScopedOrderId(cloudUserId, normalizeOrderId(id))))
+    );
+
+    // Chunked so the `in` filter stays within request URL limits.
+    const chunkSize = 200;
+    for (let i = 0; i < scopedIds.length; i += chunkSize) {
+      const { error } = await supabase
+        .from('orders')
+        .delete()
+        .eq('user_id', cloudUserId)
+        .in('orderId', scopedIds.slice(i, i + chunkSize));
+      if (error) throwSupabaseError(error, 'Failed to delete orders from Supabase.');
+    }
+  },
+
   /**
    * Load orders for a user
    */
@@ -196,10 +224,12 @@ export const supabaseService = {
       from += pageSize;
     }
 
-    return rows.map((order: any) => ({
+    // Rows saved before `details` existed come back with it null and load as plain 8-field orders.
+    return applyOrderStatuses(rows.map(({ details, ...order }: any) => ({
       ...order,
+      ...pickOrderDetails(details),
       orderId: decodeScopedOrderId(cloudUserId, order.orderId),
       orderPlacedAt: toUnixMs(order.orderPlacedAt),
-    }));
+    })));
   },
 };
\ No newline at end of file
@@ -6,16 +6,64 @@ export interface User {
   password?: string; // In a real app, never store plain text. For local DSS, simple storage.
 }
 
+export type OrderSource = 'zomato' | 'swiggy' | 'direct';
+
+// Canonical order outcome; raw export values map onto it in services/orderStatusService.ts
+export enum OrderStatus {
+  Delivered = 'delivered',
+  RejectedByRestaurant = 'rejected_by_restaurant',
+  TimedOut = 'timed_out', // Not accepted by the restaurant in time
+  CancelledByCustomer = 'cancelled_by_customer',
+  CancelledByPlatform = 'cancelled_by_platform',
+  Returned = 'returned',
+  InProgress = 'in_progress',
+  Unknown = 'unknown',
+}
+
 export interface ZomatoOrder {
   orderId: string;
   restaurantName: string;
   orderPlacedAt: number; // Unix timestamp
-  orderStatus: string;
+  orderStatus: string; // Raw status as exported
+  status?: OrderStatus; // Canonical status, assigned at import/load
   totalAmount: number;
   rating?: number;
   items?: string;
   customerName?: string;
   city?: string;
+  source?: OrderSource; // Sales channel; absent on legacy records, which are Zomato exports
+
+  // Extended order-history columns (all optional so older 8-field data still loads)
+  restaurantId?: string;
+  subzone?: string;
+  deliveryType?: string; // "Delivery" column, e.g. "Zomato Delivery"
+  distance?: string; // Raw band as exported, e.g. "<1km", "8km"
+  instructions?: string;
+  discountConstruct?: string; // e.g. "Flat Rs.100 off"
+  billSubtotal?: number;
+  packagingCharges?: number;
+  promoDiscount?: number; // Restaurant discount (Promo)
+  flatOffDiscount?: number; // Restaurant discount (Flat offs, Freebies & others)
+  goldDiscount?: number;
+  brandPackDiscount?: number;
+  review?: string;
+  cancellationReason?: string;
+  restaurantCompensation?: number; // Restaurant compensation (Cancellation)
+  restaurantPenalty?: number; // Restaurant penalty (Rejection)
+  kptMinutes?: number; // KPT duration (minutes)
+  riderWaitMinutes?: number; // Rider wait time (minutes)
+  orderReadyMarked?: string; // "Correctly" | "Incorrectly" | "Missed"
+  customerComplaintTag?: string;
+  customerId?: string; // Hashed customer identifier
+  lineItems?: OrderItem[]; // `items` parsed once at import; see services/orderItems.ts
+}
+
+// One line of an order, e.g. "1 x Mutton Handi Biryani [2 Pieces]"
+export interface OrderItem {
+  quantity: number;
+  name: string; // Base dish name, e.g. "Mutton Handi Biryani"
+  variant?: string; // Bracketed portion, e.g. "2 Pieces"
+  addOns?: string[]; // e.g. ["Extra Raita", "Gulab Jamun"]
 }
 
 export interface SalesSummary {
@@ -38,8 +86,12 @@ export interface InsightResponse {
   customerInsights: string;
   profitabilityAnalysis: {
     grossRevenue: number;
-    zomatoCommission: number;
-    estimatedNet: number;
+    zomatoCommission: number; // Aggregator commission incl. GST on it
+    estimatedNet: number; // Net payout from the rate cards
+    gatewayFees?: number;
+    fixedFees?: number;
+    restaurantDiscounts?: number;
+    penalties?: number;
     analysis: string;
   };
   recommendations: string[];
@@ -63,7 +115,7 @@ export interface ItemSales {
 }
 
 // Types for LiveOrders component
-export interface OrderItem {
+export interface LiveOrderItem {
   name: string;
   quantity: number;
   price: number;
@@ -74,7 +126,7 @@ export interface Order {
   customerName: string;
   totalAmount: number;
   timestamp: number;
-  items: OrderItem[];
+  items: LiveOrderItem[];
   status: string;
 }
 